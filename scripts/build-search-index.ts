@@ -1,9 +1,14 @@
 /**
  * build-search-index.ts
  *
- * Reads data/settings.json and data/categories.json, builds:
+ * Reads data/settings.json and data/categories.json (configuration, compliance
+ * and inventory catalogs together), builds:
  * 1. A Flexsearch-compatible search index exported to public/search-index.json
  * 2. A category tree structure saved to data/category-tree.json
+ * 3. public/settings-browse.json, the slim settings the browser loads
+ * 4. public/archive/ — the snapshot archive deltas from data/archive/, an
+ *    index.json listing their dates, and today's categories for rebuilding
+ *    past category trees
  *
  * The search index is a simple JSON array of searchable documents that
  * the client-side Flexsearch instance indexes on load.
@@ -14,8 +19,15 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import type { SettingDefinition, SettingCategory, CategoryTreeNode, SearchIndexEntry } from '../src/lib/types';
+import * as zlib from 'zlib';
+import type { SettingDefinition, SettingCategory, SearchIndexEntry } from '../src/lib/types';
+import { getSettingUsages } from '../src/lib/types';
 import { getAsrRuleInfo } from '../src/lib/asr-rules';
+import { getCspPath } from '../src/lib/settings-grouping';
+import { buildCategoryTree, countSettingsByCategory } from '../src/lib/category-tree';
+import { toBrowseSetting } from '../src/lib/browse-data';
+import { toArchiveCategory } from '../src/lib/snapshot-archive';
+import type { ArchiveIndex } from '../src/lib/snapshot-archive';
 
 const DATA_DIR = path.resolve(__dirname, '..', 'data');
 const PUBLIC_DIR = path.resolve(__dirname, '..', 'public');
@@ -24,6 +36,8 @@ const CATEGORIES_FILE = path.join(DATA_DIR, 'categories.json');
 const SEARCH_INDEX_FILE = path.join(PUBLIC_DIR, 'search-index.json');
 const CATEGORY_TREE_FILE = path.join(DATA_DIR, 'category-tree.json');
 const MERGE_MAP_FILE = path.join(DATA_DIR, 'category-merge-map.json');
+const ARCHIVE_DIR = path.join(DATA_DIR, 'archive');
+const PUBLIC_ARCHIVE_DIR = path.join(PUBLIC_DIR, 'archive');
 
 /** Derive scope from baseUri */
 function getScope(baseUri?: string): 'device' | 'user' | 'unknown' {
@@ -42,153 +56,6 @@ function getSettingType(odataType: string): string {
   return 'unknown';
 }
 
-/** Format a human-friendly platform label for disambiguation */
-function platformLabel(platforms: string[]): string {
-  const map: Record<string, string> = {
-    windows10: 'Windows',
-    macOS: 'macOS',
-    iOS: 'iOS/iPadOS',
-    android: 'Android',
-    androidEnterprise: 'Android Enterprise',
-    aosp: 'AOSP',
-    linux: 'Linux',
-  };
-  const labels = platforms.map((p) => map[p.trim()] || p.trim()).filter(Boolean);
-  return labels.join(', ');
-}
-
-/** Build a nested category tree from flat list */
-function buildCategoryTree(
-  categories: SettingCategory[],
-  settingsCountMap: Map<string, number>
-): { roots: CategoryTreeNode[]; mergeMap: Record<string, string> } {
-  const nodeMap = new Map<string, CategoryTreeNode>();
-
-  // Create nodes
-  for (const cat of categories) {
-    nodeMap.set(cat.id, {
-      ...cat,
-      children: [],
-      settingCount: settingsCountMap.get(cat.id) || 0,
-    });
-  }
-
-  // Build tree
-  const roots: CategoryTreeNode[] = [];
-  for (const node of nodeMap.values()) {
-    if (node.parentCategoryId === node.id || !node.parentCategoryId) {
-      // Root category
-      roots.push(node);
-    } else {
-      const parent = nodeMap.get(node.parentCategoryId);
-      if (parent) {
-        parent.children.push(node);
-        // Accumulate child counts to parent
-      } else {
-        // Orphan — treat as root
-        roots.push(node);
-      }
-    }
-  }
-
-  // Sort children alphabetically
-  function sortTree(nodes: CategoryTreeNode[]) {
-    nodes.sort((a, b) => a.displayName.localeCompare(b.displayName));
-    for (const n of nodes) {
-      sortTree(n.children);
-    }
-  }
-  sortTree(roots);
-
-  // ── Merge & disambiguate sibling categories with identical displayNames ──
-  // The Graph API sometimes returns multiple category entries with the same
-  // display name under the same parent.  When their key metadata (platforms,
-  // technologies, settingUsage) is identical they are true duplicates and we
-  // merge them.  When metadata differs they are distinct variants and we
-  // append a platform label to disambiguate (e.g. "Microsoft Edge (macOS)").
-  const mergeMap: Record<string, string> = {}; // secondaryId → primaryId
-
-  function deduplicateSiblings(siblings: CategoryTreeNode[]) {
-    // Group by displayName
-    const byName = new Map<string, CategoryTreeNode[]>();
-    for (const node of siblings) {
-      const list = byName.get(node.displayName) || [];
-      list.push(node);
-      byName.set(node.displayName, list);
-    }
-
-    const toRemove = new Set<string>();
-    for (const [, group] of byName) {
-      if (group.length <= 1) continue;
-
-      // Check whether all members have identical key metadata
-      const metaKey = (n: CategoryTreeNode) =>
-        `${n.platforms || ''}|${n.technologies || ''}|${n.settingUsage || ''}`;
-      const allSameMeta = group.every((n) => metaKey(n) === metaKey(group[0]));
-
-      if (allSameMeta) {
-        // True duplicates — merge into the one with the most settings
-        group.sort((a, b) => b.settingCount - a.settingCount);
-        const primary = group[0];
-        for (let i = 1; i < group.length; i++) {
-          const secondary = group[i];
-          // Absorb settings count
-          primary.settingCount += secondary.settingCount;
-          // Absorb child categories
-          primary.children.push(...secondary.children);
-          // Record merge so page.tsx can consolidate settingsByCategory
-          mergeMap[secondary.id] = primary.id;
-          toRemove.add(secondary.id);
-        }
-      } else {
-        // Different metadata — disambiguate with a platform label.
-        // Leave the variant with the most settings unlabeled (it's the "main"
-        // one) and only add platform labels to the smaller variants.
-        group.sort((a, b) => b.settingCount - a.settingCount);
-        for (let i = 1; i < group.length; i++) {
-          const node = group[i];
-          const platforms = (node.platforms || 'unknown').split(',');
-          const label = platformLabel(platforms);
-          if (label) {
-            node.displayName = `${node.displayName} (${label})`;
-          }
-        }
-      }
-    }
-
-    // Remove merged-away nodes
-    if (toRemove.size > 0) {
-      for (let i = siblings.length - 1; i >= 0; i--) {
-        if (toRemove.has(siblings[i].id)) siblings.splice(i, 1);
-      }
-    }
-
-    // Recurse into children
-    for (const node of siblings) {
-      deduplicateSiblings(node.children);
-    }
-  }
-
-  deduplicateSiblings(roots);
-  // Re-sort after possible displayName changes
-  sortTree(roots);
-
-  // Roll up setting counts from children to parents
-  function rollUpCounts(node: CategoryTreeNode): number {
-    let total = node.settingCount;
-    for (const child of node.children) {
-      total += rollUpCounts(child);
-    }
-    node.settingCount = total;
-    return total;
-  }
-  for (const root of roots) {
-    rollUpCounts(root);
-  }
-
-  return { roots, mergeMap };
-}
-
 function main() {
   console.log('Search Index & Category Tree Builder');
   console.log('=====================================');
@@ -214,38 +81,8 @@ function main() {
     categoryNameMap.set(c.id, c.displayName);
   }
 
-  // Count visible settings per category.
-  // A setting is "visible" if it is either:
-  //   - A root setting (no rootDefinitionId, or rootDefinitionId === id), OR
-  //   - A child whose CSP path differs from its parent's (non-duplicate child).
-  // Children with the same CSP path as their parent are hidden in the UI and
-  // should not inflate the count.
-  const settingById = new Map<string, SettingDefinition>();
-  for (const s of settings) settingById.set(s.id, s);
-
-  const getCspPath = (s: SettingDefinition) =>
-    s.baseUri && s.offsetUri
-      ? `${s.baseUri}/${s.offsetUri}`
-      : s.baseUri || s.offsetUri || '';
-
-  const settingsCountMap = new Map<string, number>();
-  for (const s of settings) {
-    const isRoot = !s.rootDefinitionId || s.rootDefinitionId === s.id;
-    if (isRoot) {
-      // Always count root settings (except synthetic group containers which
-      // are promoted through their children — but these are rare enough to
-      // keep in the count for simplicity).
-      const count = settingsCountMap.get(s.categoryId) || 0;
-      settingsCountMap.set(s.categoryId, count + 1);
-    } else {
-      // Child setting — only count if its CSP path differs from the parent's
-      const parent = settingById.get(s.rootDefinitionId!);
-      if (!parent || getCspPath(s) !== getCspPath(parent)) {
-        const count = settingsCountMap.get(s.categoryId) || 0;
-        settingsCountMap.set(s.categoryId, count + 1);
-      }
-    }
-  }
+  // Count visible settings per category (hidden duplicate children excluded)
+  const settingsCountMap = countSettingsByCategory(settings);
 
   // Build search index entries (only visible settings, exclude groups)
   console.log('Building search index...');
@@ -269,6 +106,8 @@ function main() {
       scope: getScope(s.baseUri),
       platform: s.applicability?.platform || '',
       settingType: getSettingType(s['@odata.type'] || ''),
+      cspPath: getCspPath(s) || undefined,
+      usage: getSettingUsages(s.settingUsage).join(','),
     });
   }
 
@@ -302,38 +141,38 @@ function main() {
   console.log('Building settings-browse.json...');
   const BROWSE_FILE = path.join(PUBLIC_DIR, 'settings-browse.json');
   const browseSettings = settings.map((s) => {
-    // Apply category merge map so client doesn't need to re-map
-    const effectiveCatId = mergeMap[s.categoryId] || s.categoryId;
-    const slim: Record<string, unknown> = {
-      '@odata.type': s['@odata.type'],
-      id: s.id,
-      name: s.name,
-      displayName: s.displayName,
-      description: s.description || undefined,
-      categoryId: effectiveCatId,
-      baseUri: s.baseUri || undefined,
-      offsetUri: s.offsetUri || undefined,
-      rootDefinitionId: s.rootDefinitionId || undefined,
-      uxBehavior: s.uxBehavior || undefined,
-      applicability: s.applicability || undefined,
-      dependedOnBy: s.dependedOnBy || undefined,
-      defaultOptionId: s.defaultOptionId || undefined,
-      // Minimal options: keep displayName + dependedOnBy for toggle detection + inline expansion
-      options: s.options
-        ? s.options.map((o) => ({
-            itemId: o.itemId,
-            displayName: o.displayName,
-            dependedOnBy: o.dependedOnBy || undefined,
-          }))
-        : undefined,
-    };
-    // Strip undefined values to shrink JSON
-    return JSON.parse(JSON.stringify(slim));
+    // Apply category merge map so client doesn't need to re-map; the original
+    // ID is kept for archived snapshots, whose tree may not merge the same way
+    const slim = toBrowseSetting(s);
+    const effectiveCatId = mergeMap[s.categoryId];
+    return effectiveCatId ? { ...slim, categoryId: effectiveCatId, sourceCategoryId: s.categoryId } : slim;
   });
   fs.writeFileSync(BROWSE_FILE, JSON.stringify(browseSettings), 'utf-8');
   const browseSizeMB = (fs.statSync(BROWSE_FILE).size / 1024 / 1024).toFixed(2);
   console.log(`Browse data: ${browseSettings.length} settings (${browseSizeMB} MB) → ${BROWSE_FILE}`);
 
+  // ── Publish the snapshot archive ──
+  // Deltas are copied as-is; the browser applies them to settings-browse.json
+  // and these categories to rebuild the catalog as of a past date.
+  console.log('Publishing snapshot archive...');
+  fs.rmSync(PUBLIC_ARCHIVE_DIR, { recursive: true, force: true });
+  fs.mkdirSync(PUBLIC_ARCHIVE_DIR, { recursive: true });
+  const deltaFiles = fs.existsSync(ARCHIVE_DIR)
+    ? fs.readdirSync(ARCHIVE_DIR).filter((f) => /^\d{4}-\d{2}-\d{2}\.json\.gz$/.test(f))
+    : [];
+  for (const file of deltaFiles) {
+    fs.copyFileSync(path.join(ARCHIVE_DIR, file), path.join(PUBLIC_ARCHIVE_DIR, file));
+  }
+  const archiveIndex: ArchiveIndex = {
+    dates: deltaFiles.map((f) => f.slice(0, 10)).sort().reverse(),
+  };
+  fs.writeFileSync(path.join(PUBLIC_ARCHIVE_DIR, 'index.json'), JSON.stringify(archiveIndex), 'utf-8');
+  fs.writeFileSync(
+    path.join(PUBLIC_ARCHIVE_DIR, 'categories.json.gz'),
+    zlib.gzipSync(JSON.stringify(categories.map(toArchiveCategory))),
+  );
+  console.log(`Archive: ${archiveIndex.dates.length} dated deltas → ${PUBLIC_ARCHIVE_DIR}`);
+
   console.log('\nDone!');
 }
 
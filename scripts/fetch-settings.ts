@@ -2,28 +2,56 @@
  * fetch-settings.ts
  *
  * Authenticates with Microsoft Graph via client credentials and pulls
- * the full Intune Settings Catalog (configurationSettings + configurationCategories).
- * Writes the results to data/settings.json and data/categories.json.
+ * the full Intune Settings Catalog (configurationSettings + configurationCategories),
+ * the compliance and inventory catalogs, and the configuration policy
+ * templates (Endpoint Security, baselines, …). Writes the results to
+ * data/settings.json, data/categories.json and data/templates.json.
+ *
+ * All three catalogs share settings.json and categories.json; each entry's
+ * settingUsage says which catalog(s) it came from.
+ *
+ * Throttling (429), server errors (5xx) and timeouts are retried with
+ * exponential backoff. Every page is checkpointed under
+ * data/.fetch-checkpoint/, so a run that still fails resumes from the last
+ * @odata.nextLink next time. Data files are only written once every
+ * collection is complete — an aborted run leaves them untouched.
  *
  * Usage:
  *   AZURE_TENANT_ID=xxx AZURE_CLIENT_ID=xxx AZURE_CLIENT_SECRET=xxx npx tsx scripts/fetch-settings.ts
+ *
+ * Offline, against the local Graph stand-in (scripts/mock-graph-server.ts):
+ *   GRAPH_MOCK_URL=http://127.0.0.1:4010/beta npx tsx scripts/fetch-settings.ts
+ *
+ * Set FETCH_MAX_ATTEMPTS to change the attempts per request (default 6).
+ *
+ * The fetch flow itself is exported as fetchCatalog() and takes any
+ * GraphClient, so it can be driven end-to-end by verify-fetch-settings.ts.
  */
 
-import { ClientSecretCredential } from '@azure/identity';
-import { Client } from '@microsoft/microsoft-graph-client';
-import { TokenCredentialAuthenticationProvider } from '@microsoft/microsoft-graph-client/authProviders/azureTokenCredentials';
 import * as fs from 'fs';
 import * as path from 'path';
+import {
+  createGraphClient,
+  createHttpGraphClient,
+  describeError,
+  getStatusCode,
+  withRetry,
+} from './graph-client';
+import type { GraphClient, GraphPage, RetryOptions } from './graph-client';
+import type { PolicyTemplate, SettingUsage } from '../src/lib/types';
 
 // ─── Config ───
-const TENANT_ID = process.env.AZURE_TENANT_ID!;
-const CLIENT_ID = process.env.AZURE_CLIENT_ID!;
-const CLIENT_SECRET = process.env.AZURE_CLIENT_SECRET!;
-
 const DATA_DIR = path.resolve(__dirname, '..', 'data');
-const SETTINGS_FILE = path.join(DATA_DIR, 'settings.json');
-const CATEGORIES_FILE = path.join(DATA_DIR, 'categories.json');
-const LAST_UPDATED_FILE = path.join(DATA_DIR, 'last-updated.json');
+const CHECKPOINT_DIRNAME = '.fetch-checkpoint';
+/** Older checkpoints are discarded — Graph skip tokens do not stay valid for long */
+const CHECKPOINT_MAX_AGE_MS = 12 * 60 * 60 * 1000;
+
+/** Setting catalogs, fetched in this order; configuration wins on duplicate IDs */
+const CATALOGS: Array<{ usage: SettingUsage; settings: string; categories: string }> = [
+  { usage: 'configuration', settings: 'configurationSettings', categories: 'configurationCategories' },
+  { usage: 'compliance', settings: 'complianceSettings', categories: 'complianceCategories' },
+  { usage: 'inventory', settings: 'inventorySettings', categories: 'inventoryCategories' },
+];
 
 // Select only the fields we need to reduce payload
 const SETTINGS_SELECT = [
@@ -72,159 +100,412 @@ const CATEGORIES_SELECT = [
   'childCategoryIds',
 ].join(',');
 
-// ─── Auth & Client ───
+const TEMPLATES_SELECT = [
+  'id',
+  'baseId',
+  'version',
+  'displayName',
+  'description',
+  'displayVersion',
+  'lifecycleState',
+  'platforms',
+  'technologies',
+  'templateFamily',
+].join(',');
+
+// ─── Checkpoints ───
 
-function createGraphClient(): Client {
-  if (!TENANT_ID || !CLIENT_ID || !CLIENT_SECRET) {
-    console.error('Error: AZURE_TENANT_ID, AZURE_CLIENT_ID, and AZURE_CLIENT_SECRET must be set.');
-    process.exit(1);
-  }
+/** Progress of one collection: page-NNNN.json files plus this state file */
+interface CheckpointState {
+  startUrl: string;
+  /** Link to the next page; absent once the collection is complete */
+  nextLink?: string;
+  pages: number;
+  items: number;
+  updatedAt: string;
+}
 
-  const credential = new ClientSecretCredential(TENANT_ID, CLIENT_ID, CLIENT_SECRET);
-  const authProvider = new TokenCredentialAuthenticationProvider(credential, {
-    scopes: ['https://graph.microsoft.com/.default'],
-  });
+function pageFile(dir: string, page: number): string {
+  return path.join(dir, `page-${String(page).padStart(4, '0')}.json`);
+}
 
-  return Client.initWithMiddleware({
-    authProvider,
-    defaultVersion: 'beta',
-  });
+/** Pages saved by an earlier run for the same start URL, or null */
+function loadCheckpoint<T>(dir: string, startUrl: string): { state: CheckpointState; items: T[] } | null {
+  const stateFile = path.join(dir, 'state.json');
+  if (!fs.existsSync(stateFile)) return null;
+  try {
+    const state: CheckpointState = JSON.parse(fs.readFileSync(stateFile, 'utf-8'));
+    const age = Date.now() - new Date(state.updatedAt).getTime();
+    if (state.startUrl !== startUrl || !(age < CHECKPOINT_MAX_AGE_MS)) {
+      throw new Error('stale');
+    }
+    const items: T[] = [];
+    for (let page = 1; page <= state.pages; page++) {
+      items.push(...(JSON.parse(fs.readFileSync(pageFile(dir, page), 'utf-8')) as T[]));
+    }
+    return { state, items };
+  } catch {
+    // Stale, foreign or damaged — start this collection over
+    fs.rmSync(dir, { recursive: true, force: true });
+    return null;
+  }
+}
+
+function saveCheckpointPage<T>(dir: string, state: CheckpointState, items: T[]) {
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(pageFile(dir, state.pages), JSON.stringify(items), 'utf-8');
+  // Write-then-rename so an interrupted write never leaves a half state file
+  const stateFile = path.join(dir, 'state.json');
+  fs.writeFileSync(`${stateFile}.tmp`, JSON.stringify(state, null, 2), 'utf-8');
+  fs.renameSync(`${stateFile}.tmp`, stateFile);
 }
 
 // ─── Paginated Fetch ───
 
-async function fetchAllPages<T>(client: Client, url: string): Promise<T[]> {
-  const results: T[] = [];
-  let nextLink: string | undefined = url;
-  let page = 1;
+/** A collection could not be fetched completely; nothing was written */
+export class FetchAbortedError extends Error {
+  constructor(
+    public collection: string,
+    public pagesSaved: number,
+    public itemsSaved: number,
+    public checkpointDir: string,
+    public lastError: unknown,
+  ) {
+    super(`Fetching ${collection} failed after ${pagesSaved} pages: ${describeError(lastError)}`);
+    this.name = 'FetchAbortedError';
+  }
+}
+
+interface PageFetchOptions {
+  /** Checkpoint directory for this collection */
+  checkpointDir: string;
+  /** Name used in the abort summary (default: the checkpoint directory name) */
+  collection?: string;
+  retry?: RetryOptions;
+}
+
+async function fetchAllPages<T>(client: GraphClient, url: string, options: PageFetchOptions): Promise<T[]> {
+  const { checkpointDir } = options;
+  const resumed = loadCheckpoint<T>(checkpointDir, url);
+  const results: T[] = resumed?.items ?? [];
+  let nextLink: string | undefined = resumed ? resumed.state.nextLink : url;
+  let page = (resumed?.state.pages ?? 0) + 1;
+
+  if (resumed) {
+    console.log(nextLink
+      ? `  Resuming at page ${page} (${results.length} items from checkpoint)...`
+      : `  Using ${results.length} items from checkpoint.`);
+  }
 
   while (nextLink) {
     console.log(`  Page ${page}...`);
+    const link: string = nextLink;
+    let response: GraphPage<T>;
     try {
-      const response = await client.api(nextLink).get();
-      const items = response.value as T[];
-      results.push(...items);
-      nextLink = response['@odata.nextLink'];
-      page++;
+      response = await withRetry(() => client.get<GraphPage<T>>(link), {
+        ...options.retry,
+        onRetry: ({ attempt, delayMs, reason }) => {
+          console.warn(`  ${reason} — retry ${attempt} in ${(delayMs / 1000).toFixed(1)}s...`);
+          options.retry?.onRetry?.({ attempt, delayMs, reason });
+        },
+      });
     } catch (err: unknown) {
-      // Handle throttling
-      if (err && typeof err === 'object' && 'statusCode' in err && (err as { statusCode: number }).statusCode === 429) {
-        const retryAfter = ((err as { headers?: Record<string, string> }).headers?.['Retry-After']) || '30';
-        const waitMs = parseInt(retryAfter, 10) * 1000;
-        console.warn(`  Throttled. Waiting ${retryAfter}s...`);
-        await new Promise((resolve) => setTimeout(resolve, waitMs));
-        // Retry the same page (don't increment nextLink)
-        continue;
-      }
-      throw err;
+      throw new FetchAbortedError(options.collection ?? path.basename(checkpointDir), page - 1, results.length, checkpointDir, err);
     }
+
+    results.push(...response.value);
+    nextLink = response['@odata.nextLink'];
+    saveCheckpointPage(checkpointDir, {
+      startUrl: url,
+      nextLink,
+      pages: page,
+      items: results.length,
+      updatedAt: new Date().toISOString(),
+    }, response.value);
+    page++;
   }
 
   return results;
 }
 
-// ─── Main ───
+// ─── Catalogs ───
 
-async function main() {
-  console.log('Intune Settings Catalog Fetcher');
-  console.log('================================');
-  console.log(`Tenant: ${TENANT_ID}`);
-  console.log();
+/** settingUsage flags of a fetched item, or `fallback` when Graph sent none */
+function usageFlags(item: Record<string, unknown>, fallback: string[]): string[] {
+  const flags = String(item.settingUsage ?? '')
+    .split(',')
+    .map((u) => u.trim())
+    .filter((u) => u && u !== 'none');
+  return flags.length > 0 ? flags : fallback;
+}
 
-  const client = createGraphClient();
+/**
+ * Add one catalog's settings or categories to `target`, keyed by ID.
+ * Compliance and inventory items are tagged with their catalog's usage; an
+ * ID already fetched from an earlier catalog keeps that definition and gains
+ * the usage instead. Returns how many new IDs were added.
+ */
+function mergeCatalogItems(
+  target: Map<string, Record<string, unknown>>,
+  items: Record<string, unknown>[],
+  usage: SettingUsage,
+): number {
+  let added = 0;
+  for (const item of items) {
+    const id = item.id as string;
+    const existing = target.get(id);
+    if (existing) {
+      const flags = usageFlags(existing, ['configuration']);
+      if (!flags.includes(usage)) existing.settingUsage = [...flags, usage].join(',');
+      continue;
+    }
+    const flags = usageFlags(item, []);
+    if (usage !== 'configuration' && !flags.includes(usage)) item.settingUsage = [...flags, usage].join(',');
+    target.set(id, item);
+    added++;
+  }
+  return added;
+}
+
+// ─── Templates ───
+
+/** Every settingDefinitionId in a template's settingTemplates, nested children included, in first-seen order */
+function collectTemplateDefinitionIds(settingTemplates: unknown[]): string[] {
+  const ids = new Set<string>();
+  const walk = (node: unknown) => {
+    if (Array.isArray(node)) {
+      node.forEach(walk);
+    } else if (node && typeof node === 'object') {
+      for (const [key, value] of Object.entries(node)) {
+        if (key === 'settingDefinitionId' && typeof value === 'string') ids.add(value);
+        else walk(value);
+      }
+    }
+  };
+  walk(settingTemplates);
+  return [...ids];
+}
+
+// ─── Fetch flow ───
+
+export interface FetchCatalogOptions {
+  /** Where settings.json, categories.json and last-updated.json go (default data/) */
+  dataDir?: string;
+  /** Where page checkpoints go (default <dataDir>/.fetch-checkpoint) */
+  checkpointDir?: string;
+  retry?: RetryOptions;
+}
+
+export interface FetchCatalogResult {
+  categories: Record<string, unknown>[];
+  settings: Record<string, unknown>[];
+  /** Category IDs referenced by settings but missing from the bulk listing */
+  orphanCategoryIds: string[];
+  /** Orphan categories that could not be fetched individually either (e.g. 404) */
+  missingCategoryIds: string[];
+  templates: PolicyTemplate[];
+  /** Whether settings.json, categories.json or templates.json differ from what was on disk */
+  changed: boolean;
+}
+
+/**
+ * Fetch categories, setting definitions and templates through `client` and
+ * write settings.json, categories.json, templates.json and (when data
+ * changed) last-updated.json.
+ * Throws FetchAbortedError, without touching any data file, when a
+ * collection cannot be fetched completely.
+ */
+export async function fetchCatalog(client: GraphClient, options: FetchCatalogOptions = {}): Promise<FetchCatalogResult> {
+  const dataDir = options.dataDir ?? DATA_DIR;
+  const checkpointDir = options.checkpointDir ?? path.join(dataDir, CHECKPOINT_DIRNAME);
+  const settingsFile = path.join(dataDir, 'settings.json');
+  const categoriesFile = path.join(dataDir, 'categories.json');
+  const templatesFile = path.join(dataDir, 'templates.json');
+  const lastUpdatedFile = path.join(dataDir, 'last-updated.json');
 
   // Ensure data directory exists
-  if (!fs.existsSync(DATA_DIR)) {
-    fs.mkdirSync(DATA_DIR, { recursive: true });
+  if (!fs.existsSync(dataDir)) {
+    fs.mkdirSync(dataDir, { recursive: true });
   }
 
   // Load existing data for comparison (if available)
   let existingSettings = '';
   let existingCategories = '';
-  if (fs.existsSync(SETTINGS_FILE)) {
-    existingSettings = fs.readFileSync(SETTINGS_FILE, 'utf-8');
+  let existingTemplates = '';
+  if (fs.existsSync(settingsFile)) {
+    existingSettings = fs.readFileSync(settingsFile, 'utf-8');
+  }
+  if (fs.existsSync(categoriesFile)) {
+    existingCategories = fs.readFileSync(categoriesFile, 'utf-8');
   }
-  if (fs.existsSync(CATEGORIES_FILE)) {
-    existingCategories = fs.readFileSync(CATEGORIES_FILE, 'utf-8');
+  if (fs.existsSync(templatesFile)) {
+    existingTemplates = fs.readFileSync(templatesFile, 'utf-8');
   }
 
-  // 1. Fetch categories
-  console.log('Fetching configuration categories...');
-  const categoriesUrl = `/deviceManagement/configurationCategories?$select=${CATEGORIES_SELECT}`;
-  const categories = await fetchAllPages(client, categoriesUrl);
-  console.log(`  Retrieved ${categories.length} categories.`);
-
-  fs.writeFileSync(CATEGORIES_FILE, JSON.stringify(categories, null, 2), 'utf-8');
-  console.log(`  Saved to ${CATEGORIES_FILE}`);
-
-  // 2. Fetch setting definitions
-  // Note: we omit $select because setting definitions are polymorphic —
-  // sub-types (choice, simple, group, etc.) have different properties and
-  // $select on the base type rejects sub-type-only fields like 'options'.
-  console.log('Fetching configuration settings...');
-  const settingsUrl = `/deviceManagement/configurationSettings`;
-  const settings = await fetchAllPages(client, settingsUrl);
-  console.log(`  Retrieved ${settings.length} settings.`);
-
-  fs.writeFileSync(SETTINGS_FILE, JSON.stringify(settings, null, 2), 'utf-8');
-  console.log(`  Saved to ${SETTINGS_FILE}`);
-
-  // 3. Fetch any orphan categories referenced by settings but not in the
-  //    bulk categories response.  The Graph configurationCategories endpoint
-  //    sometimes omits deeply-nested leaf categories that settings still
-  //    reference.  We fetch these individually by ID.
-  const knownCatIds = new Set(categories.map((c) => (c as Record<string, unknown>).id));
-  const settingCatIds = new Set(
-    (settings as Record<string, unknown>[]).map((s) => s.categoryId).filter(Boolean)
-  );
-  const orphanCatIds = [...settingCatIds].filter((id) => !knownCatIds.has(id));
-
-  if (orphanCatIds.length > 0) {
-    console.log(`\nFound ${orphanCatIds.length} category IDs referenced by settings but missing from bulk fetch.`);
+  // 1. Fetch each catalog's categories and setting definitions
+  // Note: settings are fetched without $select because setting definitions
+  // are polymorphic — sub-types (choice, simple, group, etc.) have different
+  // properties and $select on the base type rejects sub-type-only fields
+  // like 'options'.
+  const categoryById = new Map<string, Record<string, unknown>>();
+  const settingById = new Map<string, Record<string, unknown>>();
+  const catalogSettings: Array<{ catalog: (typeof CATALOGS)[number]; settings: Record<string, unknown>[] }> = [];
+
+  for (const catalog of CATALOGS) {
+    console.log(`Fetching ${catalog.usage} categories...`);
+    const catalogCategories = await fetchAllPages<Record<string, unknown>>(
+      client,
+      `/deviceManagement/${catalog.categories}?$select=${CATEGORIES_SELECT}`,
+      { checkpointDir: path.join(checkpointDir, catalog.categories), retry: options.retry },
+    );
+    const newCategories = mergeCatalogItems(categoryById, catalogCategories, catalog.usage);
+    console.log(`  Retrieved ${catalogCategories.length} categories (${newCategories} new).`);
+
+    console.log(`Fetching ${catalog.usage} settings...`);
+    const settings = await fetchAllPages<Record<string, unknown>>(
+      client,
+      `/deviceManagement/${catalog.settings}`,
+      { checkpointDir: path.join(checkpointDir, catalog.settings), retry: options.retry },
+    );
+    const newSettings = mergeCatalogItems(settingById, settings, catalog.usage);
+    console.log(`  Retrieved ${settings.length} settings (${newSettings} new).`);
+    catalogSettings.push({ catalog, settings });
+  }
+
+  // 2. Fetch any orphan categories referenced by settings but not in the
+  //    bulk categories response.  The Graph category endpoints sometimes
+  //    omit deeply-nested leaf categories that settings still reference.
+  //    We fetch these individually by ID from the setting's own catalog.
+  const orphanCatIds: string[] = [];
+  const missingCatIds: string[] = [];
+
+  for (const { catalog, settings } of catalogSettings) {
+    const orphans = [...new Set(
+      settings.map((s) => s.categoryId as string | undefined).filter((id): id is string => !!id)
+    )].filter((id) => !categoryById.has(id));
+    if (orphans.length === 0) continue;
+
+    console.log(`\nFound ${orphans.length} ${catalog.usage} category IDs referenced by settings but missing from bulk fetch.`);
     console.log('Fetching orphan categories individually...');
     let fetched = 0;
-    for (const catId of orphanCatIds) {
+    for (const catId of orphans) {
+      orphanCatIds.push(catId);
       try {
-        const cat = await client
-          .api(`/deviceManagement/configurationCategories/${catId}?$select=${CATEGORIES_SELECT}`)
-          .get();
-        categories.push(cat);
+        const cat = await withRetry(
+          () => client.get<Record<string, unknown>>(`/deviceManagement/${catalog.categories}/${catId}?$select=${CATEGORIES_SELECT}`),
+          options.retry,
+        );
+        mergeCatalogItems(categoryById, [cat], catalog.usage);
         fetched++;
       } catch (err: unknown) {
         // Category may genuinely not exist; log and skip.
-        const status = (err as { statusCode?: number }).statusCode;
-        console.warn(`  Could not fetch category ${catId} (status ${status ?? 'unknown'}) — skipping`);
+        const status = getStatusCode(err);
+        console.warn(`  Could not fetch category ${catId} (${status ? `status ${status}` : describeError(err)}) — skipping`);
+        missingCatIds.push(catId);
       }
     }
-    console.log(`  Fetched ${fetched}/${orphanCatIds.length} orphan categories.`);
+    console.log(`  Fetched ${fetched}/${orphans.length} orphan categories.`);
+  }
+
+  const categories = [...categoryById.values()];
+  const settings = [...settingById.values()];
+
+  // 3. Fetch configuration policy templates, then each template's
+  //    settingTemplates to learn which setting definitions it uses.
+  console.log('\nFetching configuration policy templates...');
+  const templatesUrl = `/deviceManagement/configurationPolicyTemplates?$select=${TEMPLATES_SELECT}`;
+  const rawTemplates = await fetchAllPages<Omit<PolicyTemplate, 'settingDefinitionIds'>>(client, templatesUrl, {
+    checkpointDir: path.join(checkpointDir, 'configurationPolicyTemplates'),
+    retry: options.retry,
+  });
+  console.log(`  Retrieved ${rawTemplates.length} templates.`);
 
-    // Re-write categories.json with the additions
-    fs.writeFileSync(CATEGORIES_FILE, JSON.stringify(categories, null, 2), 'utf-8');
-    console.log(`  Updated ${CATEGORIES_FILE}`);
+  const templates: PolicyTemplate[] = [];
+  for (const t of rawTemplates) {
+    console.log(`  ${t.displayName} (${t.id}) settings...`);
+    const settingTemplates = await fetchAllPages<unknown>(
+      client,
+      `/deviceManagement/configurationPolicyTemplates/${encodeURIComponent(t.id)}/settingTemplates`,
+      {
+        checkpointDir: path.join(checkpointDir, 'settingTemplates', t.id),
+        collection: `settingTemplates of ${t.id}`,
+        retry: options.retry,
+      },
+    );
+    templates.push({ ...t, settingDefinitionIds: collectTemplateDefinitionIds(settingTemplates) });
   }
 
-  // 4. Write last-updated timestamp only if data actually changed
-  const newSettings = fs.readFileSync(SETTINGS_FILE, 'utf-8');
-  const newCategories = fs.readFileSync(CATEGORIES_FILE, 'utf-8');
-  const hasChanges = newSettings !== existingSettings || newCategories !== existingCategories;
+  // 4. Every collection is complete — write the data files
+  fs.writeFileSync(categoriesFile, JSON.stringify(categories, null, 2), 'utf-8');
+  console.log(`  Saved to ${categoriesFile}`);
+  fs.writeFileSync(settingsFile, JSON.stringify(settings, null, 2), 'utf-8');
+  console.log(`  Saved to ${settingsFile}`);
+  fs.writeFileSync(templatesFile, JSON.stringify(templates, null, 2), 'utf-8');
+  console.log(`  Saved to ${templatesFile}`);
+  fs.rmSync(checkpointDir, { recursive: true, force: true });
+
+  // 5. Write last-updated timestamp only if data actually changed
+  const newSettings = fs.readFileSync(settingsFile, 'utf-8');
+  const newCategories = fs.readFileSync(categoriesFile, 'utf-8');
+  const newTemplates = fs.readFileSync(templatesFile, 'utf-8');
+  const hasChanges = newSettings !== existingSettings || newCategories !== existingCategories || newTemplates !== existingTemplates;
 
   if (hasChanges) {
     const now = new Date().toISOString();
-    fs.writeFileSync(LAST_UPDATED_FILE, JSON.stringify({ date: now }, null, 2), 'utf-8');
+    fs.writeFileSync(lastUpdatedFile, JSON.stringify({ date: now }, null, 2), 'utf-8');
     console.log(`  Data changed — updated timestamp: ${now}`);
   } else {
     console.log('  No data changes detected — last-updated timestamp unchanged.');
   }
 
+  return {
+    categories,
+    settings,
+    orphanCategoryIds: orphanCatIds,
+    missingCategoryIds: missingCatIds,
+    templates,
+    changed: hasChanges,
+  };
+}
+
+// ─── Main ───
+
+async function main() {
+  const mockUrl = process.env.GRAPH_MOCK_URL;
+
+  console.log('Intune Settings Catalog Fetcher');
+  console.log('================================');
+  console.log(mockUrl ? `Mock Graph: ${mockUrl}` : `Tenant: ${process.env.AZURE_TENANT_ID}`);
+  console.log();
+
+  const client = mockUrl ? createHttpGraphClient(mockUrl) : createGraphClient();
+  const maxAttempts = parseInt(process.env.FETCH_MAX_ATTEMPTS || '', 10);
+  try {
+    await fetchCatalog(client, { retry: Number.isFinite(maxAttempts) ? { maxAttempts } : undefined });
+  } catch (err: unknown) {
+    if (!(err instanceof FetchAbortedError)) throw err;
+    console.error();
+    console.error('Fetch aborted — settings.json and categories.json were NOT modified.');
+    console.error(`  Collection:  ${err.collection}`);
+    console.error(`  Saved:       ${err.pagesSaved} pages, ${err.itemsSaved} items in ${err.checkpointDir}`);
+    console.error(`  Last error:  ${describeError(err.lastError)}`);
+    console.error('Re-run fetch-settings to resume from the last @odata.nextLink.');
+    process.exit(1);
+  }
+
   console.log();
   console.log('Done! Data saved to:');
-  console.log(`  Categories: ${CATEGORIES_FILE}`);
-  console.log(`  Settings:   ${SETTINGS_FILE}`);
+  console.log(`  Categories: ${path.join(DATA_DIR, 'categories.json')}`);
+  console.log(`  Settings:   ${path.join(DATA_DIR, 'settings.json')}`);
+  console.log(`  Templates:  ${path.join(DATA_DIR, 'templates.json')}`);
   console.log();
   console.log('Next: run "npm run generate-changelog" and then "npm run build-search-index"');
 }
 
-main().catch((err) => {
-  console.error('Fatal error:', err);
-  process.exit(1);
-});
+// Only run when executed directly, not when imported by verify-fetch-settings.ts
+if (require.main === module) {
+  main().catch((err) => {
+    console.error('Fatal error:', err);
+    process.exit(1);
+  });
+}
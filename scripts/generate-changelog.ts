@@ -2,8 +2,10 @@
  * generate-changelog.ts
  *
  * Compares data/settings.json (current) against data/settings-previous.json (last run)
- * to detect additions, removals, and changes. Appends results to data/changelog.json.
- * Then copies settings.json → settings-previous.json for next run.
+ * to detect additions, removals, and changes. Appends results to data/changelog.json
+ * and records how to undo the refresh in data/archive/<date>.json.gz (see
+ * src/lib/snapshot-archive.ts). Then copies settings.json → settings-previous.json
+ * for next run.
  *
  * Usage:
  *   npx tsx scripts/generate-changelog.ts
@@ -12,7 +14,16 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as crypto from 'crypto';
-import type { SettingDefinition, SettingCategory, ChangelogEntry, ChangelogSettingRef, ChangelogChange, ChangelogCategoryRef, ChangelogCategoryChange } from '../src/lib/types';
+import * as zlib from 'zlib';
+import type {
+  SettingDefinition, SettingCategory, ChoiceOption, ChangelogEntry, ChangelogSettingRef, ChangelogChange,
+  ChangelogFieldChange, ChangelogOptionChange, ChangelogRename, ChangelogCategoryRef, ChangelogCategoryChange,
+  SettingUsage,
+} from '../src/lib/types';
+import { getSettingUsages } from '../src/lib/types';
+import { toBrowseSetting } from '../src/lib/browse-data';
+import { applyArchiveChanges, diffForArchive, toArchiveCategory } from '../src/lib/snapshot-archive';
+import type { ArchiveDelta } from '../src/lib/snapshot-archive';
 
 const DATA_DIR = path.resolve(__dirname, '..', 'data');
 const SETTINGS_FILE = path.join(DATA_DIR, 'settings.json');
@@ -20,6 +31,42 @@ const PREVIOUS_FILE = path.join(DATA_DIR, 'settings-previous.json');
 const CATEGORIES_FILE = path.join(DATA_DIR, 'categories.json');
 const CATEGORIES_PREVIOUS_FILE = path.join(DATA_DIR, 'categories-previous.json');
 const CHANGELOG_FILE = path.join(DATA_DIR, 'changelog.json');
+const ARCHIVE_DIR = path.join(DATA_DIR, 'archive');
+
+/** Catalogs fetched alongside the configuration catalog (CATALOGS in fetch-settings.ts) */
+const ADDED_CATALOGS: SettingUsage[] = ['compliance', 'inventory'];
+
+/**
+ * One-time baseline for catalogs the previous snapshot predates. A catalog
+ * with items today but none in the snapshot was not ingested yet: its items
+ * are copied into the snapshot, and its usage flag onto configuration items
+ * that also belong to it, so the first refresh after ingestion logs neither
+ * the whole catalog as added nor the flags as changes. Updates `previous` in
+ * place and returns the catalogs baselined.
+ */
+function baselineNewCatalogs<T extends { id: string; settingUsage?: string }>(previous: T[], current: T[]): SettingUsage[] {
+  const catalogs = ADDED_CATALOGS.filter((u) =>
+    !previous.some((p) => getSettingUsages(p.settingUsage).includes(u)) &&
+    current.some((c) => getSettingUsages(c.settingUsage).includes(u)));
+  if (catalogs.length === 0) return catalogs;
+
+  const prevById = new Map(previous.map((p) => [p.id, p]));
+  for (const c of current) {
+    const usages = getSettingUsages(c.settingUsage);
+    if (!usages.some((u) => catalogs.includes(u))) continue;
+    const prev = prevById.get(c.id);
+    if (!prev) {
+      // New configuration settings are still reported as added
+      if (usages.every((u) => catalogs.includes(u))) previous.push(c);
+      continue;
+    }
+    // Only take the flags over when they are the sole usage difference
+    const prevUsages = getSettingUsages(prev.settingUsage);
+    const expected = new Set([...prevUsages, ...usages.filter((u) => catalogs.includes(u))]);
+    if (expected.size === usages.length && usages.every((u) => expected.has(u))) prev.settingUsage = c.settingUsage;
+  }
+  return catalogs;
+}
 
 /** Hash a setting for quick change detection */
 function hashSetting(s: SettingDefinition): string {
@@ -31,8 +78,16 @@ function hashSetting(s: SettingDefinition): string {
     baseUri: s.baseUri,
     offsetUri: s.offsetUri,
     options: s.options,
+    defaultOptionId: s.defaultOptionId,
     valueDefinition: s.valueDefinition,
+    defaultValue: s.defaultValue,
     applicability: s.applicability,
+    keywords: s.keywords,
+    infoUrls: s.infoUrls,
+    dependentOn: s.dependentOn,
+    dependedOnBy: s.dependedOnBy,
+    occurrence: s.occurrence,
+    settingUsage: s.settingUsage,
   };
   return crypto.createHash('md5').update(JSON.stringify(relevant)).digest('hex');
 }
@@ -54,12 +109,12 @@ function hashCategory(c: SettingCategory): string {
 function diffCategoryFields(
   oldC: SettingCategory,
   newC: SettingCategory,
-): Array<{ field: string; oldValue: string; newValue: string }> {
+): ChangelogFieldChange[] {
   const fields: Array<keyof SettingCategory> = [
     'displayName', 'description', 'platforms', 'technologies',
     'parentCategoryId', 'settingUsage',
   ];
-  const diffs: Array<{ field: string; oldValue: string; newValue: string }> = [];
+  const diffs: ChangelogFieldChange[] = [];
   for (const f of fields) {
     const oldVal = JSON.stringify(oldC[f] ?? '');
     const newVal = JSON.stringify(newC[f] ?? '');
@@ -70,13 +125,90 @@ function diffCategoryFields(
   return diffs;
 }
 
-/** Identify which fields changed between two settings */
-function diffFields(oldS: SettingDefinition, newS: SettingDefinition): Array<{ field: string; oldValue: string; newValue: string }> {
+/** Option properties compared per itemId */
+const OPTION_FIELDS: Array<keyof ChoiceOption> = ['displayName', 'description', 'helpText', 'name'];
+
+/** Diff two option lists by itemId: added, removed, and per-option property changes */
+function diffOptions(oldOpts: ChoiceOption[], newOpts: ChoiceOption[]): ChangelogOptionChange[] {
+  const oldMap = new Map(oldOpts.map((o) => [o.itemId, o]));
+  const newMap = new Map(newOpts.map((o) => [o.itemId, o]));
+  const changes: ChangelogOptionChange[] = [];
+
+  for (const o of oldOpts) {
+    if (!newMap.has(o.itemId)) changes.push({ itemId: o.itemId, kind: 'removed', displayName: o.displayName });
+  }
+  for (const o of newOpts) {
+    const prev = oldMap.get(o.itemId);
+    if (!prev) {
+      changes.push({ itemId: o.itemId, kind: 'added', displayName: o.displayName });
+      continue;
+    }
+    const fields: NonNullable<ChangelogOptionChange['fields']> = OPTION_FIELDS
+      .filter((f) => JSON.stringify(prev[f] ?? '') !== JSON.stringify(o[f] ?? ''))
+      .map((f) => ({ field: f, oldValue: String(prev[f] ?? ''), newValue: String(o[f] ?? '') }));
+    // Settings this option depends on, compared as a set of IDs. Settings the
+    // option enables (dependedOnBy) are summarised with the setting's own
+    // dependedOnBy field instead, so they are not reported twice.
+    const oldDeps = (prev.dependentOn ?? []).map((d) => d.dependentOn);
+    const newDeps = (o.dependentOn ?? []).map((d) => d.dependentOn);
+    if (diffList(oldDeps, newDeps)) {
+      fields.push({ field: 'dependentOn', oldValue: oldDeps.join(', ') || '(none)', newValue: newDeps.join(', ') || '(none)' });
+    }
+    if (fields.length > 0) changes.push({ itemId: o.itemId, kind: 'changed', displayName: o.displayName, fields });
+  }
+  return changes;
+}
+
+/** Label an option as "Display name (itemId)" */
+function optionLabel(s: SettingDefinition, itemId?: string): string {
+  if (!itemId) return '';
+  const option = s.options?.find((o) => o.itemId === itemId);
+  return option ? `${option.displayName} (${itemId})` : itemId;
+}
+
+/** Render a scalar (or { value } wrapper, as used by defaultValue) for display */
+function displayScalar(v: unknown): string {
+  if (v === undefined || v === null || v === '') return '(none)';
+  if (typeof v === 'object' && 'value' in (v as object)) return displayScalar((v as { value: unknown }).value);
+  return typeof v === 'object' ? JSON.stringify(v) : String(v);
+}
+
+/** Items added to / removed from a list, or null when both hold the same items */
+function diffList(oldList: string[], newList: string[]): { added: string[]; removed: string[] } | null {
+  const oldSet = new Set(oldList);
+  const newSet = new Set(newList);
+  const added = newList.filter((x) => !oldSet.has(x));
+  const removed = oldList.filter((x) => !newSet.has(x));
+  return added.length || removed.length ? { added, removed } : null;
+}
+
+/** Per-property valueDefinition changes, e.g. "maximumValue 100 → 50" */
+function diffValueDefinition(oldS: SettingDefinition, newS: SettingDefinition): ChangelogFieldChange[] {
+  const oldVd = (oldS.valueDefinition ?? {}) as Record<string, unknown>;
+  const newVd = (newS.valueDefinition ?? {}) as Record<string, unknown>;
+  const keys = [...new Set([...Object.keys(oldVd), ...Object.keys(newVd)])];
+  return keys
+    .filter((k) => JSON.stringify(oldVd[k]) !== JSON.stringify(newVd[k]))
+    .map((k) => {
+      // "#microsoft.graph.deviceManagementConfigurationIntegerSettingValueDefinition" → "IntegerSettingValueDefinition"
+      const name = k === '@odata.type' ? 'type' : k;
+      const show = (v: unknown) => displayScalar(v).replace(/^#microsoft\.graph\.deviceManagementConfiguration/, '');
+      const oldValue = show(oldVd[k]);
+      const newValue = show(newVd[k]);
+      return { field: `valueDefinition.${name}`, oldValue, newValue, summary: `${name} ${oldValue} → ${newValue}` };
+    });
+}
+
+/**
+ * Identify which fields changed between two settings. `nameOf` resolves a
+ * setting or option ID to a display name for dependency summaries.
+ */
+function diffFields(oldS: SettingDefinition, newS: SettingDefinition, nameOf: (id: string) => string = (id) => id): ChangelogFieldChange[] {
   const fields: Array<keyof SettingDefinition> = [
     'displayName', 'description', 'helpText',
-    'categoryId', 'baseUri', 'offsetUri',
+    'categoryId', 'baseUri', 'offsetUri', 'settingUsage',
   ];
-  const diffs: Array<{ field: string; oldValue: string; newValue: string }> = [];
+  const diffs: ChangelogFieldChange[] = [];
 
   for (const f of fields) {
     const oldVal = JSON.stringify(oldS[f] ?? '');
@@ -86,15 +218,103 @@ function diffFields(oldS: SettingDefinition, newS: SettingDefinition): Array<{ f
     }
   }
 
-  // Check options changes (for choice settings)
+  // Check options changes (for choice settings), keyed by itemId
   if (JSON.stringify(oldS.options) !== JSON.stringify(newS.options)) {
+    const optionChanges = diffOptions(oldS.options || [], newS.options || []);
+    const count = (kind: ChangelogOptionChange['kind']) => optionChanges.filter((c) => c.kind === kind).length;
+    const summary = [
+      count('added') && `${count('added')} added`,
+      count('removed') && `${count('removed')} removed`,
+      count('changed') && `${count('changed')} changed`,
+    ].filter(Boolean).join(', ');
+    const itemOrder = (opts?: ChoiceOption[]) => (opts || []).map((o) => o.itemId).join('\n');
+    const reordered = !summary && itemOrder(oldS.options) !== itemOrder(newS.options);
+    // Properties not tracked per option (e.g. option metadata) change nothing worth reporting
+    if (summary || reordered) {
+      diffs.push({
+        field: 'options',
+        oldValue: `${(oldS.options || []).length} options`,
+        newValue: `${(newS.options || []).length} options (${summary || 'reordered'})`,
+        ...(optionChanges.length > 0 && { optionChanges }),
+      });
+    }
+  }
+
+  // Check default option changes
+  if ((oldS.defaultOptionId ?? '') !== (newS.defaultOptionId ?? '')) {
     diffs.push({
-      field: 'options',
-      oldValue: `${(oldS.options || []).length} options`,
-      newValue: `${(newS.options || []).length} options`,
+      field: 'defaultOptionId',
+      oldValue: JSON.stringify(optionLabel(oldS, oldS.defaultOptionId)),
+      newValue: JSON.stringify(optionLabel(newS, newS.defaultOptionId)),
     });
   }
 
+  // Check value constraints and defaults (simple settings)
+  diffs.push(...diffValueDefinition(oldS, newS));
+  if (JSON.stringify(oldS.defaultValue ?? null) !== JSON.stringify(newS.defaultValue ?? null)) {
+    const oldValue = displayScalar(oldS.defaultValue);
+    const newValue = displayScalar(newS.defaultValue);
+    diffs.push({ field: 'defaultValue', oldValue, newValue, summary: `default ${oldValue} → ${newValue}` });
+  }
+
+  // A dependency on a parent option reads "Parent = Option"
+  const dependencyLabel = (d: { dependentOn: string; parentSettingId: string }) =>
+    !d.parentSettingId || d.dependentOn === d.parentSettingId
+      ? nameOf(d.dependentOn)
+      : `${nameOf(d.parentSettingId)} = ${nameOf(d.dependentOn)}`;
+
+  // A dependent reads "Child", "Child (optional)" when it doesn't require this
+  // setting, and "Child (when Option)" when one of this setting's options enables it
+  const dependentLabel = (d: { dependedOnBy: string; required: boolean }, gate?: string) => {
+    const notes = [gate && `when ${gate}`, !d.required && 'optional'].filter(Boolean).join(', ');
+    return notes ? `${nameOf(d.dependedOnBy)} (${notes})` : nameOf(d.dependedOnBy);
+  };
+  const dependents = (s: SettingDefinition) => [
+    ...(s.dependedOnBy ?? []).map((d) => dependentLabel(d)),
+    ...(s.options ?? []).flatMap((o) => (o.dependedOnBy ?? []).map((d) => dependentLabel(d, o.displayName))),
+  ];
+
+  // Check list fields — compared as sets, summarised as additions / removals
+  const listChanges: Array<{ field: string; oldList: string[]; newList: string[]; added: string; removed: string }> = [
+    { field: 'keywords', oldList: oldS.keywords ?? [], newList: newS.keywords ?? [], added: 'added keyword', removed: 'removed keyword' },
+    { field: 'infoUrls', oldList: oldS.infoUrls ?? [], newList: newS.infoUrls ?? [], added: 'added link', removed: 'removed link' },
+    {
+      field: 'dependentOn',
+      oldList: (oldS.dependentOn ?? []).map(dependencyLabel),
+      newList: (newS.dependentOn ?? []).map(dependencyLabel),
+      added: 'now depends on',
+      removed: 'no longer depends on',
+    },
+    {
+      field: 'dependedOnBy',
+      oldList: dependents(oldS),
+      newList: dependents(newS),
+      added: 'now a prerequisite for',
+      removed: 'no longer a prerequisite for',
+    },
+  ];
+  for (const { field, oldList, newList, added, removed } of listChanges) {
+    const d = diffList(oldList, newList);
+    if (!d) continue;
+    const summary = [
+      d.added.length > 0 && `${added} ${d.added.join(', ')}`,
+      d.removed.length > 0 && `${removed} ${d.removed.join(', ')}`,
+    ].filter(Boolean).join('; ');
+    diffs.push({
+      field,
+      oldValue: oldList.join(', ') || '(none)',
+      newValue: newList.join(', ') || '(none)',
+      summary,
+    });
+  }
+
+  // Check occurrence (min / max instances per device)
+  if (JSON.stringify(oldS.occurrence ?? null) !== JSON.stringify(newS.occurrence ?? null)) {
+    const fmt = (o?: SettingDefinition['occurrence']) =>
+      o ? `min ${o.minDeviceOccurrence}, max ${o.maxDeviceOccurrence}` : '(none)';
+    diffs.push({ field: 'occurrence', oldValue: fmt(oldS.occurrence), newValue: fmt(newS.occurrence) });
+  }
+
   // Check applicability (OS/platform) changes
   if (JSON.stringify(oldS.applicability) !== JSON.stringify(newS.applicability)) {
     diffs.push({
@@ -107,6 +327,147 @@ function diffFields(oldS: SettingDefinition, newS: SettingDefinition): Array<{ f
   return diffs;
 }
 
+// ── Rename / supersede detection ──────────────────────────────
+
+/** Minimum confidence for a removed + added pair to be reported as a rename */
+const RENAME_THRESHOLD = 0.5;
+
+/**
+ * Strip version tokens so re-IDed settings compare equal, e.g.
+ * `microsoft_edgev145~policy~…` and `microsoft_edgev146~policy~…`.
+ */
+function normalizeId(id: string): string {
+  return id.toLowerCase().replace(/([a-z])v\d+(?=[~_]|$)/g, '$1');
+}
+
+/** CSP path (baseUri/offsetUri) with version tokens stripped */
+function normalizeCsp(s: SettingDefinition): string {
+  const csp = [s.baseUri, s.offsetUri].filter(Boolean).join('/');
+  return csp ? normalizeId(csp) : '';
+}
+
+/** Sørensen–Dice coefficient over character bigrams (0–1) */
+function nameSimilarity(a: string, b: string): number {
+  const x = a.toLowerCase().trim();
+  const y = b.toLowerCase().trim();
+  if (x === y) return 1;
+  if (x.length < 2 || y.length < 2) return 0;
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < x.length - 1; i++) {
+    const bg = x.slice(i, i + 2);
+    bigrams.set(bg, (bigrams.get(bg) ?? 0) + 1);
+  }
+  let overlap = 0;
+  for (let i = 0; i < y.length - 1; i++) {
+    const bg = y.slice(i, i + 2);
+    const n = bigrams.get(bg) ?? 0;
+    if (n > 0) {
+      bigrams.set(bg, n - 1);
+      overlap++;
+    }
+  }
+  return (2 * overlap) / (x.length + y.length - 2);
+}
+
+/**
+ * Pair removed settings with added ones that look like the same setting
+ * under a new ID. Candidates share a normalised ID or CSP path (and the
+ * platform); each is scored on ID (0.5), CSP path (0.3) and display-name
+ * similarity (0.2), then pairs are taken greedily, best first.
+ */
+function matchRenames(
+  removedDefs: SettingDefinition[],
+  addedDefs: SettingDefinition[],
+): Array<{ oldS: SettingDefinition; newS: SettingDefinition; score: number; matchedOn: ChangelogRename['matchedOn'] }> {
+  const byKey = new Map<string, SettingDefinition[]>();
+  const index = (key: string, s: SettingDefinition) => {
+    if (!key) return;
+    const list = byKey.get(key) ?? [];
+    list.push(s);
+    byKey.set(key, list);
+  };
+  for (const s of addedDefs) {
+    index(`id:${normalizeId(s.id)}`, s);
+    index(`csp:${normalizeCsp(s)}`, s);
+  }
+
+  const candidates: Array<{ oldS: SettingDefinition; newS: SettingDefinition; score: number; matchedOn: ChangelogRename['matchedOn'] }> = [];
+  for (const oldS of removedDefs) {
+    const cspKey = normalizeCsp(oldS);
+    const pool = new Set([
+      ...(byKey.get(`id:${normalizeId(oldS.id)}`) ?? []),
+      ...(cspKey ? byKey.get(`csp:${cspKey}`) ?? [] : []),
+    ]);
+    for (const newS of pool) {
+      if ((oldS.applicability?.platform ?? '') !== (newS.applicability?.platform ?? '')) continue;
+      const matchedOn: ChangelogRename['matchedOn'] = [];
+      let score = 0;
+      if (normalizeId(oldS.id) === normalizeId(newS.id)) {
+        score += 0.5;
+        matchedOn.push('id');
+      }
+      if (cspKey && cspKey === normalizeCsp(newS)) {
+        score += 0.3;
+        matchedOn.push('cspPath');
+      }
+      const similarity = nameSimilarity(oldS.displayName || '', newS.displayName || '');
+      score += 0.2 * similarity;
+      if (similarity >= 0.8) matchedOn.push('displayName');
+      if (score >= RENAME_THRESHOLD) candidates.push({ oldS, newS, score: Math.round(score * 100) / 100, matchedOn });
+    }
+  }
+
+  candidates.sort((a, b) => b.score - a.score);
+  const usedOld = new Set<string>();
+  const usedNew = new Set<string>();
+  return candidates.filter(({ oldS, newS }) => {
+    if (usedOld.has(oldS.id) || usedNew.has(newS.id)) return false;
+    usedOld.add(oldS.id);
+    usedNew.add(newS.id);
+    return true;
+  });
+}
+
+// ── Snapshot archive ──────────────────────────────────────────
+
+/**
+ * Write the reverse delta for `date` and return how many items it restores or
+ * drops. A second run on the same day folds the earlier delta in, so the file
+ * always leads back to the state before that day's first refresh.
+ */
+function writeArchiveDelta(
+  date: string,
+  current: SettingDefinition[],
+  previous: SettingDefinition[],
+  categories: SettingCategory[],
+  previousCategories: SettingCategory[],
+): number {
+  const file = path.join(ARCHIVE_DIR, `${date}.json.gz`);
+  const settingById = new Map(previous.map((s) => [s.id, toBrowseSetting(s)]));
+  const categoryById = new Map(previousCategories.map((c) => [c.id, toArchiveCategory(c)]));
+  if (fs.existsSync(file)) {
+    const earlier: ArchiveDelta = JSON.parse(zlib.gunzipSync(fs.readFileSync(file)).toString('utf-8'));
+    applyArchiveChanges(settingById, earlier.settings);
+    applyArchiveChanges(categoryById, earlier.categories);
+  }
+
+  const delta: ArchiveDelta = {
+    date,
+    settings: diffForArchive(current.map(toBrowseSetting), [...settingById.values()]),
+    categories: diffForArchive(categories.map(toArchiveCategory), [...categoryById.values()]),
+  };
+  const size =
+    delta.settings.restore.length + delta.settings.drop.length +
+    delta.categories.restore.length + delta.categories.drop.length;
+  if (size === 0) {
+    fs.rmSync(file, { force: true });
+    return 0;
+  }
+  fs.mkdirSync(ARCHIVE_DIR, { recursive: true });
+  fs.writeFileSync(file, zlib.gzipSync(JSON.stringify(delta)));
+  return size;
+}
+
 function main() {
   console.log('Changelog Generator');
   console.log('====================');
@@ -147,6 +508,10 @@ function main() {
 
   const previous: SettingDefinition[] = JSON.parse(fs.readFileSync(PREVIOUS_FILE, 'utf-8'));
   console.log(`Previous settings: ${previous.length}`);
+  const baselinedCatalogs = baselineNewCatalogs(previous, current);
+  if (baselinedCatalogs.length > 0) {
+    console.log(`First run with the ${baselinedCatalogs.join(' and ')} catalog${baselinedCatalogs.length > 1 ? 's' : ''} — baselined (not logged to changelog).`);
+  }
 
   // Build lookup maps
   const prevMap = new Map<string, SettingDefinition>();
@@ -163,8 +528,14 @@ function main() {
     currHashMap.set(s.id, hashSetting(s));
   }
 
+  const optionNames = new Map<string, string>();
+  for (const s of [...previous, ...current]) {
+    for (const o of s.options ?? []) optionNames.set(o.itemId, o.displayName);
+  }
+  const nameOf = (id: string) => (currMap.get(id) ?? prevMap.get(id))?.displayName || optionNames.get(id) || id;
+
   // Detect additions
-  const added: ChangelogSettingRef[] = [];
+  let added: ChangelogSettingRef[] = [];
   for (const s of current) {
     if (!prevMap.has(s.id)) {
       added.push({
@@ -178,7 +549,7 @@ function main() {
   }
 
   // Detect removals
-  const removed: ChangelogSettingRef[] = [];
+  let removed: ChangelogSettingRef[] = [];
   for (const s of previous) {
     if (!currMap.has(s.id)) {
       removed.push({
@@ -191,11 +562,35 @@ function main() {
     }
   }
 
+  // Pair removals with additions that are the same setting under a new ID
+  const renamed: ChangelogRename[] = matchRenames(
+    removed.map((r) => prevMap.get(r.id)!),
+    added.map((a) => currMap.get(a.id)!),
+  ).map(({ oldS, newS, score, matchedOn }) => ({
+    oldId: oldS.id,
+    id: newS.id,
+    oldDisplayName: oldS.displayName,
+    displayName: newS.displayName,
+    categoryId: newS.categoryId,
+    categoryName: categoryMap.get(newS.categoryId),
+    platform: newS.applicability?.platform ?? undefined,
+    kind: matchedOn.includes('id') ? 'renamed' : 'superseded',
+    confidence: score,
+    matchedOn,
+    fields: diffFields(oldS, newS, nameOf),
+  }));
+  if (renamed.length > 0) {
+    const renamedOld = new Set(renamed.map((r) => r.oldId));
+    const renamedNew = new Set(renamed.map((r) => r.id));
+    removed = removed.filter((r) => !renamedOld.has(r.id));
+    added = added.filter((a) => !renamedNew.has(a.id));
+  }
+
   // Detect changes
   const changed: ChangelogChange[] = [];
   for (const s of current) {
     if (prevMap.has(s.id) && prevHashMap.get(s.id) !== currHashMap.get(s.id)) {
-      const fields = diffFields(prevMap.get(s.id)!, s);
+      const fields = diffFields(prevMap.get(s.id)!, s, nameOf);
       if (fields.length > 0) {
         changed.push({
           id: s.id,
@@ -217,6 +612,7 @@ function main() {
   const previousCategories: SettingCategory[] = hasCategoryBaseline
     ? JSON.parse(fs.readFileSync(CATEGORIES_PREVIOUS_FILE, 'utf-8'))
     : [];
+  if (hasCategoryBaseline) baselineNewCatalogs(previousCategories, categories);
 
   let categoriesAdded: ChangelogCategoryRef[] = [];
   let categoriesRemoved: ChangelogCategoryRef[] = [];
@@ -260,22 +656,26 @@ function main() {
   console.log(`  Added:   ${added.length}`);
   console.log(`  Removed: ${removed.length}`);
   console.log(`  Changed: ${changed.length}`);
+  console.log(`  Renamed: ${renamed.length}`);
   console.log(`  Categories added:   ${categoriesAdded.length}`);
   console.log(`  Categories removed: ${categoriesRemoved.length}`);
   console.log(`  Categories changed: ${categoriesChanged.length}`);
 
+  const date = new Date().toISOString().split('T')[0];
+
   // Only create entry if there are actual changes
   if (
-    added.length === 0 && removed.length === 0 && changed.length === 0 &&
+    added.length === 0 && removed.length === 0 && changed.length === 0 && renamed.length === 0 &&
     categoriesAdded.length === 0 && categoriesRemoved.length === 0 && categoriesChanged.length === 0
   ) {
     console.log('No changes detected. Changelog not updated.');
   } else {
     const entry: ChangelogEntry = {
-      date: new Date().toISOString().split('T')[0],
+      date,
       added,
       removed,
       changed,
+      ...(renamed.length > 0 && { renamed }),
       ...(categoriesAdded.length > 0 && { categoriesAdded }),
       ...(categoriesRemoved.length > 0 && { categoriesRemoved }),
       ...(categoriesChanged.length > 0 && { categoriesChanged }),
@@ -294,6 +694,15 @@ function main() {
     console.log(`Changelog updated: ${CHANGELOG_FILE}`);
   }
 
+  // Archive how to get back to the previous snapshot. Without a category
+  // baseline the categories are taken as unchanged.
+  const archived = writeArchiveDelta(
+    date, current, previous, categories, hasCategoryBaseline ? previousCategories : categories,
+  );
+  console.log(archived > 0
+    ? `Archive delta: ${archived} items → ${path.join(ARCHIVE_DIR, `${date}.json.gz`)}`
+    : 'Archive delta: nothing to record.');
+
   // Copy current → previous for next run
   fs.copyFileSync(SETTINGS_FILE, PREVIOUS_FILE);
   if (fs.existsSync(CATEGORIES_FILE)) {
@@ -0,0 +1,238 @@
+/**
+ * generate-feeds.ts
+ *
+ * Reads data/changelog.json and writes subscription feeds — one item per
+ * dated changelog entry:
+ * 1. public/changelog.xml  (Atom 1.0)
+ * 2. public/changelog.json (JSON Feed 1.1)
+ * 3. public/feeds/<platform>.xml / .json — the same, limited to one platform
+ *
+ * The baseline entry (the initial bulk import) is skipped.
+ *
+ * Usage:
+ *   npx tsx scripts/generate-feeds.ts
+ *
+ * Set SITE_URL to override the absolute URL used in links (default:
+ * https://intunesettings.app).
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ChangelogEntry, ChangelogFieldChange, ChangelogSettingRef } from '../src/lib/types';
+import { settingSlug } from '../src/lib/slug';
+import { BASELINE_DATE } from '../src/lib/data';
+
+const DATA_DIR = path.resolve(__dirname, '..', 'data');
+const PUBLIC_DIR = path.resolve(__dirname, '..', 'public');
+const FEEDS_DIR = path.join(PUBLIC_DIR, 'feeds');
+const CHANGELOG_FILE = path.join(DATA_DIR, 'changelog.json');
+
+const SITE_URL = (process.env.SITE_URL || 'https://intunesettings.app').replace(/\/+$/, '');
+const SITE_TITLE = 'Intune Settings Catalog';
+/** Most recent entries kept in each feed */
+const MAX_ITEMS = 50;
+
+/** Feed key → label and the raw platform values it covers (matches PlatformFilter) */
+const PLATFORM_FEEDS: Record<string, { label: string; match: (p: string) => boolean }> = {
+  windows: { label: 'Windows', match: (p) => p.startsWith('windows') },
+  macos: { label: 'macOS', match: (p) => p === 'macOS' },
+  ios: { label: 'iOS/iPadOS', match: (p) => p === 'iOS' },
+  android: { label: 'Android', match: (p) => p.startsWith('android') || p === 'aosp' },
+  linux: { label: 'Linux', match: (p) => p === 'linux' },
+};
+
+interface FeedItem {
+  date: string;
+  title: string;
+  url: string;
+  html: string;
+  text: string;
+  tags: string[];
+}
+
+// ─── Helpers ───
+
+function escapeXml(s: string): string {
+  return s
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function settingUrl(id: string): string {
+  return `${SITE_URL}/setting/${encodeURIComponent(settingSlug(id))}/`;
+}
+
+function plural(n: number, word: string): string {
+  return `${n} ${word}${n === 1 ? '' : 's'}`;
+}
+
+/** Restrict an entry to settings whose platform matches the filter */
+function filterEntry(entry: ChangelogEntry, match: (p: string) => boolean): ChangelogEntry {
+  const keep = (s: { platform?: string }) =>
+    !!s.platform && s.platform.split(',').some((p) => match(p.trim()));
+  return {
+    date: entry.date,
+    added: entry.added.filter(keep),
+    removed: entry.removed.filter(keep),
+    changed: entry.changed.filter(keep),
+    renamed: entry.renamed?.filter(keep),
+  };
+}
+
+// ─── Item rendering ───
+
+function settingListHtml(heading: string, refs: ChangelogSettingRef[], link: boolean, detail?: (r: ChangelogSettingRef) => string): string {
+  if (refs.length === 0) return '';
+  const items = refs.map((r) => {
+    const name = escapeXml(r.displayName || r.id);
+    const label = link ? `<a href="${escapeXml(settingUrl(r.id))}">${name}</a>` : name;
+    const category = r.categoryName ? ` <small>(${escapeXml(r.categoryName)})</small>` : '';
+    return `<li>${label}${category}${detail ? detail(r) : ''}</li>`;
+  });
+  return `<h3>${escapeXml(heading)}</h3><ul>${items.join('')}</ul>`;
+}
+
+/** Changed field names, with the readable summary where the generator wrote one */
+function describeFields(fields: ChangelogFieldChange[]): string {
+  return fields.map((f) => (f.summary ? `${f.field} (${f.summary})` : f.field)).join(', ');
+}
+
+function buildItem(entry: ChangelogEntry): FeedItem {
+  const { added, removed, changed } = entry;
+  const renamed = entry.renamed ?? [];
+  const counts = [
+    added.length && `${added.length} added`,
+    removed.length && `${removed.length} removed`,
+    changed.length && `${changed.length} changed`,
+    renamed.length && `${renamed.length} renamed`,
+  ].filter(Boolean).join(', ');
+
+  const fieldsById = new Map(changed.map((c) => [c.id, describeFields(c.fields)]));
+  const oldIdById = new Map(renamed.map((r) => [r.id, r.oldId]));
+  const html = [
+    settingListHtml(`Added (${added.length})`, added, true),
+    // Removed settings no longer have a page to link to
+    settingListHtml(`Removed (${removed.length})`, removed, false),
+    settingListHtml(`Changed (${changed.length})`, changed, true, (r) => ` — ${escapeXml(fieldsById.get(r.id) ?? '')}`),
+    settingListHtml(`Renamed (${renamed.length})`, renamed, true, (r) => ` — was <code>${escapeXml(oldIdById.get(r.id) ?? '')}</code>`),
+  ].join('');
+
+  const text = [
+    ...added.map((s) => `+ ${s.displayName} (${settingUrl(s.id)})`),
+    ...removed.map((s) => `- ${s.displayName}`),
+    ...changed.map((s) => `~ ${s.displayName}: ${describeFields(s.fields)} (${settingUrl(s.id)})`),
+    ...renamed.map((s) => `> ${s.displayName}: ${s.oldId} → ${s.id} (${settingUrl(s.id)})`),
+  ].join('\n');
+
+  const platforms = new Set<string>();
+  for (const s of [...added, ...removed, ...changed, ...renamed]) {
+    for (const p of (s.platform || '').split(',')) {
+      for (const [key, { match }] of Object.entries(PLATFORM_FEEDS)) {
+        if (match(p.trim())) platforms.add(key);
+      }
+    }
+  }
+
+  return {
+    date: entry.date,
+    title: `${SITE_TITLE} changes on ${entry.date}: ${counts}`,
+    url: `${SITE_URL}/changelog/#${entry.date}`,
+    html,
+    text,
+    tags: [...platforms].sort(),
+  };
+}
+
+// ─── Feed formats ───
+
+function atomFeed(title: string, feedUrl: string, items: FeedItem[]): string {
+  const updated = items[0] ? `${items[0].date}T00:00:00Z` : new Date().toISOString();
+  const entries = items.map((item) => [
+    '  <entry>',
+    `    <id>${escapeXml(item.url)}</id>`,
+    `    <title>${escapeXml(item.title)}</title>`,
+    `    <link rel="alternate" type="text/html" href="${escapeXml(item.url)}"/>`,
+    `    <updated>${item.date}T00:00:00Z</updated>`,
+    `    <published>${item.date}T00:00:00Z</published>`,
+    ...item.tags.map((t) => `    <category term="${t}"/>`),
+    `    <content type="html">${escapeXml(item.html)}</content>`,
+    '  </entry>',
+  ].join('\n'));
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <id>${escapeXml(feedUrl)}</id>
+  <title>${escapeXml(title)}</title>
+  <subtitle>Additions, removals and changes to Microsoft Intune Settings Catalog definitions</subtitle>
+  <link rel="self" type="application/atom+xml" href="${escapeXml(feedUrl)}"/>
+  <link rel="alternate" type="text/html" href="${SITE_URL}/changelog/"/>
+  <updated>${updated}</updated>
+  <author><name>${escapeXml(SITE_TITLE)} Viewer</name></author>
+${entries.join('\n')}
+</feed>
+`;
+}
+
+function jsonFeed(title: string, feedUrl: string, items: FeedItem[]): string {
+  return JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title,
+    home_page_url: `${SITE_URL}/changelog/`,
+    feed_url: feedUrl,
+    description: 'Additions, removals and changes to Microsoft Intune Settings Catalog definitions',
+    language: 'en',
+    items: items.map((item) => ({
+      id: item.url,
+      url: item.url,
+      title: item.title,
+      content_html: item.html,
+      content_text: item.text,
+      date_published: `${item.date}T00:00:00Z`,
+      tags: item.tags,
+    })),
+  }, null, 2);
+}
+
+function writeFeeds(dir: string, name: string, title: string, entries: ChangelogEntry[]): number {
+  const items = entries
+    .filter((e) => e.added.length + e.removed.length + e.changed.length + (e.renamed?.length ?? 0) > 0)
+    .slice(0, MAX_ITEMS)
+    .map(buildItem);
+  const urlPath = path.relative(PUBLIC_DIR, dir).split(path.sep).filter(Boolean).join('/');
+  const base = `${SITE_URL}/${urlPath ? `${urlPath}/` : ''}${name}`;
+  fs.writeFileSync(path.join(dir, `${name}.xml`), atomFeed(title, `${base}.xml`, items), 'utf-8');
+  fs.writeFileSync(path.join(dir, `${name}.json`), jsonFeed(title, `${base}.json`, items), 'utf-8');
+  return items.length;
+}
+
+// ─── Main ───
+
+function main() {
+  console.log('Changelog Feed Generator');
+  console.log('========================');
+
+  if (!fs.existsSync(CHANGELOG_FILE)) {
+    console.error('Error: data/changelog.json not found. Run generate-changelog first.');
+    process.exit(1);
+  }
+
+  const entries = (JSON.parse(fs.readFileSync(CHANGELOG_FILE, 'utf-8')) as ChangelogEntry[])
+    .filter((e) => e.date !== BASELINE_DATE)
+    .sort((a, b) => b.date.localeCompare(a.date));
+
+  fs.mkdirSync(FEEDS_DIR, { recursive: true });
+
+  const count = writeFeeds(PUBLIC_DIR, 'changelog', `${SITE_TITLE} changes`, entries);
+  console.log(`All platforms: ${plural(count, 'item')} → public/changelog.xml, public/changelog.json`);
+
+  for (const [key, { label, match }] of Object.entries(PLATFORM_FEEDS)) {
+    const n = writeFeeds(FEEDS_DIR, key, `${SITE_TITLE} changes — ${label}`, entries.map((e) => filterEntry(e, match)));
+    console.log(`${label}: ${plural(n, 'item')} → public/feeds/${key}.xml, public/feeds/${key}.json`);
+  }
+
+  console.log('\nDone!');
+}
+
+main();
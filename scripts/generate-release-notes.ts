@@ -0,0 +1,284 @@
+/**
+ * generate-release-notes.ts
+ *
+ * Turns one changelog entry (the newest by default) into Markdown release
+ * notes for admins, written to data/release-notes/<date>.md and rendered on
+ * /changelog/<date>/:
+ * 1. Highlights — new root categories, removed settings, and changes in
+ *    security-related root categories
+ * 2. Changes grouped by platform, then by root category (from
+ *    data/category-tree.json), then new / removed / changed / renamed
+ *
+ * A setting that applies to several platforms is listed under each of them.
+ * Version-only field changes are left out, as on the changelog page.
+ *
+ * Usage:
+ *   npx tsx scripts/generate-release-notes.ts              (newest entry)
+ *   npx tsx scripts/generate-release-notes.ts 2026-03-01   (a given date)
+ *
+ * Set SITE_URL to override the absolute URL used in links (default:
+ * https://intunesettings.app).
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type {
+  ChangelogEntry,
+  ChangelogFieldChange,
+  ChangelogSettingRef,
+  CategoryTreeNode,
+  SettingCategory,
+} from '../src/lib/types';
+import { settingSlug } from '../src/lib/slug';
+import { withoutVersionChanges } from '../src/lib/changelog-range';
+import { BASELINE_DATE } from '../src/lib/data';
+
+const DATA_DIR = path.resolve(__dirname, '..', 'data');
+const NOTES_DIR = path.join(DATA_DIR, 'release-notes');
+const CHANGELOG_FILE = path.join(DATA_DIR, 'changelog.json');
+const TREE_FILE = path.join(DATA_DIR, 'category-tree.json');
+const MERGE_MAP_FILE = path.join(DATA_DIR, 'category-merge-map.json');
+const CATEGORY_FILES = ['categories.json', 'categories-previous.json'].map((f) => path.join(DATA_DIR, f));
+
+const SITE_URL = (process.env.SITE_URL || 'https://intunesettings.app').replace(/\/+$/, '');
+/** Removed settings listed by name under Highlights */
+const MAX_HIGHLIGHTED_REMOVALS = 25;
+
+/** Root categories whose changes are called out as security-related */
+const SECURITY_PATTERN =
+  /defender|security|bitlocker|firewall|credential|encryption|password|antivirus|attack surface|exploit|smartscreen|device guard|app control|authentication|certificate|cryptograph|laps|vpn|kerberos/i;
+
+/** Platform group key → label and the raw platform values it covers (matches PlatformFilter) */
+const PLATFORM_GROUPS: Array<{ label: string; match: (p: string) => boolean }> = [
+  { label: 'Windows', match: (p) => p.startsWith('windows') },
+  { label: 'macOS', match: (p) => p === 'macOS' },
+  { label: 'iOS/iPadOS', match: (p) => p === 'iOS' },
+  { label: 'Android', match: (p) => p.startsWith('android') || p === 'aosp' },
+  { label: 'Linux', match: (p) => p === 'linux' },
+];
+const OTHER_PLATFORMS = 'Other platforms';
+
+type ChangeKind = 'new' | 'removed' | 'changed' | 'renamed';
+
+interface NoteItem {
+  kind: ChangeKind;
+  ref: ChangelogSettingRef;
+  detail?: string;
+}
+
+// ─── Helpers ───
+
+function readJson<T>(file: string): T | null {
+  return fs.existsSync(file) ? (JSON.parse(fs.readFileSync(file, 'utf-8').replace(/^\uFEFF/, '')) as T) : null;
+}
+
+function plural(n: number, word: string): string {
+  return `${n} ${word}${n === 1 ? '' : 's'}`;
+}
+
+/** Escape characters Markdown would otherwise interpret */
+function md(s: string): string {
+  return s.replace(/\r?\n/g, ' ').replace(/([\\`*_[\]<>])/g, '\\$1');
+}
+
+function settingLink(ref: ChangelogSettingRef, link: boolean): string {
+  const name = md(ref.displayName || ref.id);
+  return link ? `[${name}](${SITE_URL}/setting/${encodeURIComponent(settingSlug(ref.id))}/)` : name;
+}
+
+/** Changed field names, with the readable summary where the generator wrote one */
+function describeFields(fields: ChangelogFieldChange[]): string {
+  return fields.map((f) => (f.summary ? `${f.field} (${f.summary})` : f.field)).join(', ');
+}
+
+function platformGroups(platform?: string): string[] {
+  const groups = new Set<string>();
+  for (const p of (platform || '').split(',').map((x) => x.trim()).filter(Boolean)) {
+    groups.add(PLATFORM_GROUPS.find((g) => g.match(p))?.label ?? OTHER_PLATFORMS);
+  }
+  return groups.size > 0 ? [...groups] : [OTHER_PLATFORMS];
+}
+
+// ─── Root categories ───
+
+/**
+ * Resolves a setting's category ID to the display name of its root in
+ * category-tree.json. Merged duplicates go through the merge map; categories
+ * missing from the tree (e.g. removed ones) through their rootCategoryId.
+ */
+function createRootResolver() {
+  const tree = readJson<CategoryTreeNode[]>(TREE_FILE) ?? [];
+  const mergeMap = readJson<Record<string, string>>(MERGE_MAP_FILE) ?? {};
+  const rootNameById = new Map<string, string>();
+  const walk = (node: CategoryTreeNode, rootName: string) => {
+    rootNameById.set(node.id, rootName);
+    for (const child of node.children) walk(child, rootName);
+  };
+  for (const root of tree) walk(root, root.displayName);
+
+  const categories = new Map<string, SettingCategory>();
+  for (const file of CATEGORY_FILES) {
+    for (const c of readJson<SettingCategory[]>(file) ?? []) if (!categories.has(c.id)) categories.set(c.id, c);
+  }
+
+  const rootIds = new Set(tree.map((n) => n.id));
+  const rootName = (categoryId: string): string => {
+    const id = mergeMap[categoryId] ?? categoryId;
+    const name = rootNameById.get(id);
+    if (name) return name;
+    const category = categories.get(id);
+    if (category?.rootCategoryId && category.rootCategoryId !== id) return rootName(category.rootCategoryId);
+    return category?.displayName || 'Other';
+  };
+  const isRoot = (categoryId: string, parentCategoryId?: string) =>
+    rootIds.has(categoryId) || !parentCategoryId || parentCategoryId === categoryId;
+
+  return { rootName, isRoot, treeLoaded: tree.length > 0 };
+}
+
+// ─── Rendering ───
+
+const KIND_HEADINGS: Record<ChangeKind, string> = {
+  new: 'New',
+  removed: 'Removed',
+  changed: 'Changed',
+  renamed: 'Renamed / superseded',
+};
+
+function itemLine(item: NoteItem): string {
+  // Removed settings no longer have a page to link to
+  return `- ${settingLink(item.ref, item.kind !== 'removed')}${item.detail ? ` — ${md(item.detail)}` : ''}`;
+}
+
+function buildReleaseNotes(entry: ChangelogEntry): string {
+  const { rootName, isRoot, treeLoaded } = createRootResolver();
+  if (!treeLoaded) console.warn('  data/category-tree.json not found — run build-search-index first for root categories.');
+
+  const items: NoteItem[] = [
+    ...entry.added.map((ref): NoteItem => ({ kind: 'new', ref })),
+    ...entry.removed.map((ref): NoteItem => ({ kind: 'removed', ref })),
+    ...entry.changed.map((c): NoteItem => ({ kind: 'changed', ref: c, detail: describeFields(c.fields) })),
+    ...(entry.renamed ?? []).map((r): NoteItem => ({
+      kind: 'renamed',
+      ref: r,
+      detail: `${r.kind} — was ${r.oldDisplayName} (${r.oldId})`,
+    })),
+  ];
+
+  // platform → root category → kind → items
+  const groups = new Map<string, Map<string, Map<ChangeKind, NoteItem[]>>>();
+  for (const item of items) {
+    const root = rootName(item.ref.categoryId);
+    for (const platform of platformGroups(item.ref.platform)) {
+      const byRoot = groups.get(platform) ?? new Map<string, Map<ChangeKind, NoteItem[]>>();
+      const byKind = byRoot.get(root) ?? new Map<ChangeKind, NoteItem[]>();
+      byKind.set(item.kind, [...(byKind.get(item.kind) ?? []), item]);
+      byRoot.set(root, byKind);
+      groups.set(platform, byRoot);
+    }
+  }
+
+  const renamed = entry.renamed ?? [];
+  const lines: string[] = [
+    `# Intune Settings Catalog release notes — ${entry.date}`,
+    '',
+    `${plural(entry.added.length, 'new setting')}, ${plural(entry.removed.length, 'removed setting')}, ` +
+      `${plural(entry.changed.length, 'changed setting')} and ${plural(renamed.length, 'renamed setting')}.`,
+  ];
+
+  // ── Highlights ──
+  const highlights: string[] = [];
+  const newRoots = (entry.categoriesAdded ?? []).filter((c) => isRoot(c.id, c.parentCategoryId));
+  if (newRoots.length > 0) {
+    highlights.push(`- **New root ${newRoots.length === 1 ? 'category' : 'categories'}:** ${newRoots.map((c) => md(c.displayName)).join(', ')}`);
+  }
+  if (entry.removed.length > 0) {
+    const shown = entry.removed.slice(0, MAX_HIGHLIGHTED_REMOVALS).map((r) => md(r.displayName || r.id));
+    const more = entry.removed.length - shown.length;
+    highlights.push(`- **${plural(entry.removed.length, 'setting')} removed:** ${shown.join(', ')}${more > 0 ? `, and ${more} more` : ''}`);
+  }
+  const securityCounts = new Map<string, Map<ChangeKind, number>>();
+  for (const item of items) {
+    const root = rootName(item.ref.categoryId);
+    if (!SECURITY_PATTERN.test(root) && !SECURITY_PATTERN.test(item.ref.categoryName ?? '')) continue;
+    const counts = securityCounts.get(root) ?? new Map<ChangeKind, number>();
+    counts.set(item.kind, (counts.get(item.kind) ?? 0) + 1);
+    securityCounts.set(root, counts);
+  }
+  if (securityCounts.size > 0) {
+    highlights.push('- **Security-related changes:**');
+    for (const [root, counts] of [...securityCounts].sort(([a], [b]) => a.localeCompare(b))) {
+      const summary = (Object.keys(KIND_HEADINGS) as ChangeKind[])
+        .filter((k) => counts.has(k))
+        .map((k) => `${counts.get(k)} ${KIND_HEADINGS[k].toLowerCase()}`)
+        .join(', ');
+      highlights.push(`  - ${md(root)}: ${summary}`);
+    }
+  }
+  if (highlights.length > 0) lines.push('', '## Highlights', '', ...highlights);
+
+  // ── By platform ──
+  const platformOrder = [...PLATFORM_GROUPS.map((g) => g.label), OTHER_PLATFORMS];
+  for (const platform of platformOrder) {
+    const byRoot = groups.get(platform);
+    if (!byRoot) continue;
+    lines.push('', `## ${platform}`);
+    for (const [root, byKind] of [...byRoot].sort(([a], [b]) => a.localeCompare(b))) {
+      lines.push('', `### ${md(root)}`);
+      for (const kind of Object.keys(KIND_HEADINGS) as ChangeKind[]) {
+        const kindItems = byKind.get(kind);
+        if (!kindItems) continue;
+        lines.push('', `**${KIND_HEADINGS[kind]} (${kindItems.length})**`, '');
+        lines.push(...kindItems
+          .sort((a, b) => a.ref.displayName.localeCompare(b.ref.displayName))
+          .map(itemLine));
+      }
+    }
+  }
+
+  const categoryChanges = (entry.categoriesAdded?.length ?? 0) + (entry.categoriesRemoved?.length ?? 0) + (entry.categoriesChanged?.length ?? 0);
+  if (categoryChanges > 0) {
+    lines.push('', '## Categories', '');
+    for (const c of entry.categoriesAdded ?? []) lines.push(`- New: ${md(c.displayName)}`);
+    for (const c of entry.categoriesRemoved ?? []) lines.push(`- Removed: ${md(c.displayName)}`);
+    for (const c of entry.categoriesChanged ?? []) lines.push(`- Changed: ${md(c.displayName)} — ${md(describeFields(c.fields))}`);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+// ─── Main ───
+
+function main() {
+  console.log('Release Notes Generator');
+  console.log('=======================');
+
+  const entries = readJson<ChangelogEntry[]>(CHANGELOG_FILE);
+  if (!entries) {
+    console.error('Error: data/changelog.json not found. Run generate-changelog first.');
+    process.exit(1);
+  }
+
+  const requested = process.argv[2];
+  if (requested && !/^\d{4}-\d{2}-\d{2}$/.test(requested)) {
+    console.error(`Error: expected a date as YYYY-MM-DD, got "${requested}".`);
+    process.exit(1);
+  }
+  const candidates = entries
+    .filter((e) => e.date !== BASELINE_DATE)
+    .sort((a, b) => b.date.localeCompare(a.date));
+  const entry = requested ? candidates.find((e) => e.date === requested) : candidates[0];
+  if (!entry) {
+    console.log(requested ? `No changelog entry for ${requested}.` : 'No changelog entries yet — nothing to write.');
+    if (requested) process.exit(1);
+    return;
+  }
+
+  const markdown = buildReleaseNotes(withoutVersionChanges(entry));
+  fs.mkdirSync(NOTES_DIR, { recursive: true });
+  const file = path.join(NOTES_DIR, `${entry.date}.md`);
+  fs.writeFileSync(file, markdown, 'utf-8');
+  console.log(`Release notes for ${entry.date} → ${file}`);
+}
+
+main();
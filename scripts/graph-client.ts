@@ -0,0 +1,195 @@
+/**
+ * graph-client.ts
+ *
+ * The part of Microsoft Graph the fetch scripts use, behind a one-method
+ * interface so the same fetch flow can run against a live tenant or a local
+ * stand-in (see mock-graph-server.ts).
+ *
+ * Errors from either client carry `statusCode` and `headers`, matching the
+ * Graph SDK's GraphError.
+ */
+
+import { ClientSecretCredential } from '@azure/identity';
+import { Client } from '@microsoft/microsoft-graph-client';
+import { TokenCredentialAuthenticationProvider } from '@microsoft/microsoft-graph-client/authProviders/azureTokenCredentials';
+
+export interface GraphClient {
+  /** GET a Graph path (relative to the API version root) or an absolute @odata.nextLink */
+  get<T = unknown>(url: string): Promise<T>;
+}
+
+/** A collection page as returned by Graph */
+export interface GraphPage<T> {
+  value: T[];
+  '@odata.nextLink'?: string;
+}
+
+export class GraphRequestError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number,
+    public headers: Record<string, string> = {},
+  ) {
+    super(message);
+    this.name = 'GraphRequestError';
+  }
+}
+
+// ─── Error helpers ───
+
+/** HTTP status of a failed request, if the error carries one */
+export function getStatusCode(err: unknown): number | undefined {
+  if (err && typeof err === 'object' && 'statusCode' in err) {
+    const status = (err as { statusCode: unknown }).statusCode;
+    return typeof status === 'number' ? status : undefined;
+  }
+  return undefined;
+}
+
+/** Retry-After header of a failed request — the SDK exposes a Headers object, the HTTP client a plain record */
+export function getRetryAfter(err: unknown): string | undefined {
+  const headers = (err as { headers?: unknown } | null)?.headers;
+  if (!headers) return undefined;
+  if (typeof (headers as Headers).get === 'function') return (headers as Headers).get('Retry-After') ?? undefined;
+  const record = headers as Record<string, string>;
+  return record['Retry-After'] ?? record['retry-after'];
+}
+
+// ─── Clients ───
+
+/** Graph SDK client authenticated with client credentials from AZURE_* env vars */
+export function createGraphClient(): GraphClient {
+  const tenantId = process.env.AZURE_TENANT_ID;
+  const clientId = process.env.AZURE_CLIENT_ID;
+  const clientSecret = process.env.AZURE_CLIENT_SECRET;
+  if (!tenantId || !clientId || !clientSecret) {
+    console.error('Error: AZURE_TENANT_ID, AZURE_CLIENT_ID, and AZURE_CLIENT_SECRET must be set.');
+    process.exit(1);
+  }
+
+  const credential = new ClientSecretCredential(tenantId, clientId, clientSecret);
+  const authProvider = new TokenCredentialAuthenticationProvider(credential, {
+    scopes: ['https://graph.microsoft.com/.default'],
+  });
+
+  const client = Client.initWithMiddleware({
+    authProvider,
+    defaultVersion: 'beta',
+  });
+  return { get: (url) => client.api(url).get() };
+}
+
+/**
+ * Unauthenticated client for a Graph-compatible endpoint, e.g. the mock
+ * server. `baseUrl` includes the version segment (http://127.0.0.1:4010/beta).
+ */
+export function createHttpGraphClient(baseUrl: string): GraphClient {
+  const root = baseUrl.replace(/\/+$/, '');
+  return {
+    async get<T>(url: string): Promise<T> {
+      const res = await fetch(/^https?:\/\//.test(url) ? url : `${root}${url}`);
+      const body = await res.text();
+      if (!res.ok) {
+        const headers: Record<string, string> = {};
+        res.headers.forEach((value, key) => {
+          headers[key === 'retry-after' ? 'Retry-After' : key] = value;
+        });
+        let message = `${res.status} ${res.statusText}`;
+        try {
+          message = (JSON.parse(body) as { error?: { message?: string } }).error?.message || message;
+        } catch {
+          // Non-JSON error body — keep the status line
+        }
+        throw new GraphRequestError(message, res.status, headers);
+      }
+      return JSON.parse(body) as T;
+    },
+  };
+}
+
+// ─── Retry ───
+
+export interface RetryOptions {
+  /** Attempts per request, the first one included (default 6) */
+  maxAttempts?: number;
+  /** First backoff step in ms, doubled on every further attempt (default 1000) */
+  baseDelayMs?: number;
+  /** Upper bound for one backoff step in ms (default 60000); Retry-After is honoured beyond it */
+  maxDelayMs?: number;
+  /** Called before each wait, e.g. for logging */
+  onRetry?: (info: { attempt: number; delayMs: number; reason: string }) => void;
+}
+
+/** Transport-level failures worth retrying (Node sockets and undici) */
+const RETRYABLE_CODES = new Set([
+  'ETIMEDOUT',
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'EPIPE',
+  'EAI_AGAIN',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_HEADERS_TIMEOUT',
+  'UND_ERR_BODY_TIMEOUT',
+  'UND_ERR_SOCKET',
+]);
+
+/** Thrown by withRetry once every attempt has failed */
+export class RetryExhaustedError extends Error {
+  constructor(
+    public attempts: number,
+    public lastError: unknown,
+  ) {
+    super(`${describeError(lastError)} (gave up after ${attempts} attempts)`);
+    this.name = 'RetryExhaustedError';
+  }
+}
+
+function errorCode(err: unknown): string | undefined {
+  const code = (err as { code?: unknown } | null)?.code;
+  if (typeof code === 'string') return code;
+  const cause = (err as { cause?: unknown } | null)?.cause;
+  return cause && cause !== err ? errorCode(cause) : undefined;
+}
+
+/** 429, any 5xx, and timeouts / dropped connections */
+export function isRetryable(err: unknown): boolean {
+  const status = getStatusCode(err);
+  if (status === 429 || (status !== undefined && status >= 500)) return true;
+  const code = errorCode(err);
+  return code !== undefined && RETRYABLE_CODES.has(code);
+}
+
+/** One-line description of a failed request: "503 Service Unavailable", "ETIMEDOUT", ... */
+export function describeError(err: unknown): string {
+  if (err instanceof RetryExhaustedError) return err.message;
+  const status = getStatusCode(err);
+  const code = errorCode(err);
+  const message = err instanceof Error ? err.message : String(err);
+  if (status !== undefined && status > 0) return `${status} ${message}`;
+  return code && !message.includes(code) ? `${code}: ${message}` : message;
+}
+
+/**
+ * Run `fn`, retrying retryable failures with exponential backoff and full
+ * jitter. A Retry-After header sets the minimum wait.
+ */
+export async function withRetry<T>(fn: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const maxAttempts = options.maxAttempts ?? 6;
+  const baseDelayMs = options.baseDelayMs ?? 1000;
+  const maxDelayMs = options.maxDelayMs ?? 60_000;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (err: unknown) {
+      if (!isRetryable(err)) throw err;
+      if (attempt >= maxAttempts) throw new RetryExhaustedError(attempt, err);
+
+      const backoff = Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+      const retryAfter = parseInt(getRetryAfter(err) ?? '', 10);
+      const delayMs = Math.round(Number.isFinite(retryAfter) ? Math.max(retryAfter * 1000, backoff) : backoff);
+      options.onRetry?.({ attempt, delayMs, reason: describeError(err) });
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+}
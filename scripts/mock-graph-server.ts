@@ -0,0 +1,213 @@
+/**
+ * mock-graph-server.ts
+ *
+ * Local stand-in for the Microsoft Graph endpoints fetch-settings.ts uses
+ * (configuration, compliance and inventory categories and settings, policy
+ * templates and their settingTemplates), serving fixture data so the fetch
+ * flow runs without a tenant:
+ * 1. Collections are paged, linked by absolute `@odata.nextLink` URLs
+ * 2. Every Nth request is throttled with 429 + Retry-After
+ * 3. Hidden categories are left out of the bulk listing but served by ID
+ *    (the "orphan category" case); unknown IDs return 404
+ * 4. Optionally, a run of requests fails with a 5xx (an outage)
+ *
+ * Settings and categories are split across the three catalogs by their
+ * settingUsage (none means configuration). Templates are given in the
+ * data/templates.json shape and served back as Graph templates plus one
+ * settingTemplate per setting definition ID.
+ *
+ * Usage (serves data/sample-*.json on http://127.0.0.1:4010/beta):
+ *   npx tsx scripts/mock-graph-server.ts
+ *   GRAPH_MOCK_URL=http://127.0.0.1:4010/beta npx tsx scripts/fetch-settings.ts
+ *
+ * Env: MOCK_GRAPH_PORT (4010), MOCK_PAGE_SIZE (10), MOCK_THROTTLE_EVERY (4,
+ * 0 disables), MOCK_RETRY_AFTER (1 second), MOCK_HIDDEN_CATEGORIES
+ * (comma-separated category IDs to leave out of the listing).
+ */
+
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import type { AddressInfo } from 'net';
+import { getSettingUsages } from '../src/lib/types';
+import type { PolicyTemplate, SettingUsage } from '../src/lib/types';
+
+const DATA_DIR = path.resolve(__dirname, '..', 'data');
+const API_ROOT = '/beta/deviceManagement';
+
+export interface MockGraphOptions {
+  settings: Array<Record<string, unknown>>;
+  categories: Array<Record<string, unknown>>;
+  templates?: PolicyTemplate[];
+  /** Items per collection page (default 100) */
+  pageSize?: number;
+  /** Throttle every Nth request with a 429; 0 never throttles (default) */
+  throttleEvery?: number;
+  /** Retry-After value sent with 429s, in seconds (default 0) */
+  retryAfterSeconds?: number;
+  /** Requests number after+1 … after+count (1-based, throttled ones included) fail with `status` (default 503) */
+  outage?: { after: number; count: number; status?: number };
+  /** Categories left out of the bulk listing but still served by ID */
+  hiddenCategoryIds?: string[];
+  /** Port to listen on; 0 picks a free one (default) */
+  port?: number;
+}
+
+export interface MockGraphRequest {
+  path: string;
+  status: number;
+}
+
+export interface MockGraphServer {
+  /** Base URL including the version segment, for createHttpGraphClient() */
+  url: string;
+  /** Every request served, in order */
+  requests: MockGraphRequest[];
+  close(): Promise<void>;
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function graphError(code: string, message: string) {
+  return { error: { code, message } };
+}
+
+/** Fixture items served by one catalog's endpoints */
+function inCatalog(items: Array<Record<string, unknown>>, usage: SettingUsage) {
+  return items.filter((i) => getSettingUsages(i.settingUsage as string | undefined).includes(usage));
+}
+
+export function startMockGraphServer(options: MockGraphOptions): Promise<MockGraphServer> {
+  const pageSize = options.pageSize ?? 100;
+  const throttleEvery = options.throttleEvery ?? 0;
+  const hidden = new Set(options.hiddenCategoryIds ?? []);
+  const requests: MockGraphRequest[] = [];
+  let origin = '';
+
+  const templates = options.templates ?? [];
+  const collections: Record<string, Array<Record<string, unknown>>> = {
+    configurationPolicyTemplates: templates.map(({ settingDefinitionIds, ...t }) => t),
+  };
+  // Per category collection, every category it serves by ID (hidden ones included)
+  const categoriesById: Record<string, Map<string, Record<string, unknown>>> = {};
+  for (const usage of ['configuration', 'compliance', 'inventory'] as const) {
+    const categories = inCatalog(options.categories, usage);
+    collections[`${usage}Categories`] = categories.filter((c) => !hidden.has(c.id as string));
+    collections[`${usage}Settings`] = inCatalog(options.settings, usage);
+    categoriesById[`${usage}Categories`] = new Map(categories.map((c) => [c.id as string, c]));
+  }
+  const settingTemplates = new Map(templates.map((t) => [
+    t.id,
+    t.settingDefinitionIds.map((definitionId, i) => ({
+      id: `${t.id}_${i}`,
+      settingInstanceTemplate: {
+        '@odata.type': '#microsoft.graph.deviceManagementConfigurationSettingInstanceTemplate',
+        settingDefinitionId: definitionId,
+        settingInstanceTemplateId: `${t.baseId}-${i}`,
+        isRequired: false,
+      },
+    })),
+  ]));
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url ?? '/', origin);
+    const respond = (status: number, body: unknown, headers?: Record<string, string>) => {
+      requests.push({ path: `${url.pathname}${url.search}`, status });
+      sendJson(res, status, body, headers);
+    };
+
+    if (req.method !== 'GET') {
+      respond(405, graphError('MethodNotAllowed', `${req.method} is not supported`));
+      return;
+    }
+    const n = requests.length + 1;
+    const { outage } = options;
+    if (outage && n > outage.after && n <= outage.after + outage.count) {
+      respond(outage.status ?? 503, graphError('ServiceUnavailable', 'Service unavailable'));
+      return;
+    }
+    if (throttleEvery > 0 && n % throttleEvery === 0) {
+      respond(
+        429,
+        graphError('TooManyRequests', 'Too many requests'),
+        { 'Retry-After': String(options.retryAfterSeconds ?? 0) },
+      );
+      return;
+    }
+
+    const rest = url.pathname.startsWith(`${API_ROOT}/`) ? url.pathname.slice(API_ROOT.length + 1) : '';
+    const [collection, id, navigation] = rest.split('/').map(decodeURIComponent);
+    let items: Array<Record<string, unknown>> | undefined = collections[collection];
+    if (items && navigation !== undefined) {
+      items = collection === 'configurationPolicyTemplates' && navigation === 'settingTemplates'
+        ? settingTemplates.get(id)
+        : undefined;
+    }
+    if (!items) {
+      respond(404, graphError('ResourceNotFound', `Resource not found for the segment '${navigation ?? id ?? (collection || url.pathname)}'.`));
+      return;
+    }
+
+    // Single item by ID — hidden categories are reachable here
+    if (id !== undefined && navigation === undefined) {
+      const item = categoriesById[collection] ? categoriesById[collection].get(id) : items.find((i) => i.id === id);
+      if (item) respond(200, item);
+      else respond(404, graphError('ResourceNotFound', `No ${collection} with id '${id}'.`));
+      return;
+    }
+
+    const skip = parseInt(url.searchParams.get('$skiptoken') ?? '0', 10) || 0;
+    const page = items.slice(skip, skip + pageSize);
+    const body: Record<string, unknown> = { value: page };
+    if (skip + pageSize < items.length) {
+      const next = new URL(url.toString());
+      next.searchParams.set('$skiptoken', String(skip + pageSize));
+      body['@odata.nextLink'] = next.toString();
+    }
+    respond(200, body);
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, '127.0.0.1', () => {
+      origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      resolve({
+        url: `${origin}/beta`,
+        requests,
+        close: () => new Promise<void>((done) => server.close(() => done())),
+      });
+    });
+  });
+}
+
+// ─── Main ───
+
+async function main() {
+  const read = (file: string) => JSON.parse(fs.readFileSync(path.join(DATA_DIR, file), 'utf-8'));
+  const server = await startMockGraphServer({
+    settings: read('sample-settings.json'),
+    categories: read('sample-categories.json'),
+    templates: read('sample-templates.json'),
+    port: parseInt(process.env.MOCK_GRAPH_PORT || '4010', 10),
+    pageSize: parseInt(process.env.MOCK_PAGE_SIZE || '10', 10),
+    throttleEvery: parseInt(process.env.MOCK_THROTTLE_EVERY ?? '4', 10),
+    retryAfterSeconds: parseInt(process.env.MOCK_RETRY_AFTER || '1', 10),
+    hiddenCategoryIds: (process.env.MOCK_HIDDEN_CATEGORIES || '').split(',').filter(Boolean),
+  });
+
+  console.log('Mock Graph Server');
+  console.log('=================');
+  console.log(`Serving sample data at ${server.url}`);
+  console.log(`Run: GRAPH_MOCK_URL=${server.url} npx tsx scripts/fetch-settings.ts`);
+  console.log('Press Ctrl+C to stop.');
+}
+
+if (require.main === module) {
+  main().catch((err) => {
+    console.error('Fatal error:', err);
+    process.exit(1);
+  });
+}
@@ -16,6 +16,7 @@ const DATA_DIR = path.resolve(__dirname, '..', 'data');
 const copies: [string, string][] = [
   ['sample-categories.json', 'categories.json'],
   ['sample-settings.json', 'settings.json'],
+  ['sample-templates.json', 'templates.json'],
 ];
 
 for (const [src, dest] of copies) {
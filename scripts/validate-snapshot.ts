@@ -0,0 +1,283 @@
+/**
+ * validate-snapshot.ts
+ *
+ * Sanity checks a freshly fetched snapshot before generate-changelog diffs it
+ * and overwrites settings-previous.json. A partial Graph response would
+ * otherwise be logged as mass removals and become the new baseline.
+ *
+ * Compares data/settings.json + categories.json against the previous
+ * snapshot (settings-previous.json + categories-previous.json):
+ * 1. Overall removals — share of previous settings missing now
+ * 2. Per platform and per root category — how far each count dropped
+ * 3. Referential integrity — categoryId, rootDefinitionId, childIds and
+ *    dependedOnBy targets that point nowhere, against the previous snapshot's
+ *    own count (the live catalog is never perfectly consistent)
+ *
+ * Writes data/validation-report.json and exits non-zero when a threshold is
+ * exceeded. Without a previous snapshot only the integrity counts are
+ * reported.
+ *
+ * Usage:
+ *   npx tsx scripts/validate-snapshot.ts
+ *
+ * Thresholds (env):
+ *   VALIDATE_MAX_REMOVED_PCT      max % of previous settings removed (default 5)
+ *   VALIDATE_MAX_GROUP_DROP_PCT   max % drop for one platform / root category (default 20)
+ *   VALIDATE_MIN_GROUP_SIZE       groups smaller than this are not checked (default 25)
+ *   VALIDATE_MAX_NEW_BROKEN_REFS  max new broken references per kind (default 25)
+ *   VALIDATE_FORCE=1              report failures but exit 0 (accept a genuine mass change)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { SettingDefinition, SettingCategory } from '../src/lib/types';
+
+const DATA_DIR = path.resolve(__dirname, '..', 'data');
+const SETTINGS_FILE = path.join(DATA_DIR, 'settings.json');
+const PREVIOUS_FILE = path.join(DATA_DIR, 'settings-previous.json');
+const CATEGORIES_FILE = path.join(DATA_DIR, 'categories.json');
+const CATEGORIES_PREVIOUS_FILE = path.join(DATA_DIR, 'categories-previous.json');
+const REPORT_FILE = path.join(DATA_DIR, 'validation-report.json');
+
+function envNumber(name: string, fallback: number): number {
+  const value = parseFloat(process.env[name] ?? '');
+  return Number.isFinite(value) ? value : fallback;
+}
+
+const THRESHOLDS = {
+  maxRemovedPct: envNumber('VALIDATE_MAX_REMOVED_PCT', 5),
+  maxGroupDropPct: envNumber('VALIDATE_MAX_GROUP_DROP_PCT', 20),
+  minGroupSize: envNumber('VALIDATE_MIN_GROUP_SIZE', 25),
+  maxNewBrokenRefs: envNumber('VALIDATE_MAX_NEW_BROKEN_REFS', 25),
+};
+
+/** Broken references kept per kind in the report */
+const MAX_EXAMPLES = 20;
+
+// ── Report types ─────────────────────────────────────────────
+
+interface GroupCount {
+  key: string;
+  label: string;
+  previous: number;
+  current: number;
+  /** Negative for a drop */
+  changePct: number;
+  ok: boolean;
+}
+
+type RefKind = 'categoryId' | 'rootDefinitionId' | 'childIds' | 'dependedOnBy';
+
+interface IntegrityResult {
+  broken: number;
+  previous: number | null;
+  ok: boolean;
+  examples: Array<{ settingId: string; target: string }>;
+}
+
+interface ValidationReport {
+  generatedAt: string;
+  ok: boolean;
+  forced: boolean;
+  thresholds: typeof THRESHOLDS;
+  totals: {
+    previous: number | null;
+    current: number;
+    added: number;
+    removed: number;
+    removedPct: number;
+  };
+  platforms: GroupCount[];
+  rootCategories: GroupCount[];
+  integrity: Record<RefKind, IntegrityResult>;
+  failures: string[];
+}
+
+// ── Helpers ──────────────────────────────────────────────────
+
+function readJson<T>(file: string): T | null {
+  return fs.existsSync(file) ? (JSON.parse(fs.readFileSync(file, 'utf-8')) as T) : null;
+}
+
+function pct(part: number, whole: number): number {
+  return whole === 0 ? 0 : Math.round((part / whole) * 1000) / 10;
+}
+
+function countBy(settings: SettingDefinition[], keysOf: (s: SettingDefinition) => string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const s of settings) {
+    for (const key of new Set(keysOf(s))) counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/** Compare group sizes; only groups of at least minGroupSize settings can fail */
+function compareGroups(
+  previous: Map<string, number>,
+  current: Map<string, number>,
+  labelOf: (key: string) => string,
+): GroupCount[] {
+  const keys = [...new Set([...previous.keys(), ...current.keys()])];
+  return keys
+    .map((key) => {
+      const prev = previous.get(key) ?? 0;
+      const curr = current.get(key) ?? 0;
+      const changePct = prev === 0 ? 0 : pct(curr - prev, prev);
+      return {
+        key,
+        label: labelOf(key),
+        previous: prev,
+        current: curr,
+        changePct,
+        ok: prev < THRESHOLDS.minGroupSize || -changePct <= THRESHOLDS.maxGroupDropPct,
+      };
+    })
+    .sort((a, b) => a.changePct - b.changePct || b.previous - a.previous);
+}
+
+function platformsOf(s: SettingDefinition): string[] {
+  return (s.applicability?.platform || 'unknown').split(',').map((p) => p.trim()).filter(Boolean);
+}
+
+/** References from each setting that point at a missing category or setting */
+function findBrokenRefs(
+  settings: SettingDefinition[],
+  categoryIds: Set<string>,
+): Record<RefKind, Array<{ settingId: string; target: string }>> {
+  const settingIds = new Set(settings.map((s) => s.id));
+  const broken: Record<RefKind, Array<{ settingId: string; target: string }>> = {
+    categoryId: [],
+    rootDefinitionId: [],
+    childIds: [],
+    dependedOnBy: [],
+  };
+  for (const s of settings) {
+    if (s.categoryId && !categoryIds.has(s.categoryId)) {
+      broken.categoryId.push({ settingId: s.id, target: s.categoryId });
+    }
+    if (s.rootDefinitionId && !settingIds.has(s.rootDefinitionId)) {
+      broken.rootDefinitionId.push({ settingId: s.id, target: s.rootDefinitionId });
+    }
+    for (const child of s.childIds ?? []) {
+      if (!settingIds.has(child)) broken.childIds.push({ settingId: s.id, target: child });
+    }
+    for (const d of s.dependedOnBy ?? []) {
+      if (d.dependedOnBy && !settingIds.has(d.dependedOnBy)) {
+        broken.dependedOnBy.push({ settingId: s.id, target: d.dependedOnBy });
+      }
+    }
+  }
+  return broken;
+}
+
+// ── Main ─────────────────────────────────────────────────────
+
+function main() {
+  console.log('Snapshot Validator');
+  console.log('==================');
+
+  const current = readJson<SettingDefinition[]>(SETTINGS_FILE);
+  if (!current) {
+    console.error('Error: data/settings.json not found. Run fetch-settings first.');
+    process.exit(1);
+  }
+  const categories = readJson<SettingCategory[]>(CATEGORIES_FILE) ?? [];
+  const previous = readJson<SettingDefinition[]>(PREVIOUS_FILE);
+  const previousCategories = readJson<SettingCategory[]>(CATEGORIES_PREVIOUS_FILE) ?? [];
+  const failures: string[] = [];
+
+  console.log(`Current settings:  ${current.length}`);
+  console.log(`Previous settings: ${previous ? previous.length : '(no previous snapshot)'}`);
+
+  if (current.length === 0) failures.push('Snapshot contains no settings');
+
+  // 1. Overall additions / removals
+  const currentIds = new Set(current.map((s) => s.id));
+  const previousIds = new Set((previous ?? []).map((s) => s.id));
+  const added = current.filter((s) => !previousIds.has(s.id)).length;
+  const removed = (previous ?? []).filter((s) => !currentIds.has(s.id)).length;
+  const removedPct = pct(removed, previousIds.size);
+  if (previous && removedPct > THRESHOLDS.maxRemovedPct) {
+    failures.push(`${removed} of ${previous.length} settings removed (${removedPct}% > ${THRESHOLDS.maxRemovedPct}%)`);
+  }
+
+  // 2. Per platform and per root category
+  const categoryById = new Map([...previousCategories, ...categories].map((c) => [c.id, c]));
+  const rootOf = (s: SettingDefinition) => {
+    const cat = categoryById.get(s.categoryId);
+    return [cat ? cat.rootCategoryId || cat.id : 'unknown'];
+  };
+  const platforms = previous
+    ? compareGroups(countBy(previous, platformsOf), countBy(current, platformsOf), (key) => key)
+    : [];
+  const rootCategories = previous
+    ? compareGroups(
+        countBy(previous, rootOf),
+        countBy(current, rootOf),
+        (key) => categoryById.get(key)?.displayName || key,
+      )
+    : [];
+  for (const g of platforms.filter((g) => !g.ok)) {
+    failures.push(`Platform ${g.label}: ${g.previous} → ${g.current} settings (${g.changePct}%)`);
+  }
+  for (const g of rootCategories.filter((g) => !g.ok)) {
+    failures.push(`Root category ${g.label}: ${g.previous} → ${g.current} settings (${g.changePct}%)`);
+  }
+
+  // 3. Referential integrity, relative to the previous snapshot
+  const brokenNow = findBrokenRefs(current, new Set(categories.map((c) => c.id)));
+  const brokenBefore = previous
+    ? findBrokenRefs(previous, new Set((previousCategories.length ? previousCategories : categories).map((c) => c.id)))
+    : null;
+  const integrity = {} as Record<RefKind, IntegrityResult>;
+  for (const kind of Object.keys(brokenNow) as RefKind[]) {
+    const broken = brokenNow[kind].length;
+    const before = brokenBefore ? brokenBefore[kind].length : null;
+    const ok = before === null || broken - before <= THRESHOLDS.maxNewBrokenRefs;
+    integrity[kind] = { broken, previous: before, ok, examples: brokenNow[kind].slice(0, MAX_EXAMPLES) };
+    if (!ok) failures.push(`${broken} broken ${kind} references (previously ${before})`);
+  }
+
+  // ── Report ──
+  const forced = process.env.VALIDATE_FORCE === '1';
+  const report: ValidationReport = {
+    generatedAt: new Date().toISOString(),
+    ok: failures.length === 0,
+    forced,
+    thresholds: THRESHOLDS,
+    totals: { previous: previous ? previous.length : null, current: current.length, added, removed, removedPct },
+    platforms,
+    rootCategories,
+    integrity,
+    failures,
+  };
+  fs.writeFileSync(REPORT_FILE, JSON.stringify(report, null, 2), 'utf-8');
+
+  console.log(`  Added: ${added}`);
+  console.log(`  Removed: ${removed} (${removedPct}%)`);
+  for (const g of platforms) {
+    console.log(`  ${g.ok ? ' ' : '✗'} ${g.label}: ${g.previous} → ${g.current}`);
+  }
+  for (const kind of Object.keys(integrity) as RefKind[]) {
+    const r = integrity[kind];
+    console.log(`  Broken ${kind} references: ${r.broken}${r.previous === null ? '' : ` (previously ${r.previous})`}`);
+  }
+  console.log(`Report written to ${REPORT_FILE}`);
+
+  if (failures.length === 0) {
+    console.log('\nSnapshot looks sane.');
+    return;
+  }
+
+  console.error(`\nSnapshot failed ${failures.length} check${failures.length === 1 ? '' : 's'}:`);
+  for (const f of failures) console.error(`  - ${f}`);
+  if (forced) {
+    console.warn('VALIDATE_FORCE=1 set — continuing anyway.');
+    return;
+  }
+  console.error('Refusing to continue: the changelog and previous snapshot were not touched.');
+  console.error('If the change is genuine, re-run with VALIDATE_FORCE=1.');
+  process.exit(1);
+}
+
+main();
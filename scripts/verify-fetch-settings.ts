@@ -0,0 +1,259 @@
+/**
+ * verify-fetch-settings.ts
+ *
+ * End-to-end checks for the fetch flow, run against the local mock Graph
+ * server (no tenant or secrets needed). Each scenario starts its own server
+ * over the sample data, runs fetchCatalog() into a temporary data directory
+ * and asserts on what was requested and written:
+ * 1. Paging — every @odata.nextLink is followed and no item is lost;
+ *    all three catalogs are merged and tagged with their usage, and
+ *    templates come back with the setting definitions they use
+ * 2. Throttling — 429 + Retry-After responses are retried, not skipped
+ * 3. Orphan categories — hidden categories are fetched by ID; 404s are skipped
+ * 4. Unchanged data — a second identical run leaves last-updated.json alone
+ * 5. Server errors — 5xx responses are retried with backoff
+ * 6. Lasting outage — the run aborts and existing data files stay untouched
+ * 7. Resume — a re-run continues from the last checkpointed page
+ * 8. Shared settings — an ID served by two catalogs is kept once, with both usages
+ *
+ * Usage:
+ *   npx tsx scripts/verify-fetch-settings.ts
+ *
+ * Exits non-zero if any scenario fails.
+ */
+
+import * as assert from 'assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createHttpGraphClient } from './graph-client';
+import { FetchAbortedError, fetchCatalog } from './fetch-settings';
+import { startMockGraphServer } from './mock-graph-server';
+import type { MockGraphOptions, MockGraphServer } from './mock-graph-server';
+import { getSettingUsages } from '../src/lib/types';
+import type { PolicyTemplate } from '../src/lib/types';
+
+const DATA_DIR = path.resolve(__dirname, '..', 'data');
+/** Millisecond backoff so retry scenarios finish quickly */
+const FAST_RETRY = { maxAttempts: 4, baseDelayMs: 1 };
+
+type Fixture = Array<Record<string, unknown>>;
+const sampleSettings: Fixture = JSON.parse(fs.readFileSync(path.join(DATA_DIR, 'sample-settings.json'), 'utf-8'));
+const sampleCategories: Fixture = JSON.parse(fs.readFileSync(path.join(DATA_DIR, 'sample-categories.json'), 'utf-8'));
+const sampleTemplates: PolicyTemplate[] = JSON.parse(fs.readFileSync(path.join(DATA_DIR, 'sample-templates.json'), 'utf-8'));
+/** The configuration catalog part of the fixtures, which the page counts below are based on */
+const configurationSettings = sampleSettings.filter((s) => getSettingUsages(s.settingUsage as string).includes('configuration'));
+const configurationCategories = sampleCategories.filter((c) => getSettingUsages(c.settingUsage as string).includes('configuration'));
+
+// ── Harness ──────────────────────────────────────────────────
+
+interface Scenario {
+  name: string;
+  server: Partial<MockGraphOptions>;
+  run: (ctx: { server: MockGraphServer; dataDir: string }) => Promise<void>;
+}
+
+const scenarios: Scenario[] = [];
+
+function scenario(name: string, server: Partial<MockGraphOptions>, run: Scenario['run']) {
+  scenarios.push({ name, server, run });
+}
+
+function readJson(dir: string, file: string): Fixture {
+  return JSON.parse(fs.readFileSync(path.join(dir, file), 'utf-8'));
+}
+
+function ids(items: Fixture): string[] {
+  return items.map((i) => i.id as string).sort();
+}
+
+/** Requests made to a collection listing (not to single items) */
+function collectionRequests(server: MockGraphServer, collection: string) {
+  return server.requests.filter((r) => r.path.split('?')[0].endsWith(`/${collection}`));
+}
+
+// ── Scenarios ────────────────────────────────────────────────
+
+scenario('follows @odata.nextLink across pages', { pageSize: 5 }, async ({ server, dataDir }) => {
+  const result = await fetchCatalog(createHttpGraphClient(server.url), { dataDir, retry: FAST_RETRY });
+
+  assert.deepEqual(ids(result.settings), ids(sampleSettings));
+  assert.deepEqual(ids(result.categories), ids(sampleCategories));
+  assert.equal(collectionRequests(server, 'configurationSettings').length, Math.ceil(configurationSettings.length / 5));
+  assert.equal(collectionRequests(server, 'complianceSettings').length, 1);
+  assert.equal(collectionRequests(server, 'inventorySettings').length, 1);
+  assert.deepEqual(ids(readJson(dataDir, 'settings.json')), ids(sampleSettings));
+  for (const s of result.settings) {
+    const expected = sampleSettings.find((f) => f.id === s.id)!.settingUsage;
+    assert.equal(s.settingUsage, expected, `${s.id} tagged with its usage`);
+  }
+  assert.deepEqual(ids(readJson(dataDir, 'categories.json')), ids(sampleCategories));
+  assert.deepEqual(result.templates, sampleTemplates);
+  assert.deepEqual(JSON.parse(fs.readFileSync(path.join(dataDir, 'templates.json'), 'utf-8')), sampleTemplates);
+  assert.ok(fs.existsSync(path.join(dataDir, 'last-updated.json')), 'last-updated.json written');
+});
+
+scenario('retries throttled pages after Retry-After', { pageSize: 5, throttleEvery: 3 }, async ({ server, dataDir }) => {
+  const result = await fetchCatalog(createHttpGraphClient(server.url), { dataDir, retry: FAST_RETRY });
+
+  assert.ok(server.requests.some((r) => r.status === 429), 'server throttled at least once');
+  assert.deepEqual(ids(result.settings), ids(sampleSettings));
+  assert.deepEqual(ids(result.categories), ids(sampleCategories));
+  // Every throttled page was requested again and eventually served
+  for (const throttled of server.requests.filter((r) => r.status === 429 && !r.path.includes('/configurationCategories/'))) {
+    assert.ok(
+      server.requests.some((r) => r.path === throttled.path && r.status === 200),
+      `${throttled.path} retried`
+    );
+  }
+});
+
+const hiddenCategoryIds = [...new Set(sampleSettings.map((s) => s.categoryId as string))].slice(0, 2);
+const danglingCategoryId = '00000000-0000-0000-0000-00000000dead';
+
+scenario(
+  'recovers orphan categories by ID and skips 404s',
+  {
+    hiddenCategoryIds,
+    settings: [...sampleSettings, { ...sampleSettings[0], id: 'verify_dangling_category', categoryId: danglingCategoryId }],
+  },
+  async ({ server, dataDir }) => {
+    const result = await fetchCatalog(createHttpGraphClient(server.url), { dataDir, retry: FAST_RETRY });
+
+    assert.deepEqual([...result.orphanCategoryIds].sort(), [...hiddenCategoryIds, danglingCategoryId].sort());
+    assert.deepEqual(result.missingCategoryIds, [danglingCategoryId]);
+    assert.ok(
+      server.requests.some((r) => r.path.startsWith(`/beta/deviceManagement/configurationCategories/${danglingCategoryId}`) && r.status === 404),
+      'dangling category answered with 404'
+    );
+    const written = ids(readJson(dataDir, 'categories.json'));
+    for (const id of hiddenCategoryIds) assert.ok(written.includes(id), `orphan ${id} written to categories.json`);
+    assert.ok(!written.includes(danglingCategoryId), 'missing category not written');
+  }
+);
+
+scenario('leaves last-updated.json alone when nothing changed', {}, async ({ server, dataDir }) => {
+  const client = createHttpGraphClient(server.url);
+  const first = await fetchCatalog(client, { dataDir, retry: FAST_RETRY });
+  const stamp = fs.readFileSync(path.join(dataDir, 'last-updated.json'), 'utf-8');
+  const second = await fetchCatalog(client, { dataDir, retry: FAST_RETRY });
+
+  assert.equal(first.changed, true);
+  assert.equal(second.changed, false);
+  assert.equal(fs.readFileSync(path.join(dataDir, 'last-updated.json'), 'utf-8'), stamp);
+});
+
+scenario('retries 5xx responses with backoff', { pageSize: 5, outage: { after: 2, count: 2 } }, async ({ server, dataDir }) => {
+  const result = await fetchCatalog(createHttpGraphClient(server.url), { dataDir, retry: FAST_RETRY });
+
+  assert.equal(server.requests.filter((r) => r.status === 503).length, 2);
+  assert.deepEqual(ids(result.settings), ids(sampleSettings));
+  assert.deepEqual(ids(result.categories), ids(sampleCategories));
+});
+
+scenario('aborts on a lasting outage without touching data files', { pageSize: 5, outage: { after: 5, count: 1000 } }, async ({ server, dataDir }) => {
+  const previous = JSON.stringify([{ id: 'previous_snapshot' }]);
+  fs.writeFileSync(path.join(dataDir, 'settings.json'), previous, 'utf-8');
+
+  await assert.rejects(
+    fetchCatalog(createHttpGraphClient(server.url), { dataDir, retry: FAST_RETRY }),
+    (err: unknown) => {
+      assert.ok(err instanceof FetchAbortedError, 'FetchAbortedError thrown');
+      assert.equal(err.collection, 'configurationSettings');
+      assert.equal(err.pagesSaved, 1);
+      return true;
+    }
+  );
+  assert.equal(fs.readFileSync(path.join(dataDir, 'settings.json'), 'utf-8'), previous);
+  assert.ok(!fs.existsSync(path.join(dataDir, 'categories.json')), 'categories.json not written');
+  assert.ok(!fs.existsSync(path.join(dataDir, 'last-updated.json')), 'last-updated.json not written');
+  assert.ok(fs.existsSync(path.join(dataDir, '.fetch-checkpoint', 'configurationSettings', 'state.json')), 'checkpoint kept');
+});
+
+// 20 configuration categories at 5 per page = requests 1–4; settings page 1 = request 5.
+// Settings page 2 then fails on both attempts (requests 6 and 7).
+scenario('resumes from the last checkpointed page', { pageSize: 5, outage: { after: 5, count: 2 } }, async ({ server, dataDir }) => {
+  const client = createHttpGraphClient(server.url);
+  const retry = { ...FAST_RETRY, maxAttempts: 2 };
+  await assert.rejects(fetchCatalog(client, { dataDir, retry }), FetchAbortedError);
+  const result = await fetchCatalog(client, { dataDir, retry });
+
+  assert.deepEqual(ids(result.settings), ids(sampleSettings));
+  assert.deepEqual(ids(result.categories), ids(sampleCategories));
+  // Completed pages were not requested again
+  assert.equal(collectionRequests(server, 'configurationCategories').length, Math.ceil(configurationCategories.length / 5));
+  assert.equal(
+    collectionRequests(server, 'configurationSettings').filter((r) => r.status === 200).length,
+    Math.ceil(configurationSettings.length / 5)
+  );
+  assert.ok(!fs.existsSync(path.join(dataDir, '.fetch-checkpoint')), 'checkpoint removed after success');
+});
+
+scenario(
+  'keeps a setting served by two catalogs once',
+  { settings: [...sampleSettings, { ...sampleSettings[0], id: 'verify_shared', settingUsage: 'configuration,compliance' }] },
+  async ({ server, dataDir }) => {
+    const result = await fetchCatalog(createHttpGraphClient(server.url), { dataDir, retry: FAST_RETRY });
+
+    const shared = result.settings.filter((s) => s.id === 'verify_shared');
+    assert.equal(shared.length, 1);
+    assert.equal(shared[0].settingUsage, 'configuration,compliance');
+    assert.ok(
+      server.requests.some((r) => r.path.startsWith('/beta/deviceManagement/complianceSettings')),
+      'compliance catalog requested'
+    );
+  }
+);
+
+// ── Main ─────────────────────────────────────────────────────
+
+async function main() {
+  console.log('Fetch Flow Verification');
+  console.log('=======================');
+
+  const failures: string[] = [];
+  for (const { name, server: overrides, run } of scenarios) {
+    const server = await startMockGraphServer({
+      settings: sampleSettings,
+      categories: sampleCategories,
+      templates: sampleTemplates,
+      ...overrides,
+    });
+    const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'verify-fetch-'));
+    // fetchCatalog narrates every page; keep the scenario output readable
+    const { log, warn } = console;
+    console.log = () => {};
+    console.warn = () => {};
+    let error: unknown;
+    try {
+      await run({ server, dataDir });
+    } catch (err) {
+      error = err ?? 'failed';
+    } finally {
+      console.log = log;
+      console.warn = warn;
+      await server.close();
+      fs.rmSync(dataDir, { recursive: true, force: true });
+    }
+
+    if (error === undefined) {
+      console.log(`  ✓ ${name}`);
+    } else {
+      console.log(`  ✗ ${name}`);
+      console.log(`    ${error instanceof Error ? error.message.split('\n').join('\n    ') : String(error)}`);
+      failures.push(name);
+    }
+  }
+
+  console.log();
+  if (failures.length > 0) {
+    console.error(`${failures.length} of ${scenarios.length} scenarios failed.`);
+    process.exit(1);
+  }
+  console.log(`All ${scenarios.length} scenarios passed.`);
+}
+
+main().catch((err) => {
+  console.error('Fatal error:', err);
+  process.exit(1);
+});
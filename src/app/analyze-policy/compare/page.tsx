@@ -0,0 +1,31 @@
+import PolicyDiff from '@/components/PolicyDiff';
+import PolicyToolTabs from '@/components/PolicyToolTabs';
+import { loadCategoryTree, loadCategoryMaps } from '@/lib/data';
+import type { Metadata } from 'next';
+
+export const metadata: Metadata = {
+  title: 'Compare Policies — Intune Settings Catalog Viewer',
+  description: 'Diff two exported Intune configuration policies setting by setting.',
+};
+
+export default function ComparePoliciesPage() {
+  const categoryTree = loadCategoryTree();
+  const { categoryMap, categoryParentMap } = loadCategoryMaps();
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 py-6">
+      <div className="mb-6">
+        <h1 className="text-fluent-2xl font-semibold text-fluent-text">
+          Compare Policies
+        </h1>
+        <p className="text-fluent-base text-fluent-text-secondary mt-1">
+          Load two exported policies &mdash; say prod and pilot &mdash; to see settings only one of them configures and
+          settings both configure differently, grouped by category. Files are read in your browser and never uploaded.
+        </p>
+      </div>
+
+      <PolicyToolTabs active="/analyze-policy/compare/" />
+      <PolicyDiff categoryTree={categoryTree} categoryMap={categoryMap} categoryParentMap={categoryParentMap} />
+    </div>
+  );
+}
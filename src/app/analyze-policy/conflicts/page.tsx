@@ -0,0 +1,28 @@
+import PolicyConflicts from '@/components/PolicyConflicts';
+import PolicyToolTabs from '@/components/PolicyToolTabs';
+import type { Metadata } from 'next';
+
+export const metadata: Metadata = {
+  title: 'Policy Conflicts — Intune Settings Catalog Viewer',
+  description: 'Find settings configured by more than one exported Intune configuration policy.',
+};
+
+export default function PolicyConflictsPage() {
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 py-6">
+      <div className="mb-6">
+        <h1 className="text-fluent-2xl font-semibold text-fluent-text">
+          Policy Conflicts
+        </h1>
+        <p className="text-fluent-base text-fluent-text-secondary mt-1">
+          Intune reports a conflict when two policies assigned to the same device set one setting differently. Load the
+          exports of policies that target the same devices to find those settings before they reach a device &mdash;
+          including device- and user-scoped copies of the same CSP. Files are read in your browser and never uploaded.
+        </p>
+      </div>
+
+      <PolicyToolTabs active="/analyze-policy/conflicts/" />
+      <PolicyConflicts />
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import PolicyAnalyzer from '@/components/PolicyAnalyzer';
+import PolicyToolTabs from '@/components/PolicyToolTabs';
+import { loadCategoryMaps } from '@/lib/data';
+import type { Metadata } from 'next';
+
+export const metadata: Metadata = {
+  title: 'Analyze Policy — Intune Settings Catalog Viewer',
+  description: 'Resolve an exported Intune configuration policy against the settings catalog.',
+};
+
+export default function AnalyzePolicyPage() {
+  const { categoryMap, categoryParentMap } = loadCategoryMaps();
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 py-6">
+      <div className="mb-6">
+        <h1 className="text-fluent-2xl font-semibold text-fluent-text">
+          Analyze Policy
+        </h1>
+        <p className="text-fluent-base text-fluent-text-secondary mt-1">
+          Load a settings catalog policy exported from Graph or the Intune admin center to see what every setting ID
+          means &mdash; display name, category, chosen option and CSP path. Files are read in your browser and never uploaded.
+        </p>
+      </div>
+
+      <PolicyToolTabs active="/analyze-policy/" />
+      <PolicyAnalyzer categoryMap={categoryMap} categoryParentMap={categoryParentMap} />
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import { loadChangelog, loadReleaseNotes } from '@/lib/data';
+import MarkdownView from '@/components/MarkdownView';
+import { ChangelogEntryChanges } from '@/components/ChangelogViewer';
+import { withoutVersionChanges } from '@/lib/changelog-range';
+import Link from 'next/link';
+import type { Metadata } from 'next';
+
+interface ChangelogDatePageProps {
+  params: { date: string };
+}
+
+export async function generateStaticParams() {
+  return loadChangelog().map((e) => ({
+    date: e.date,
+  }));
+}
+
+function formatDate(date: string): string {
+  return new Date(date + 'T00:00:00').toLocaleDateString('en-US', {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+}
+
+export async function generateMetadata({ params }: ChangelogDatePageProps): Promise<Metadata> {
+  const entry = loadChangelog().find((e) => e.date === params.date);
+
+  if (!entry) {
+    return { title: 'Changelog Entry Not Found' };
+  }
+
+  return {
+    title: `Release notes for ${params.date} — Intune Settings Catalog Viewer`,
+    description: `Intune Settings Catalog changes on ${formatDate(params.date)}: ${entry.added.length} added, ${entry.removed.length} removed, ${entry.changed.length} changed.`,
+  };
+}
+
+export default function ChangelogDatePage({ params }: ChangelogDatePageProps) {
+  const entry = loadChangelog().find((e) => e.date === params.date);
+
+  if (!entry) {
+    return (
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 py-12 text-center">
+        <h1 className="text-fluent-2xl font-semibold text-fluent-text mb-2">
+          Changelog Entry Not Found
+        </h1>
+        <p className="text-fluent-base text-fluent-text-secondary mb-6">
+          There is no changelog entry for &ldquo;{params.date}&rdquo;.
+        </p>
+      </div>
+    );
+  }
+
+  const notes = loadReleaseNotes(entry.date);
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 py-6">
+      {/* Breadcrumbs */}
+      <nav className="flex items-center gap-1 text-fluent-sm text-fluent-text-secondary mb-4 flex-wrap">
+        <Link href="/changelog/" className="hover:text-fluent-blue hover:underline">
+          Changelog
+        </Link>
+        <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M9 5l7 7-7 7" />
+        </svg>
+        <span className="text-fluent-text font-medium">{formatDate(entry.date)}</span>
+      </nav>
+
+      {notes ? (
+        <div className="fluent-card px-5 py-4 mb-6">
+          <MarkdownView markdown={notes} />
+        </div>
+      ) : (
+        <h1 className="text-fluent-2xl font-semibold text-fluent-text mb-6">
+          Changes on {formatDate(entry.date)}
+        </h1>
+      )}
+
+      {/* Full field-level detail, collapsed when release notes are shown */}
+      <details className="fluent-card" open={!notes}>
+        <summary className="px-4 py-3 cursor-pointer text-fluent-base font-semibold text-fluent-text">
+          All changes in this entry
+        </summary>
+        <div className="border-t border-fluent-border">
+          <ChangelogEntryChanges entry={withoutVersionChanges(entry)} />
+        </div>
+      </details>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { loadChangelog } from '@/lib/data';
+import ChangelogCompare from '@/components/ChangelogCompare';
+import Link from 'next/link';
+import type { Metadata } from 'next';
+
+export const metadata: Metadata = {
+  title: 'Compare Dates — Intune Settings Catalog Viewer',
+  description: 'Net additions, removals, and changes to the Intune Settings Catalog between any two dates.',
+};
+
+export default function ChangelogComparePage() {
+  const changelog = loadChangelog();
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 py-6">
+      {/* Breadcrumbs */}
+      <nav className="flex items-center gap-1 text-fluent-sm text-fluent-text-secondary mb-4 flex-wrap">
+        <Link href="/changelog/" className="hover:text-fluent-blue hover:underline">
+          Changelog
+        </Link>
+        <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M9 5l7 7-7 7" />
+        </svg>
+        <span className="text-fluent-text font-medium">Compare dates</span>
+      </nav>
+
+      <div className="mb-6">
+        <h1 className="text-fluent-2xl font-semibold text-fluent-text">
+          Compare Catalog Dates
+        </h1>
+        <p className="text-fluent-base text-fluent-text-secondary mt-1">
+          Everything that changed in the Settings Catalog between two dates, merged from the daily changelog entries. Export the result as Markdown for change review.
+        </p>
+      </div>
+
+      <ChangelogCompare entries={changelog} />
+    </div>
+  );
+}
@@ -1,14 +1,32 @@
-import { loadChangelog } from '@/lib/data';
+import { loadChangelog, loadCategoryTree, loadCategoryMergeMap } from '@/lib/data';
+import { buildChangelogCategoryIndex } from '@/lib/changelog-filter';
 import ChangelogViewer from '@/components/ChangelogViewer';
 import type { Metadata } from 'next';
 
 export const metadata: Metadata = {
   title: 'Changelog — Intune Settings Catalog Viewer',
   description: 'Changelog of additions, removals, and changes to the Intune Settings Catalog.',
+  alternates: {
+    types: {
+      'application/atom+xml': '/changelog.xml',
+      'application/feed+json': '/changelog.json',
+    },
+  },
 };
 
+/** Per-platform feeds written by scripts/generate-feeds.ts */
+const FEED_PLATFORMS = [
+  { key: 'windows', label: 'Windows' },
+  { key: 'macos', label: 'macOS' },
+  { key: 'ios', label: 'iOS/iPadOS' },
+  { key: 'android', label: 'Android' },
+  { key: 'linux', label: 'Linux' },
+];
+
 export default function ChangelogPage() {
   const changelog = loadChangelog();
+  // Only the categories the changelog mentions, so the whole tree isn't shipped to the client
+  const categoryIndex = buildChangelogCategoryIndex(loadCategoryTree(), loadCategoryMergeMap(), changelog);
 
   return (
     <div className="max-w-5xl mx-auto px-4 sm:px-6 py-6">
@@ -19,6 +37,24 @@ export default function ChangelogPage() {
         <p className="text-fluent-base text-fluent-text-secondary mt-1">
           Log of additions, removals, and changes to the Intune Settings Catalog. Each entry represents an update where changes were detected.
         </p>
+        <p className="text-fluent-sm text-fluent-text-secondary mt-2">
+          Subscribe:{' '}
+          <a href="/changelog.xml" className="text-fluent-blue hover:underline">Atom</a>
+          {' · '}
+          <a href="/changelog.json" className="text-fluent-blue hover:underline">JSON Feed</a>
+          {' — or per platform: '}
+          {FEED_PLATFORMS.map((p, i) => (
+            <span key={p.key}>
+              {i > 0 && ', '}
+              <a href={`/feeds/${p.key}.xml`} className="text-fluent-blue hover:underline">{p.label}</a>
+            </span>
+          ))}
+        </p>
+        <p className="text-fluent-sm text-fluent-text-secondary mt-1">
+          Need the net change over a longer period?{' '}
+          <a href="/changelog/compare/" className="text-fluent-blue hover:underline">Compare any two dates</a>
+          {' '}and export the result as Markdown.
+        </p>
       </div>
 
       {/* Tracking start notice */}
@@ -38,7 +74,7 @@ export default function ChangelogPage() {
         </div>
       </div>
 
-      <ChangelogViewer entries={changelog} />
+      <ChangelogViewer entries={changelog} categoryIndex={categoryIndex} />
     </div>
   );
 }
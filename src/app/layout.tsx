@@ -57,6 +57,15 @@ export default function RootLayout({
                 <Link href="/changelog/" className="px-3 py-2 rounded-md text-white/80 hover:text-white hover:bg-white/10 transition-colors" prefetch={false}>
                   Changelog
                 </Link>
+                <Link href="/template/" className="px-3 py-2 rounded-md text-white/80 hover:text-white hover:bg-white/10 transition-colors" prefetch={false}>
+                  Templates
+                </Link>
+                <Link href="/policy-builder/" className="px-3 py-2 rounded-md text-white/80 hover:text-white hover:bg-white/10 transition-colors" prefetch={false}>
+                  Policy Builder
+                </Link>
+                <Link href="/analyze-policy/" className="px-3 py-2 rounded-md text-white/80 hover:text-white hover:bg-white/10 transition-colors" prefetch={false}>
+                  Analyze Policy
+                </Link>
                 <Link href="/about/" className="px-3 py-2 rounded-md text-white/80 hover:text-white hover:bg-white/10 transition-colors">
                   About
                 </Link>
@@ -1,4 +1,4 @@
-import { loadCategoryTree, loadCategories, getLastUpdated } from '@/lib/data';
+import { loadCategoryTree, loadCategoryMaps, getLastUpdated } from '@/lib/data';
 import SettingsCatalogBrowser from '@/components/SettingsCatalogBrowser';
 
 export default function HomePage() {
@@ -6,17 +6,9 @@ export default function HomePage() {
   // Settings are loaded client-side from /settings-browse.json to avoid
   // embedding ~55 MB of data in the page HTML.
   const categoryTree = loadCategoryTree();
-  const categories = loadCategories();
+  const { categoryMap, categoryParentMap } = loadCategoryMaps();
   const lastUpdated = getLastUpdated();
 
-  // Create serializable category maps (small — ~1 MB)
-  const categoryMap: Record<string, string> = {};
-  const categoryParentMap: Record<string, string> = {};
-  for (const c of categories) {
-    categoryMap[c.id] = c.displayName;
-    categoryParentMap[c.id] = c.parentCategoryId;
-  }
-
   return (
     <div className="max-w-[1600px] mx-auto">
       <SettingsCatalogBrowser
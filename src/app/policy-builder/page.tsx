@@ -0,0 +1,25 @@
+import PolicyBuilder from '@/components/PolicyBuilder';
+import type { Metadata } from 'next';
+
+export const metadata: Metadata = {
+  title: 'Policy Builder — Intune Settings Catalog Viewer',
+  description: 'Configure settings picked from the catalog and export a Graph-ready configuration policy.',
+};
+
+export default function PolicyBuilderPage() {
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 py-6">
+      <div className="mb-6">
+        <h1 className="text-fluent-2xl font-semibold text-fluent-text">
+          Policy Builder
+        </h1>
+        <p className="text-fluent-base text-fluent-text-secondary mt-1">
+          Configure the settings you added from the catalog and export a <code>deviceManagementConfigurationPolicy</code> body
+          for Microsoft Graph. Everything runs in your browser &mdash; nothing is sent to a tenant.
+        </p>
+      </div>
+
+      <PolicyBuilder />
+    </div>
+  );
+}
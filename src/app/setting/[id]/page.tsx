@@ -1,9 +1,12 @@
-import { loadSettings, loadCategories } from '@/lib/data';
+import { loadSettings, loadSettingById, loadCategories, loadSettingHistory, loadTemplatesForSetting, BASELINE_DATE } from '@/lib/data';
 import SettingDetail from '@/components/SettingDetail';
-import { getPlatformLabel } from '@/lib/types';
+import SettingHistory from '@/components/SettingHistory';
+import DependencyGraph from '@/components/DependencyGraph';
+import { getPlatformLabel, getSettingUsages, getSettingUsageLabel, getTemplateFamilyLabel } from '@/lib/types';
 import { getAsrRuleInfo, ASR_DOCS_URL } from '@/lib/asr-rules';
 import { PLATFORM_ICONS } from '@/components/PlatformIcons';
 import { settingSlug } from '@/lib/slug';
+import { buildDependencyGraph, hasDependencies } from '@/lib/dependency-graph';
 import Link from 'next/link';
 import type { Metadata } from 'next';
 
@@ -58,9 +61,12 @@ export default function SettingPage({ params }: SettingPageProps) {
   }
 
   const category = categories.find((c) => c.id === setting.categoryId);
+  const templates = loadTemplatesForSetting(setting.id);
+  const usages = getSettingUsages(setting.settingUsage);
   const childSettings = settings.filter(
     (s) => s.rootDefinitionId === setting.id && s.id !== setting.id
   );
+  const dependencyGraph = buildDependencyGraph(setting, loadSettingById);
 
   // Platform info
   const platform = setting.applicability?.platform;
@@ -120,12 +126,31 @@ export default function SettingPage({ params }: SettingPageProps) {
               {platformLabel}
             </span>
           )}
+          {usages.some((u) => u !== 'configuration') && (
+            <span className="inline-flex items-center gap-1 px-2.5 py-1 rounded-md text-fluent-xs font-medium bg-amber-50 text-amber-700 border border-amber-200">
+              {usages.map(getSettingUsageLabel).join(' · ')}
+            </span>
+          )}
         </div>
         {category && (
           <p className="text-fluent-base text-fluent-text-secondary mt-1">
             Category: {category.displayName}
           </p>
         )}
+        {templates.length > 0 && (
+          <p className="text-fluent-sm text-fluent-text-secondary mt-1">
+            Used in templates:{' '}
+            {templates.map((t, i) => (
+              <span key={t.id}>
+                {i > 0 && ', '}
+                <Link href={`/template/${encodeURIComponent(t.id)}/`} className="text-fluent-blue hover:underline" prefetch={false}>
+                  {t.displayName}
+                </Link>
+                <span className="text-fluent-xs"> ({getTemplateFamilyLabel(t.templateFamily)})</span>
+              </span>
+            ))}
+          </p>
+        )}
         {/* ASR Rule info on full page */}
         {(() => {
           const asrInfo = getAsrRuleInfo(setting.id);
@@ -190,7 +215,11 @@ export default function SettingPage({ params }: SettingPageProps) {
         </div>
       )}
 
+      {hasDependencies(dependencyGraph) && (
+        <DependencyGraph setting={{ id: setting.id, displayName: setting.displayName }} graph={dependencyGraph} />
+      )}
 
+      <SettingHistory settingId={setting.id} events={loadSettingHistory(setting.id)} baselineDate={BASELINE_DATE} />
     </div>
   );
 }
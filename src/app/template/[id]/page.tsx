@@ -0,0 +1,129 @@
+import { loadSettings, loadCategories, loadTemplates } from '@/lib/data';
+import SettingsList from '@/components/SettingsList';
+import { getPlatformLabel, getTemplateFamilyLabel } from '@/lib/types';
+import Link from 'next/link';
+import type { Metadata } from 'next';
+
+interface TemplatePageProps {
+  params: { id: string };
+}
+
+export async function generateStaticParams() {
+  const templates = loadTemplates();
+  return templates.map((t) => ({
+    id: t.id,
+  }));
+}
+
+export async function generateMetadata({ params }: TemplatePageProps): Promise<Metadata> {
+  const template = loadTemplates().find((t) => t.id === decodeURIComponent(params.id));
+
+  if (!template) {
+    return { title: 'Template Not Found' };
+  }
+
+  return {
+    title: `${template.displayName} — Intune Policy Template`,
+    description: template.description || `Settings used by the ${template.displayName} policy template`,
+  };
+}
+
+export default function TemplatePage({ params }: TemplatePageProps) {
+  const decodedId = decodeURIComponent(params.id);
+  const template = loadTemplates().find((t) => t.id === decodedId);
+
+  if (!template) {
+    return (
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 py-12 text-center">
+        <h1 className="text-fluent-2xl font-semibold text-fluent-text mb-2">
+          Template Not Found
+        </h1>
+        <p className="text-fluent-base text-fluent-text-secondary mb-6">
+          The template &ldquo;{decodedId}&rdquo; was not found.
+        </p>
+      </div>
+    );
+  }
+
+  const categories = loadCategories();
+  const categoryNameMap: Record<string, string> = {};
+  for (const c of categories) {
+    categoryNameMap[c.id] = c.displayName;
+  }
+
+  // Settings the template uses that are in the catalog; the rest are listed by ID
+  const usedIds = new Set(template.settingDefinitionIds);
+  const templateSettings = loadSettings().filter((s) => usedIds.has(s.id));
+  const knownIds = new Set(templateSettings.map((s) => s.id));
+  const unknownIds = template.settingDefinitionIds.filter((id) => !knownIds.has(id));
+
+  const details = [
+    getTemplateFamilyLabel(template.templateFamily),
+    template.platforms ? getPlatformLabel(template.platforms) : null,
+    template.displayVersion || `Version ${template.version}`,
+    template.lifecycleState && template.lifecycleState !== 'active' ? template.lifecycleState : null,
+  ].filter(Boolean);
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 sm:px-6 py-6">
+      {/* Breadcrumbs */}
+      <nav className="flex items-center gap-1 text-fluent-sm text-fluent-text-secondary mb-4 flex-wrap">
+        <Link href="/" className="hover:text-fluent-blue hover:underline">
+          Home
+        </Link>
+        <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M9 5l7 7-7 7" />
+        </svg>
+        <Link href="/template/" className="hover:text-fluent-blue hover:underline">
+          Templates
+        </Link>
+        <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M9 5l7 7-7 7" />
+        </svg>
+        <span className="text-fluent-text font-medium">{template.displayName}</span>
+      </nav>
+
+      {/* Template header */}
+      <div className="mb-4">
+        <h1 className="text-fluent-2xl font-semibold text-fluent-text">
+          {template.displayName}
+        </h1>
+        <p className="text-fluent-sm text-fluent-text-secondary mt-1">
+          {details.join(' · ')}
+        </p>
+        {template.description && (
+          <p className="text-fluent-base text-fluent-text-secondary mt-1">
+            {template.description}
+          </p>
+        )}
+      </div>
+
+      {/* Settings list */}
+      <div className="fluent-card">
+        <SettingsList
+          settings={templateSettings}
+          categoryName={template.displayName}
+          categoryMap={categoryNameMap}
+        />
+      </div>
+
+      {unknownIds.length > 0 && (
+        <div className="fluent-card p-4 mt-4">
+          <h2 className="text-fluent-base font-semibold text-fluent-text mb-1">
+            Not in the settings catalog ({unknownIds.length})
+          </h2>
+          <p className="text-fluent-sm text-fluent-text-secondary mb-2">
+            Setting definitions this template references that the catalog does not list.
+          </p>
+          <ul className="space-y-1">
+            {unknownIds.map((id) => (
+              <li key={id} className="font-mono text-fluent-xs text-fluent-text-secondary break-all">
+                {id}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
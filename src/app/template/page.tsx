@@ -0,0 +1,69 @@
+import { loadTemplates } from '@/lib/data';
+import { getPlatformLabel, getTemplateFamilyLabel } from '@/lib/types';
+import Link from 'next/link';
+import type { Metadata } from 'next';
+
+export const metadata: Metadata = {
+  title: 'Policy Templates — Intune Settings Catalog Viewer',
+  description: 'Intune configuration policy templates and the settings catalog entries they use.',
+};
+
+export default function TemplatesPage() {
+  const templates = [...loadTemplates()].sort((a, b) => a.displayName.localeCompare(b.displayName));
+
+  // Group by family label, e.g. all endpoint security antivirus templates together
+  const groups = new Map<string, typeof templates>();
+  for (const t of templates) {
+    const label = getTemplateFamilyLabel(t.templateFamily);
+    groups.set(label, [...(groups.get(label) ?? []), t]);
+  }
+  const families = [...groups.keys()].sort((a, b) => a.localeCompare(b));
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 py-6">
+      <div className="mb-6">
+        <h1 className="text-fluent-2xl font-semibold text-fluent-text">
+          Policy Templates
+        </h1>
+        <p className="text-fluent-base text-fluent-text-secondary mt-1">
+          Endpoint security policies and security baselines are built from templates. Each template lists the
+          settings catalog entries it uses.
+        </p>
+      </div>
+
+      {templates.length === 0 ? (
+        <div className="fluent-card p-8 text-center text-fluent-text-secondary">
+          No template data available yet.
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {families.map((family) => (
+            <section key={family}>
+              <h2 className="text-fluent-lg font-semibold text-fluent-text mb-2">{family}</h2>
+              <ul className="fluent-card divide-y divide-fluent-border">
+                {groups.get(family)!.map((t) => (
+                  <li key={t.id} className="px-4 py-3">
+                    <Link
+                      href={`/template/${encodeURIComponent(t.id)}/`}
+                      className="text-fluent-base font-medium text-fluent-blue hover:underline"
+                      prefetch={false}
+                    >
+                      {t.displayName}
+                    </Link>
+                    <p className="text-fluent-sm text-fluent-text-secondary mt-0.5">
+                      {[
+                        t.platforms ? getPlatformLabel(t.platforms) : null,
+                        t.displayVersion || `Version ${t.version}`,
+                        `${t.settingDefinitionIds.length} setting${t.settingDefinitionIds.length === 1 ? '' : 's'}`,
+                      ].filter(Boolean).join(' · ')}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+'use client';
+
+import Link from 'next/link';
+import type { SettingDefinition } from '@/lib/types';
+import { isConfigurable } from '@/lib/policy-builder';
+import { usePolicyCart, addToPolicyCart, removeFromPolicyCart } from '@/lib/policy-cart';
+
+/** Add / remove a setting from the policy cart. Child settings add their root
+ *  setting, since only root definitions can sit at the top of a policy. */
+export default function AddToPolicyButton({ setting }: { setting: SettingDefinition }) {
+  const cart = usePolicyCart();
+  if (!isConfigurable(setting)) return null;
+
+  const targetId = setting.rootDefinitionId || setting.id;
+  const isChild = targetId !== setting.id;
+  const inCart = cart.items.some((i) => i.definitionId === targetId);
+
+  return (
+    <span className="inline-flex items-center gap-2">
+      <button
+        type="button"
+        onClick={(e) => {
+          e.stopPropagation();
+          if (inCart) removeFromPolicyCart(targetId);
+          else addToPolicyCart(targetId);
+        }}
+        className={`inline-flex items-center gap-1 px-2.5 py-1 rounded-md text-fluent-xs font-medium border transition-colors ${
+          inCart
+            ? 'bg-fluent-light-blue text-fluent-blue border-fluent-blue/40 hover:bg-white'
+            : 'bg-white text-fluent-text border-fluent-border-strong hover:bg-fluent-bg-alt'
+        }`}
+        title={isChild ? 'Adds the parent setting, which carries this child' : undefined}
+      >
+        {inCart ? (
+          <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" />
+          </svg>
+        ) : (
+          <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M12 4v16m8-8H4" />
+          </svg>
+        )}
+        {inCart ? 'In policy' : isChild ? 'Add parent to policy' : 'Add to policy'}
+      </button>
+      {cart.items.length > 0 && (
+        <Link
+          href="/policy-builder/"
+          prefetch={false}
+          onClick={(e) => e.stopPropagation()}
+          className="text-fluent-xs text-fluent-blue hover:underline"
+        >
+          Open policy builder ({cart.items.length})
+        </Link>
+      )}
+    </span>
+  );
+}
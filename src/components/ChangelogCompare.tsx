@@ -0,0 +1,124 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import type { ChangelogEntry } from '@/lib/types';
+import { ChangelogEntryChanges, hasVisibleChanges } from './ChangelogViewer';
+import { mergeChangelogRange, entriesInRange, changelogRangeToMarkdown } from '@/lib/changelog-range';
+import { downloadFile } from '@/lib/download';
+
+interface ChangelogCompareProps {
+  entries: ChangelogEntry[];
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Net changes between two dates, merged from the daily entries; range kept in ?from=&to= */
+export default function ChangelogCompare({ entries }: ChangelogCompareProps) {
+  // Entries are newest first
+  const newest = entries[0]?.date ?? '';
+  const oldest = entries[entries.length - 1]?.date ?? '';
+  const [from, setFrom] = useState(oldest);
+  const [to, setTo] = useState(newest);
+
+  // ── URL sync ──
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const f = params.get('from') ?? '';
+    const t = params.get('to') ?? '';
+    if (ISO_DATE.test(f)) setFrom(f);
+    if (ISO_DATE.test(t)) setTo(t);
+  }, []);
+
+  useEffect(() => {
+    if (!from || !to) return;
+    const url = `${window.location.pathname}?from=${from}&to=${to}`;
+    window.history.replaceState(null, '', url);
+  }, [from, to]);
+
+  // A reversed range is read as the same range
+  const [start, end] = from <= to ? [from, to] : [to, from];
+  const entryCount = useMemo(() => entriesInRange(entries, start, end).length, [entries, start, end]);
+  const merged = useMemo(() => mergeChangelogRange(entries, start, end), [entries, start, end]);
+
+  const exportMarkdown = () => {
+    const markdown = changelogRangeToMarkdown(merged, { from: start, to: end, siteUrl: window.location.origin, entryCount });
+    downloadFile(`settings-catalog-changes-${start}-to-${end}.md`, markdown, 'text/markdown;charset=utf-8');
+  };
+
+  if (entries.length === 0) {
+    return <p className="text-fluent-base text-fluent-text-secondary">No changelog entries to compare yet.</p>;
+  }
+
+  const renamedCount = merged.renamed?.length ?? 0;
+  const categoryCount =
+    (merged.categoriesAdded?.length ?? 0) + (merged.categoriesRemoved?.length ?? 0) + (merged.categoriesChanged?.length ?? 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="fluent-card px-4 py-3 flex flex-wrap items-end gap-4">
+        <label className="flex flex-col gap-1 text-fluent-sm text-fluent-text-secondary">
+          From
+          <input
+            type="date"
+            value={from}
+            min={oldest}
+            max={newest}
+            onChange={(e) => e.target.value && setFrom(e.target.value)}
+            className="px-2 py-1 rounded border border-fluent-border bg-white text-fluent-text text-fluent-sm focus:outline-none focus:border-fluent-blue"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-fluent-sm text-fluent-text-secondary">
+          To
+          <input
+            type="date"
+            value={to}
+            min={oldest}
+            max={newest}
+            onChange={(e) => e.target.value && setTo(e.target.value)}
+            className="px-2 py-1 rounded border border-fluent-border bg-white text-fluent-text text-fluent-sm focus:outline-none focus:border-fluent-blue"
+          />
+        </label>
+        <p className="text-fluent-sm text-fluent-text-secondary pb-1">
+          {entryCount} changelog {entryCount === 1 ? 'entry' : 'entries'} merged
+        </p>
+        <button
+          type="button"
+          onClick={exportMarkdown}
+          disabled={entryCount === 0}
+          className="ml-auto px-3 py-1.5 rounded bg-fluent-blue text-white text-fluent-sm font-medium hover:bg-fluent-blue-hover disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Export Markdown
+        </button>
+      </div>
+
+      <p className="text-fluent-sm text-fluent-text-secondary">
+        Net change from {start} through {end}: settings added and removed again within the range are left out, and
+        repeated edits to a field show the first old and the last new value.
+      </p>
+
+      {hasVisibleChanges(merged) ? (
+        <div className="fluent-card">
+          <div className="flex flex-wrap items-center gap-2 px-4 py-3 text-fluent-xs">
+            <span className="text-fluent-base font-semibold mr-auto">{start} → {end}</span>
+            <span className="text-fluent-success bg-fluent-success/10 rounded-full px-2 py-0.5 font-medium">+{merged.added.length}</span>
+            <span className="text-fluent-error bg-fluent-error/10 rounded-full px-2 py-0.5 font-medium">−{merged.removed.length}</span>
+            <span className="text-fluent-warning bg-fluent-warning/10 rounded-full px-2 py-0.5 font-medium">~{merged.changed.length}</span>
+            {renamedCount > 0 && (
+              <span className="text-fluent-blue bg-fluent-blue/10 rounded-full px-2 py-0.5 font-medium">↷{renamedCount}</span>
+            )}
+            {categoryCount > 0 && (
+              <span className="text-fluent-text-secondary border border-fluent-border rounded px-1">{categoryCount} cat</span>
+            )}
+          </div>
+          <div className="border-t border-fluent-border">
+            <ChangelogEntryChanges entry={merged} />
+          </div>
+        </div>
+      ) : (
+        <p className="text-fluent-base text-fluent-text-secondary py-8 text-center">
+          No net changes between these dates.
+        </p>
+      )}
+    </div>
+  );
+}
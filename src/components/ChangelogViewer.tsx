@@ -1,18 +1,35 @@
 'use client';
 
-import { useState, useMemo } from 'react';
-import type { ChangelogEntry } from '@/lib/types';
-import { PLATFORM_ICONS } from './PlatformIcons';
+import { useState, useMemo, useEffect, useRef } from 'react';
+import { useVirtualizer } from '@tanstack/react-virtual';
+import type { ChangelogEntry, ChangelogFieldChange } from '@/lib/types';
+import DiffBlock, { PlatformBadges } from './DiffBlock';
+import PlatformFilter from './PlatformFilter';
 import { settingSlug } from '@/lib/slug';
+import { CHANGE_KIND_LABELS, getChangeKind } from '@/lib/changelog-kinds';
+import type { ChangeKind } from '@/lib/changelog-kinds';
+import { withoutVersionChanges } from '@/lib/changelog-range';
+import { filterChangelogEntry, hasChangelogFilters } from '@/lib/changelog-filter';
+import type { ChangelogCategoryIndex } from '@/lib/changelog-filter';
+import { FILTER_TYPES, parseChangelogUrl, buildChangelogUrl } from '@/lib/changelog-url';
+import type { FilterType, ChangelogUrlState } from '@/lib/changelog-url';
 
 interface ChangelogViewerProps {
   entries: ChangelogEntry[];
+  /** Category picker rows and category paths (buildChangelogCategoryIndex) */
+  categoryIndex?: ChangelogCategoryIndex;
 }
 
-type FilterType = 'all' | 'added' | 'removed' | 'changed';
+const EMPTY_CATEGORY_INDEX: ChangelogCategoryIndex = { options: [], paths: {} };
 
-export default function ChangelogViewer({ entries }: ChangelogViewerProps) {
+export default function ChangelogViewer({ entries, categoryIndex = EMPTY_CATEGORY_INDEX }: ChangelogViewerProps) {
   const [filter, setFilter] = useState<FilterType>('all');
+  const [changeKind, setChangeKind] = useState<ChangeKind | 'all'>('all');
+  const [query, setQuery] = useState('');
+  const [platforms, setPlatforms] = useState<string[]>([]);
+  const [categoryId, setCategoryId] = useState<string | null>(null);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
   const [expandedDates, setExpandedDates] = useState<Set<string>>(
     new Set(entries.slice(0, 3).map((e) => e.date))
   );
@@ -26,14 +43,94 @@ export default function ChangelogViewer({ entries }: ChangelogViewerProps) {
     });
   };
 
+  // ── URL sync ──
+  // Filters are read from the query string on load and on back/forward, and
+  // written back on change; typing in the text filter replaces the history
+  // entry instead of pushing one per keystroke.
+  const [urlReady, setUrlReady] = useState(false);
+  const lastUrlStateRef = useRef<ChangelogUrlState | null>(null);
+
+  useEffect(() => {
+    const apply = () => {
+      const state = parseChangelogUrl(window.location.search);
+      setQuery(state.query);
+      setPlatforms(state.platforms);
+      setCategoryId(state.categoryId);
+      setFrom(state.from);
+      setTo(state.to);
+      setFilter(state.filter);
+      setChangeKind(state.changeKind);
+      lastUrlStateRef.current = state;
+    };
+    apply();
+    setUrlReady(true);
+    window.addEventListener('popstate', apply);
+    return () => window.removeEventListener('popstate', apply);
+  }, []);
+
+  useEffect(() => {
+    if (!urlReady) return;
+    const state: ChangelogUrlState = { query, platforms, categoryId, from, to, filter, changeKind };
+    const search = buildChangelogUrl(state);
+    if (search === window.location.search) return;
+    const prev = lastUrlStateRef.current;
+    const onlyQueryChanged = prev !== null && buildChangelogUrl({ ...prev, query }) === search;
+    const url = `${window.location.pathname}${search}${window.location.hash}`;
+    if (onlyQueryChanged) window.history.replaceState(null, '', url);
+    else window.history.pushState(null, '', url);
+    lastUrlStateRef.current = state;
+  }, [urlReady, query, platforms, categoryId, from, to, filter, changeKind]);
+
   // Summary stats
   // Strip version-only noise: remove `version` field diffs and drop entries with no remaining fields
-  const cleanedEntries = useMemo(() => entries.map((e) => ({
-    ...e,
-    changed: e.changed
-      .map((c) => ({ ...c, fields: c.fields.filter((f) => f.field !== 'version') }))
-      .filter((c) => c.fields.length > 0),
-  })), [entries]);
+  const cleanedEntries = useMemo(() => entries.map(withoutVersionChanges), [entries]);
+
+  // Date range, then text / platform / category filters within each entry
+  const filteredEntries = useMemo(() => {
+    const filters = { query, platforms, categoryId };
+    return cleanedEntries
+      .filter((e) => (!from || e.date >= from) && (!to || e.date <= to))
+      .map((e) => filterChangelogEntry(e, filters, categoryIndex.paths));
+  }, [cleanedEntries, query, platforms, categoryId, from, to, categoryIndex]);
+
+  const hasEntryFilters = hasChangelogFilters({ query, platforms, categoryId }) || !!from || !!to;
+
+  // Open every entry that still has matches once the entry filters narrow the list
+  useEffect(() => {
+    if (!hasEntryFilters) return;
+    setExpandedDates(new Set(filteredEntries.filter((e) => hasVisibleChanges(e)).map((e) => e.date)));
+  }, [filteredEntries, hasEntryFilters]);
+  const clearEntryFilters = () => {
+    setQuery('');
+    setPlatforms([]);
+    setCategoryId(null);
+    setFrom('');
+    setTo('');
+  };
+
+  // Narrow to one kind of field change: only matching fields are kept, and
+  // additions / removals (which have no fields) drop out
+  const visibleEntries = useMemo(() => {
+    if (changeKind === 'all') return filteredEntries;
+    const keep = (fields: ChangelogFieldChange[]) => fields.filter((f) => getChangeKind(f.field) === changeKind);
+    return filteredEntries.map((e) => ({
+      ...e,
+      added: [],
+      removed: [],
+      categoriesAdded: [],
+      categoriesRemoved: [],
+      changed: e.changed
+        .map((c) => ({ ...c, fields: keep(c.fields) }))
+        .filter((c) => c.fields.length > 0),
+      // Every rename is an ID (location) change
+      renamed: e.renamed
+        ?.map((r) => ({ ...r, fields: keep(r.fields) }))
+        .filter((r) => r.fields.length > 0 || changeKind === 'location'),
+      categoriesChanged: e.categoriesChanged
+        ?.map((c) => ({ ...c, fields: keep(c.fields) }))
+        .filter((c) => c.fields.length > 0),
+    }));
+  }, [filteredEntries, changeKind]);
 
   const stats = useMemo(() => {
     let totalAdded = 0;
@@ -55,6 +152,7 @@ export default function ChangelogViewer({ entries }: ChangelogViewerProps) {
     const lastEntry = cleanedEntries.find(
       (e) =>
         e.added.length > 0 || e.removed.length > 0 || e.changed.length > 0 ||
+        (e.renamed?.length ?? 0) > 0 ||
         (e.categoriesAdded?.length ?? 0) > 0 ||
         (e.categoriesRemoved?.length ?? 0) > 0 ||
         (e.categoriesChanged?.length ?? 0) > 0
@@ -119,6 +217,10 @@ export default function ChangelogViewer({ entries }: ChangelogViewerProps) {
     );
   }
 
+  // Entries with nothing left are hidden once anything narrows the view
+  const isNarrowed = filter !== 'all' || changeKind !== 'all' || hasEntryFilters;
+  const shownEntries = visibleEntries.filter((e) => !isNarrowed || hasVisibleChanges(e, filter));
+
   return (
     <div>
       {/* Stats row */}
@@ -160,9 +262,73 @@ export default function ChangelogViewer({ entries }: ChangelogViewerProps) {
         />
       </div>
 
+      {/* Entry filters: text, platform, category subtree, date range */}
+      <div className="fluent-card px-4 py-3 mb-4 space-y-3">
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="relative flex-1 min-w-[220px]">
+            <svg className="absolute left-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-fluent-text-secondary" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+            </svg>
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Filter by setting name, ID or category…"
+              aria-label="Filter changelog by setting name, ID or category"
+              className="w-full pl-8 pr-3 py-1.5 rounded border border-fluent-border bg-white text-fluent-sm text-fluent-text focus:outline-none focus:border-fluent-blue"
+            />
+          </div>
+          {categoryIndex.options.length > 0 && (
+            <label className="inline-flex items-center gap-1.5 text-fluent-sm text-fluent-text-secondary">
+              Category
+              <select
+                value={categoryId ?? ''}
+                onChange={(e) => setCategoryId(e.target.value || null)}
+                className="max-w-[16rem] px-2 py-1 rounded border border-fluent-border bg-white text-fluent-sm text-fluent-text"
+              >
+                <option value="">All categories</option>
+                {categoryIndex.options.map((o) => (
+                  <option key={o.id} value={o.id}>
+                    {'\u00a0\u00a0'.repeat(o.depth)}{o.displayName}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <PlatformFilter selectedPlatforms={platforms} onPlatformsChange={setPlatforms} />
+          <div className="inline-flex items-center gap-1.5 text-fluent-sm text-fluent-text-secondary">
+            <span className="font-medium">Dates:</span>
+            <input
+              type="date"
+              value={from}
+              max={to || undefined}
+              onChange={(e) => setFrom(e.target.value)}
+              aria-label="From date"
+              className="px-2 py-1 rounded border border-fluent-border bg-white text-fluent-text text-fluent-sm focus:outline-none focus:border-fluent-blue"
+            />
+            <span>–</span>
+            <input
+              type="date"
+              value={to}
+              min={from || undefined}
+              onChange={(e) => setTo(e.target.value)}
+              aria-label="To date"
+              className="px-2 py-1 rounded border border-fluent-border bg-white text-fluent-text text-fluent-sm focus:outline-none focus:border-fluent-blue"
+            />
+          </div>
+          {hasEntryFilters && (
+            <button type="button" onClick={clearEntryFilters} className="ml-auto text-fluent-sm text-fluent-blue hover:underline">
+              Clear filters
+            </button>
+          )}
+        </div>
+      </div>
+
       {/* Filter tabs */}
-      <div className="flex items-center gap-2 mb-4 border-b border-fluent-border pb-3">
-        {(['all', 'added', 'removed', 'changed'] as FilterType[]).map((f) => (
+      <div className="flex flex-wrap items-center gap-2 mb-4 border-b border-fluent-border pb-3">
+        {FILTER_TYPES.map((f) => (
           <button
             key={f}
             onClick={() => setFilter(f)}
@@ -175,21 +341,30 @@ export default function ChangelogViewer({ entries }: ChangelogViewerProps) {
             {f}
           </button>
         ))}
+        <label className="ml-auto inline-flex items-center gap-1.5 text-fluent-sm text-fluent-text-secondary">
+          Field changes
+          <select
+            value={changeKind}
+            onChange={(e) => setChangeKind(e.target.value as ChangeKind | 'all')}
+            className="px-2 py-1 rounded border border-fluent-border bg-white text-fluent-sm text-fluent-text"
+          >
+            <option value="all">All kinds</option>
+            {(Object.keys(CHANGE_KIND_LABELS) as ChangeKind[]).map((k) => (
+              <option key={k} value={k}>{CHANGE_KIND_LABELS[k]}</option>
+            ))}
+          </select>
+        </label>
       </div>
 
       {/* Entries */}
+      {shownEntries.length === 0 && (
+        <p className="text-fluent-base text-fluent-text-secondary text-center py-12">
+          No changes match the current filters.
+        </p>
+      )}
       <div className="space-y-3">
-        {cleanedEntries.map((entry) => {
+        {shownEntries.map((entry) => {
           const isExpanded = expandedDates.has(entry.date);
-          const hasAdded = entry.added.length > 0 && (filter === 'all' || filter === 'added');
-          const hasRemoved = entry.removed.length > 0 && (filter === 'all' || filter === 'removed');
-          const hasChanged = entry.changed.length > 0 && (filter === 'all' || filter === 'changed');
-          const hasCatAdded = (entry.categoriesAdded?.length ?? 0) > 0 && (filter === 'all' || filter === 'added');
-          const hasCatRemoved = (entry.categoriesRemoved?.length ?? 0) > 0 && (filter === 'all' || filter === 'removed');
-          const hasCatChanged = (entry.categoriesChanged?.length ?? 0) > 0 && (filter === 'all' || filter === 'changed');
-          const hasContent = hasAdded || hasRemoved || hasChanged || hasCatAdded || hasCatRemoved || hasCatChanged;
-
-          if (!hasContent && filter !== 'all') return null;
 
           const dateStr = new Date(entry.date + 'T00:00:00').toLocaleDateString('en-US', {
             weekday: 'long',
@@ -199,7 +374,7 @@ export default function ChangelogViewer({ entries }: ChangelogViewerProps) {
           });
 
           return (
-            <div key={entry.date} className="fluent-card">
+            <div key={entry.date} id={entry.date} className="fluent-card scroll-mt-4">
               {/* Date header */}
               <button
                 onClick={() => toggleDate(entry.date)}
@@ -227,6 +402,9 @@ export default function ChangelogViewer({ entries }: ChangelogViewerProps) {
                   {entry.changed.length > 0 && (
                     <span className="inline-flex items-center gap-0.5 text-fluent-warning bg-fluent-warning/10 rounded-full px-2 py-0.5 font-medium">~{entry.changed.length}</span>
                   )}
+                  {(entry.renamed?.length ?? 0) > 0 && (
+                    <span className="inline-flex items-center gap-0.5 text-fluent-blue bg-fluent-blue/10 rounded-full px-2 py-0.5 font-medium">↷{entry.renamed!.length}</span>
+                  )}
                   {((entry.categoriesAdded?.length ?? 0) + (entry.categoriesRemoved?.length ?? 0) + (entry.categoriesChanged?.length ?? 0)) > 0 && (
                     <span className="text-fluent-text-secondary text-fluent-xs border border-fluent-border rounded px-1">
                       {(entry.categoriesAdded?.length ?? 0) + (entry.categoriesRemoved?.length ?? 0) + (entry.categoriesChanged?.length ?? 0)} cat
@@ -238,148 +416,285 @@ export default function ChangelogViewer({ entries }: ChangelogViewerProps) {
               {/* Content */}
               {isExpanded && (
                 <div className="border-t border-fluent-border">
-                  {/* Added */}
-                  {hasAdded && (
-                    <div className="px-4 py-3 border-l-2 border-l-fluent-success/30 ml-px">
-                      <h4 className="text-fluent-sm font-semibold text-fluent-success mb-2 flex items-center gap-1.5">
-                        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-                          <path strokeLinecap="round" strokeLinejoin="round" d="M12 4v16m8-8H4" />
-                        </svg>
-                        Added ({entry.added.length})
-                      </h4>
-                      <div className="space-y-1">
-                        {entry.added.map((s) => (
-                          <div key={s.id} className="flex items-start gap-2 text-fluent-sm py-0.5">
-                            <a
-                              href={`/setting/${encodeURIComponent(settingSlug(s.id))}/`}
-                              className="text-fluent-blue hover:underline"
-                            >
-                              {s.displayName}
-                            </a>
-                            <span className="ml-auto inline-flex items-center gap-1.5 shrink-0">
-                              {s.categoryName && (
-                                <span className="text-fluent-text-disabled text-fluent-xs bg-fluent-bg-alt rounded px-1.5 py-0.5">
-                                  {s.categoryName}
-                                </span>
-                              )}
-                              <PlatformBadges platform={s.platform} />
-                            </span>
-                          </div>
-                        ))}
-                      </div>
-                    </div>
-                  )}
+                  <div className="px-4 pt-2 text-right text-fluent-xs">
+                    <a href={`/changelog/${entry.date}/`} className="text-fluent-blue hover:underline">
+                      Release notes &amp; permalink →
+                    </a>
+                  </div>
+                  <ChangelogEntryChanges entry={entry} filter={filter} />
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
 
-                  {/* Removed */}
-                  {hasRemoved && (
-                    <div className="px-4 py-3 border-t border-fluent-border border-l-2 border-l-fluent-error/30 ml-px">
-                      <h4 className="text-fluent-sm font-semibold text-fluent-error mb-2 flex items-center gap-1.5">
-                        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-                          <path strokeLinecap="round" strokeLinejoin="round" d="M20 12H4" />
-                        </svg>
-                        Removed ({entry.removed.length})
-                      </h4>
-                      <div className="space-y-1">
-                        {entry.removed.map((s) => (
-                          <div key={s.id} className="flex items-start gap-2 text-fluent-sm py-0.5">
-                            <span className="text-fluent-text-secondary line-through">{s.displayName}</span>
-                            <span className="ml-auto inline-flex items-center gap-1.5 shrink-0">
-                              {s.categoryName && (
-                                <span className="text-fluent-text-disabled text-fluent-xs bg-fluent-bg-alt rounded px-1.5 py-0.5 no-underline">
-                                  {s.categoryName}
-                                </span>
-                              )}
-                              <PlatformBadges platform={s.platform} />
-                            </span>
-                          </div>
-                        ))}
-                      </div>
-                    </div>
-                  )}
+/** Whether an entry has anything to show under a filter tab */
+export function hasVisibleChanges(entry: ChangelogEntry, filter: FilterType = 'all'): boolean {
+  const { hasAdded, hasRemoved, hasChanged, hasRenamed, hasCatAdded, hasCatRemoved, hasCatChanged } = visibleSections(entry, filter);
+  return hasAdded || hasRemoved || hasChanged || hasRenamed || hasCatAdded || hasCatRemoved || hasCatChanged;
+}
 
-                  {/* Changed */}
-                  {hasChanged && (
-                    <div className="px-4 py-3 border-t border-fluent-border border-l-2 border-l-fluent-warning/30 ml-px">
-                      <h4 className="text-fluent-sm font-semibold text-fluent-warning mb-2 flex items-center gap-1.5">
-                        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-                          <path strokeLinecap="round" strokeLinejoin="round" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
-                        </svg>
-                        Changed ({entry.changed.length})
-                      </h4>
-                      <div className="space-y-3">
-                        {entry.changed.map((s) => (
-                          <DiffBlock
-                            key={s.id}
-                            title={s.displayName}
-                            href={`/setting/${encodeURIComponent(settingSlug(s.id))}/`}
-                            badge={s.categoryName}
-                            platform={s.platform}
-                            fields={s.fields}
-                          />
-                        ))}
-                      </div>
-                    </div>
-                  )}
-                  {/* Categories Added */}
-                  {hasCatAdded && (
-                    <div className="px-4 py-3 border-t border-fluent-border border-l-2 border-l-fluent-success/30 ml-px">
-                      <h4 className="text-fluent-sm font-semibold text-fluent-success mb-2 flex items-center gap-1.5">
-                        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-                          <path strokeLinecap="round" strokeLinejoin="round" d="M12 4v16m8-8H4" />
-                        </svg>
-                        Categories Added ({entry.categoriesAdded!.length})
-                      </h4>
-                      <div className="space-y-1">
-                        {entry.categoriesAdded!.map((c) => (
-                          <div key={c.id} className="text-fluent-sm text-fluent-text">
-                            {c.displayName}
-                          </div>
-                        ))}
-                      </div>
-                    </div>
-                  )}
+function visibleSections(entry: ChangelogEntry, filter: FilterType) {
+  return {
+    hasAdded: entry.added.length > 0 && (filter === 'all' || filter === 'added'),
+    hasRemoved: entry.removed.length > 0 && (filter === 'all' || filter === 'removed'),
+    hasChanged: entry.changed.length > 0 && (filter === 'all' || filter === 'changed'),
+    hasRenamed: (entry.renamed?.length ?? 0) > 0 && (filter === 'all' || filter === 'renamed'),
+    hasCatAdded: (entry.categoriesAdded?.length ?? 0) > 0 && (filter === 'all' || filter === 'added'),
+    hasCatRemoved: (entry.categoriesRemoved?.length ?? 0) > 0 && (filter === 'all' || filter === 'removed'),
+    hasCatChanged: (entry.categoriesChanged?.length ?? 0) > 0 && (filter === 'all' || filter === 'changed'),
+  };
+}
 
-                  {/* Categories Removed */}
-                  {hasCatRemoved && (
-                    <div className="px-4 py-3 border-t border-fluent-border border-l-2 border-l-fluent-error/30 ml-px">
-                      <h4 className="text-fluent-sm font-semibold text-fluent-error mb-2 flex items-center gap-1.5">
-                        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-                          <path strokeLinecap="round" strokeLinejoin="round" d="M20 12H4" />
-                        </svg>
-                        Categories Removed ({entry.categoriesRemoved!.length})
-                      </h4>
-                      <div className="space-y-1">
-                        {entry.categoriesRemoved!.map((c) => (
-                          <div key={c.id} className="text-fluent-sm text-fluent-text-secondary line-through">
-                            {c.displayName}
-                          </div>
-                        ))}
-                      </div>
-                    </div>
+/** The added / removed / changed / renamed sections of one changelog entry */
+export function ChangelogEntryChanges({ entry, filter = 'all' }: { entry: ChangelogEntry; filter?: FilterType }) {
+  const { hasAdded, hasRemoved, hasChanged, hasRenamed, hasCatAdded, hasCatRemoved, hasCatChanged } = visibleSections(entry, filter);
+  return (
+    <>
+      {/* Added */}
+      {hasAdded && (
+        <div className="px-4 py-3 border-l-2 border-l-fluent-success/30 ml-px">
+          <h4 className="text-fluent-sm font-semibold text-fluent-success mb-2 flex items-center gap-1.5">
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M12 4v16m8-8H4" />
+            </svg>
+            Added ({entry.added.length})
+          </h4>
+          <ChangeList
+            items={entry.added}
+            estimateSize={28}
+            gapClass="pb-1"
+            renderItem={(s) => (
+              <div className="flex items-start gap-2 text-fluent-sm py-0.5">
+                <a
+                  href={`/setting/${encodeURIComponent(settingSlug(s.id))}/`}
+                  className="text-fluent-blue hover:underline"
+                >
+                  {s.displayName}
+                </a>
+                <span className="ml-auto inline-flex items-center gap-1.5 shrink-0">
+                  {s.categoryName && (
+                    <span className="text-fluent-text-disabled text-fluent-xs bg-fluent-bg-alt rounded px-1.5 py-0.5">
+                      {s.categoryName}
+                    </span>
                   )}
+                  <PlatformBadges platform={s.platform} />
+                </span>
+              </div>
+            )}
+          />
+        </div>
+      )}
 
-                  {/* Categories Changed */}
-                  {hasCatChanged && (
-                    <div className="px-4 py-3 border-t border-fluent-border border-l-2 border-l-fluent-warning/30 ml-px">
-                      <h4 className="text-fluent-sm font-semibold text-fluent-warning mb-2 flex items-center gap-1.5">
-                        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-                          <path strokeLinecap="round" strokeLinejoin="round" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
-                        </svg>
-                        Categories Changed ({entry.categoriesChanged!.length})
-                      </h4>
-                      <div className="space-y-3">
-                        {entry.categoriesChanged!.map((c) => (
-                          <DiffBlock
-                            key={c.id}
-                            title={c.displayName}
-                            fields={c.fields}
-                          />
-                        ))}
-                      </div>
-                    </div>
+      {/* Removed */}
+      {hasRemoved && (
+        <div className="px-4 py-3 border-t border-fluent-border border-l-2 border-l-fluent-error/30 ml-px">
+          <h4 className="text-fluent-sm font-semibold text-fluent-error mb-2 flex items-center gap-1.5">
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M20 12H4" />
+            </svg>
+            Removed ({entry.removed.length})
+          </h4>
+          <ChangeList
+            items={entry.removed}
+            estimateSize={28}
+            gapClass="pb-1"
+            renderItem={(s) => (
+              <div className="flex items-start gap-2 text-fluent-sm py-0.5">
+                <span className="text-fluent-text-secondary line-through">{s.displayName}</span>
+                <span className="ml-auto inline-flex items-center gap-1.5 shrink-0">
+                  {s.categoryName && (
+                    <span className="text-fluent-text-disabled text-fluent-xs bg-fluent-bg-alt rounded px-1.5 py-0.5 no-underline">
+                      {s.categoryName}
+                    </span>
                   )}
-                </div>
-              )}
+                  <PlatformBadges platform={s.platform} />
+                </span>
+              </div>
+            )}
+          />
+        </div>
+      )}
+
+      {/* Changed */}
+      {hasChanged && (
+        <div className="px-4 py-3 border-t border-fluent-border border-l-2 border-l-fluent-warning/30 ml-px">
+          <h4 className="text-fluent-sm font-semibold text-fluent-warning mb-2 flex items-center gap-1.5">
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+            </svg>
+            Changed ({entry.changed.length})
+          </h4>
+          <ChangeList
+            items={entry.changed}
+            estimateSize={140}
+            gapClass="pb-3"
+            renderItem={(s) => (
+              <DiffBlock
+                title={s.displayName}
+                href={`/setting/${encodeURIComponent(settingSlug(s.id))}/`}
+                badge={s.categoryName}
+                platform={s.platform}
+                fields={s.fields}
+              />
+            )}
+          />
+        </div>
+      )}
+
+      {/* Renamed / superseded */}
+      {hasRenamed && (
+        <div className="px-4 py-3 border-t border-fluent-border border-l-2 border-l-fluent-blue/30 ml-px">
+          <h4 className="text-fluent-sm font-semibold text-fluent-blue mb-2 flex items-center gap-1.5">
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+            </svg>
+            Renamed / superseded ({entry.renamed!.length})
+          </h4>
+          <ChangeList
+            items={entry.renamed!}
+            estimateSize={160}
+            gapClass="pb-3"
+            renderItem={(r) => (
+              <DiffBlock
+                title={r.displayName}
+                href={`/setting/${encodeURIComponent(settingSlug(r.id))}/`}
+                badge={`${r.kind === 'renamed' ? 'Renamed' : 'Superseded'} · ${Math.round(r.confidence * 100)}% (${r.matchedOn.join(', ')})`}
+                platform={r.platform}
+                fields={[
+                  { field: 'id', oldValue: r.oldId, newValue: r.id },
+                  ...r.fields,
+                ]}
+              />
+            )}
+          />
+        </div>
+      )}
+
+      {/* Categories Added */}
+      {hasCatAdded && (
+        <div className="px-4 py-3 border-t border-fluent-border border-l-2 border-l-fluent-success/30 ml-px">
+          <h4 className="text-fluent-sm font-semibold text-fluent-success mb-2 flex items-center gap-1.5">
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M12 4v16m8-8H4" />
+            </svg>
+            Categories Added ({entry.categoriesAdded!.length})
+          </h4>
+          <div className="space-y-1">
+            {entry.categoriesAdded!.map((c) => (
+              <div key={c.id} className="text-fluent-sm text-fluent-text">
+                {c.displayName}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Categories Removed */}
+      {hasCatRemoved && (
+        <div className="px-4 py-3 border-t border-fluent-border border-l-2 border-l-fluent-error/30 ml-px">
+          <h4 className="text-fluent-sm font-semibold text-fluent-error mb-2 flex items-center gap-1.5">
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M20 12H4" />
+            </svg>
+            Categories Removed ({entry.categoriesRemoved!.length})
+          </h4>
+          <div className="space-y-1">
+            {entry.categoriesRemoved!.map((c) => (
+              <div key={c.id} className="text-fluent-sm text-fluent-text-secondary line-through">
+                {c.displayName}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Categories Changed */}
+      {hasCatChanged && (
+        <div className="px-4 py-3 border-t border-fluent-border border-l-2 border-l-fluent-warning/30 ml-px">
+          <h4 className="text-fluent-sm font-semibold text-fluent-warning mb-2 flex items-center gap-1.5">
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+            </svg>
+            Categories Changed ({entry.categoriesChanged!.length})
+          </h4>
+          <div className="space-y-3">
+            {entry.categoriesChanged!.map((c) => (
+              <DiffBlock
+                key={c.id}
+                title={c.displayName}
+                fields={c.fields}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
+
+/** Lists longer than this scroll inside a fixed-height, virtualised box */
+const VIRTUALIZE_AFTER = 50;
+
+/** A section's items; long ones (hundreds of ADMX settings in one refresh) are virtualised */
+function ChangeList<T extends { id: string }>({ items, renderItem, estimateSize, gapClass }: {
+  items: T[];
+  renderItem: (item: T) => React.ReactNode;
+  /** Estimated row height in px, before measurement */
+  estimateSize: number;
+  /** Spacing below each row */
+  gapClass: string;
+}) {
+  if (items.length > VIRTUALIZE_AFTER) {
+    return <VirtualChangeList items={items} renderItem={renderItem} estimateSize={estimateSize} gapClass={gapClass} />;
+  }
+  return (
+    <div>
+      {items.map((item) => (
+        <div key={item.id} className={gapClass}>{renderItem(item)}</div>
+      ))}
+    </div>
+  );
+}
+
+function VirtualChangeList<T extends { id: string }>({ items, renderItem, estimateSize, gapClass }: {
+  items: T[];
+  renderItem: (item: T) => React.ReactNode;
+  estimateSize: number;
+  gapClass: string;
+}) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const virtualizer = useVirtualizer({
+    count: items.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => estimateSize,
+    overscan: 10,
+  });
+
+  return (
+    <div ref={scrollRef} className="max-h-[32rem] overflow-y-auto pr-1">
+      <div style={{ height: `${virtualizer.getTotalSize()}px`, position: 'relative' }}>
+        {virtualizer.getVirtualItems().map((virtualRow) => {
+          const item = items[virtualRow.index];
+          return (
+            <div
+              key={item.id}
+              data-index={virtualRow.index}
+              ref={virtualizer.measureElement}
+              className={gapClass}
+              style={{
+                position: 'absolute',
+                top: 0,
+                left: 0,
+                width: '100%',
+                transform: `translateY(${virtualRow.start}px)`,
+              }}
+            >
+              {renderItem(item)}
             </div>
           );
         })}
@@ -407,128 +722,3 @@ function StatCard({ label, value, displayValue, subtitle, color }: {
     </div>
   );
 }
-
-/** Strip surrounding JSON quotes so values display cleanly */
-function cleanValue(s: string): string {
-  return s.replace(/^"|"$/g, '');
-}
-
-/** Platform key → display label (matches PlatformFilter) */
-const PLATFORM_LABELS: Record<string, string> = {
-  windows10: 'Windows',
-  macOS: 'macOS',
-  iOS: 'iOS/iPadOS',
-  android: 'Android',
-  linux: 'Linux',
-};
-
-/** Normalize a raw platform string to its canonical icon key */
-function normalizePlatformKey(p: string): string | null {
-  if (p === 'iOS') return 'iOS';
-  if (p === 'macOS') return 'macOS';
-  if (p.startsWith('windows')) return 'windows10';
-  if (p.startsWith('android') || p === 'aosp' || p === 'androidEnterprise') return 'android';
-  if (p === 'linux') return 'linux';
-  return null;
-}
-
-/** Render platform indicators from a comma-separated platform string — styled like the platform filter buttons */
-function PlatformBadges({ platform }: { platform?: string }) {
-  if (!platform) return null;
-  const platforms = platform.split(',').map((p) => p.trim()).filter(Boolean);
-  if (platforms.length === 0) return null;
-
-  // Deduplicate by normalized key
-  const seen = new Set<string>();
-  const unique: Array<{ key: string; label: string }> = [];
-  for (const p of platforms) {
-    const key = normalizePlatformKey(p);
-    if (key && !seen.has(key)) {
-      seen.add(key);
-      unique.push({ key, label: PLATFORM_LABELS[key] ?? p });
-    } else if (!key) {
-      unique.push({ key: p, label: p });
-    }
-  }
-
-  return (
-    <span className="inline-flex items-center gap-1 shrink-0">
-      {unique.map(({ key, label }) => {
-        const Icon = PLATFORM_ICONS[key];
-        return (
-          <span
-            key={key}
-            className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded border border-fluent-border bg-white text-fluent-text text-[11px] leading-tight font-medium"
-          >
-            {Icon && <Icon className="w-3.5 h-3.5" />}
-            {label}
-          </span>
-        );
-      })}
-    </span>
-  );
-}
-
-/** GitHub-style unified diff box for a single changed item */
-function DiffBlock({ title, href, badge, platform, fields }: {
-  title: string;
-  href?: string;
-  badge?: string;
-  platform?: string;
-  fields: Array<{ field: string; oldValue: string; newValue: string }>;
-}) {
-  return (
-    <div className="rounded-md border border-[#d0d7de] overflow-hidden text-fluent-sm">
-      {/* File header */}
-      <div className="flex items-center gap-2 px-3 py-2 bg-[#f6f8fa] border-b border-[#d0d7de]">
-        <svg className="w-4 h-4 text-[#656d76] shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
-          <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 14.25v-2.625a3.375 3.375 0 00-3.375-3.375h-1.5A1.125 1.125 0 0113.5 7.125v-1.5a3.375 3.375 0 00-3.375-3.375H8.25m0 12.75h7.5m-7.5 3H12M10.5 2.25H5.625c-.621 0-1.125.504-1.125 1.125v17.25c0 .621.504 1.125 1.125 1.125h12.75c.621 0 1.125-.504 1.125-1.125V11.25a9 9 0 00-9-9z" />
-        </svg>
-        {href ? (
-          <a href={href} className="font-semibold text-fluent-sm text-fluent-blue hover:underline truncate">
-            {title}
-          </a>
-        ) : (
-          <span className="font-semibold text-fluent-sm text-fluent-text truncate">{title}</span>
-        )}
-        <span className="shrink-0 ml-auto inline-flex items-center gap-1.5">
-          {badge && (
-            <span className="text-[11px] text-[#656d76] bg-[#ddf4ff] rounded-full px-2 py-0.5 font-medium">
-              {badge}
-            </span>
-          )}
-          <PlatformBadges platform={platform} />
-        </span>
-      </div>
-      {/* Diff lines */}
-      <div className="font-mono text-fluent-xs leading-[20px] divide-y divide-[#d0d7de]">
-        {fields.map((f, i) => (
-          <div key={i}>
-            {/* Hunk header — field name */}
-            <div className="px-3 py-1 bg-[#ddf4ff] text-[#0550ae] font-semibold select-none text-[11px]">
-              @@ {f.field} @@
-            </div>
-            {/* Removed line */}
-            <div className="flex bg-[#ffebe9]">
-              <span className="select-none shrink-0 w-8 text-center text-[#cf222e] bg-[#ffcecb]/40 border-r border-[#ffcecb]">
-                −
-              </span>
-              <span className="px-2 py-0.5 break-words whitespace-pre-wrap text-[#82071e] min-w-0 flex-1">
-                {cleanValue(f.oldValue)}
-              </span>
-            </div>
-            {/* Added line */}
-            <div className="flex bg-[#e6ffec]">
-              <span className="select-none shrink-0 w-8 text-center text-[#1a7f37] bg-[#aceebb]/40 border-r border-[#aceebb]">
-                +
-              </span>
-              <span className="px-2 py-0.5 break-words whitespace-pre-wrap text-[#116329] min-w-0 flex-1">
-                {cleanValue(f.newValue)}
-              </span>
-            </div>
-          </div>
-        ))}
-      </div>
-    </div>
-  );
-}
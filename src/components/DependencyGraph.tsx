@@ -0,0 +1,245 @@
+'use client';
+
+import { useState } from 'react';
+import type { DependencyGraph as Graph, DependencyGraphNode } from '@/lib/dependency-graph';
+import { settingSlug } from '@/lib/slug';
+
+interface DependencyGraphProps {
+  setting: { id: string; displayName: string };
+  graph: Graph;
+}
+
+// Layout in SVG units; one column each for parents/referred, the setting itself and dependents
+const NODE_W = 210;
+const NODE_H = 40;
+const ROW_GAP = 10;
+const COL_GAP = 150;
+const HEADER_H = 26;
+const GROUP_GAP = 16;
+/** Nodes per group before the "Show all" toggle */
+const MAX_VISIBLE = 10;
+
+const COLORS = {
+  required: '#0078d4',
+  optional: '#8a8886',
+  dimmed: 0.25,
+};
+
+type EdgeKind = 'parent' | 'dependent' | 'referred';
+
+interface PlacedNode {
+  node: DependencyGraphNode;
+  kind: EdgeKind;
+  x: number;
+  y: number;
+}
+
+interface Group {
+  title: string;
+  kind: EdgeKind;
+  nodes: DependencyGraphNode[];
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+function edgeLabel(node: DependencyGraphNode): string {
+  const parts = [...node.gatingOptions];
+  if (node.required) parts.push('required');
+  return parts.join(' · ');
+}
+
+/** Stack groups top to bottom in one column; returns the placed nodes and the column height */
+function placeColumn(groups: Group[], x: number, showAll: boolean) {
+  const placed: PlacedNode[] = [];
+  const headers: Array<{ title: string; y: number; hidden: number }> = [];
+  let y = 0;
+  for (const group of groups) {
+    if (group.nodes.length === 0) continue;
+    const visible = showAll ? group.nodes : group.nodes.slice(0, MAX_VISIBLE);
+    headers.push({ title: group.title, y, hidden: group.nodes.length - visible.length });
+    y += HEADER_H;
+    for (const node of visible) {
+      placed.push({ node, kind: group.kind, x, y });
+      y += NODE_H + ROW_GAP;
+    }
+    y += GROUP_GAP;
+  }
+  return { placed, headers, height: Math.max(0, y - GROUP_GAP - ROW_GAP) };
+}
+
+/** Navigable graph of a setting's parents, dependents (gated by an option or not) and referred settings */
+export default function DependencyGraph({ setting, graph }: DependencyGraphProps) {
+  const [hovered, setHovered] = useState<string | null>(null);
+  const [showAll, setShowAll] = useState(false);
+
+  const hasLeft = graph.parents.length > 0 || graph.referred.length > 0;
+  const hasRight = graph.dependents.length > 0;
+  const midX = hasLeft ? NODE_W + COL_GAP : 0;
+  const rightX = midX + NODE_W + COL_GAP;
+
+  const left = placeColumn(
+    [
+      { title: 'Depends on', kind: 'parent', nodes: graph.parents },
+      { title: 'Refers to', kind: 'referred', nodes: graph.referred },
+    ],
+    0,
+    showAll,
+  );
+  const right = placeColumn([{ title: 'Depended on by', kind: 'dependent', nodes: graph.dependents }], rightX, showAll);
+
+  const height = Math.max(left.height, right.height, NODE_H) + 8;
+  const width = (hasRight ? rightX + NODE_W : midX + NODE_W) + 4;
+  const focusY = (height - NODE_H) / 2;
+  const truncated = [...left.headers, ...right.headers].some((h) => h.hidden > 0);
+
+  const nodes = [...left.placed, ...right.placed];
+  const isDimmed = (id: string) => hovered !== null && hovered !== id;
+
+  const edgePath = (n: PlacedNode) => {
+    // Parents point at the setting; the setting points at dependents and referred settings
+    const [x1, y1, x2, y2] =
+      n.kind === 'parent'
+        ? [n.x + NODE_W, n.y + NODE_H / 2, midX, focusY + NODE_H / 2]
+        : n.kind === 'dependent'
+          ? [midX + NODE_W, focusY + NODE_H / 2, n.x, n.y + NODE_H / 2]
+          : [midX, focusY + NODE_H / 2, n.x + NODE_W, n.y + NODE_H / 2];
+    const mx = (x1 + x2) / 2;
+    return `M ${x1} ${y1} C ${mx} ${y1}, ${mx} ${y2}, ${x2} ${y2}`;
+  };
+
+  return (
+    <div className="mt-6">
+      <h2 className="text-fluent-lg font-semibold text-fluent-text mb-2">Dependencies</h2>
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-fluent-xs text-fluent-text-secondary mb-2">
+        <span className="inline-flex items-center gap-1.5">
+          <span className="inline-block w-5 border-t-2" style={{ borderColor: COLORS.required }} /> required
+        </span>
+        <span className="inline-flex items-center gap-1.5">
+          <span className="inline-block w-5 border-t-2" style={{ borderColor: COLORS.optional }} /> optional
+        </span>
+        <span className="inline-flex items-center gap-1.5">
+          <span className="inline-block w-5 border-t-2 border-dotted" style={{ borderColor: COLORS.optional }} /> referred
+        </span>
+        <span>Edge labels name the option that enables the dependent.</span>
+        {truncated && (
+          <button type="button" onClick={() => setShowAll(true)} className="ml-auto text-fluent-blue hover:underline">
+            Show all
+          </button>
+        )}
+      </div>
+
+      <div className="fluent-card p-4 overflow-x-auto">
+        <svg
+          width={width}
+          height={height}
+          viewBox={`0 0 ${width} ${height}`}
+          role="img"
+          aria-label={`Dependency graph for ${setting.displayName}`}
+          className="block mx-auto font-sans"
+        >
+          <defs>
+            <marker id="dep-arrow-required" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+              <path d="M 0 0 L 10 5 L 0 10 z" fill={COLORS.required} />
+            </marker>
+            <marker id="dep-arrow-optional" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+              <path d="M 0 0 L 10 5 L 0 10 z" fill={COLORS.optional} />
+            </marker>
+          </defs>
+
+          {/* Group headings */}
+          {[...left.headers.map((h) => ({ ...h, x: 0 })), ...right.headers.map((h) => ({ ...h, x: rightX }))].map((h) => (
+            <text key={`${h.x}-${h.title}`} x={h.x} y={h.y + 14} fontSize={12} fontWeight={600} fill="#605e5c">
+              {h.title}
+              {h.hidden > 0 && <tspan fontWeight={400}>{` (${MAX_VISIBLE} of ${MAX_VISIBLE + h.hidden})`}</tspan>}
+            </text>
+          ))}
+
+          {/* Edges */}
+          {nodes.map((n) => {
+            const color = n.node.required ? COLORS.required : COLORS.optional;
+            const label = edgeLabel(n.node);
+            // Labels sit next to the outer node, where edges don't overlap
+            const labelX = n.kind === 'dependent' ? n.x - 8 : n.x + NODE_W + 8;
+            return (
+              <g key={`edge-${n.kind}-${n.node.id}`} opacity={isDimmed(n.node.id) ? COLORS.dimmed : 1}>
+                <path
+                  d={edgePath(n)}
+                  fill="none"
+                  stroke={color}
+                  strokeWidth={hovered === n.node.id ? 2.5 : 1.5}
+                  strokeDasharray={n.kind === 'referred' ? '2 4' : undefined}
+                  markerEnd={`url(#dep-arrow-${n.node.required ? 'required' : 'optional'})`}
+                />
+                {label && (
+                  <text
+                    x={labelX}
+                    y={n.y + NODE_H / 2 - 5}
+                    fontSize={11}
+                    fill={color}
+                    textAnchor={n.kind === 'dependent' ? 'end' : 'start'}
+                  >
+                    <title>{label}</title>
+                    {truncate(label, 24)}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+
+          {/* The setting itself */}
+          <g>
+            <title>{setting.id}</title>
+            <rect x={midX} y={focusY} width={NODE_W} height={NODE_H} rx={6} fill="#0078d4" />
+            <text x={midX + 10} y={focusY + NODE_H / 2 + 4} fontSize={12} fontWeight={600} fill="#ffffff">
+              {truncate(setting.displayName, 30)}
+            </text>
+          </g>
+
+          {/* Neighbours; settings in the catalog link to their pages */}
+          {nodes.map((n) => {
+            const body = (
+              <>
+                <title>{`${n.node.displayName}\n${n.node.id}${n.node.inCatalog ? '' : '\n(not in the catalog)'}`}</title>
+                <rect
+                  x={n.x}
+                  y={n.y}
+                  width={NODE_W}
+                  height={NODE_H}
+                  rx={6}
+                  fill={hovered === n.node.id ? '#deecf9' : '#ffffff'}
+                  stroke={n.node.inCatalog ? '#8a8886' : '#a19f9d'}
+                  strokeDasharray={n.node.inCatalog ? undefined : '4 3'}
+                />
+                <text x={n.x + 10} y={n.y + 17} fontSize={12} fill={n.node.inCatalog ? '#0078d4' : '#a19f9d'}>
+                  {truncate(n.node.displayName, 30)}
+                </text>
+                <text x={n.x + 10} y={n.y + 31} fontSize={10} fill="#a19f9d" fontFamily="monospace">
+                  {truncate(n.node.id, 34)}
+                </text>
+              </>
+            );
+            const handlers = {
+              onMouseEnter: () => setHovered(n.node.id),
+              onMouseLeave: () => setHovered(null),
+              onFocus: () => setHovered(n.node.id),
+              onBlur: () => setHovered(null),
+            };
+            return (
+              <g key={`node-${n.kind}-${n.node.id}`} opacity={isDimmed(n.node.id) ? COLORS.dimmed + 0.25 : 1}>
+                {n.node.inCatalog ? (
+                  <a href={`/setting/${encodeURIComponent(settingSlug(n.node.id))}/`} {...handlers}>
+                    {body}
+                  </a>
+                ) : (
+                  <g {...handlers}>{body}</g>
+                )}
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+import type { ChangelogOptionChange } from '@/lib/types';
+import { PLATFORM_ICONS } from './PlatformIcons';
+
+/** Strip surrounding JSON quotes so values display cleanly */
+function cleanValue(s: string): string {
+  return s.replace(/^"|"$/g, '');
+}
+
+/** Platform key → display label (matches PlatformFilter) */
+const PLATFORM_LABELS: Record<string, string> = {
+  windows10: 'Windows',
+  macOS: 'macOS',
+  iOS: 'iOS/iPadOS',
+  android: 'Android',
+  linux: 'Linux',
+};
+
+/** Normalize a raw platform string to its canonical icon key */
+function normalizePlatformKey(p: string): string | null {
+  if (p === 'iOS') return 'iOS';
+  if (p === 'macOS') return 'macOS';
+  if (p.startsWith('windows')) return 'windows10';
+  if (p.startsWith('android') || p === 'aosp' || p === 'androidEnterprise') return 'android';
+  if (p === 'linux') return 'linux';
+  return null;
+}
+
+/** Render platform indicators from a comma-separated platform string — styled like the platform filter buttons */
+export function PlatformBadges({ platform }: { platform?: string }) {
+  if (!platform) return null;
+  const platforms = platform.split(',').map((p) => p.trim()).filter(Boolean);
+  if (platforms.length === 0) return null;
+
+  // Deduplicate by normalized key
+  const seen = new Set<string>();
+  const unique: Array<{ key: string; label: string }> = [];
+  for (const p of platforms) {
+    const key = normalizePlatformKey(p);
+    if (key && !seen.has(key)) {
+      seen.add(key);
+      unique.push({ key, label: PLATFORM_LABELS[key] ?? p });
+    } else if (!key) {
+      unique.push({ key: p, label: p });
+    }
+  }
+
+  return (
+    <span className="inline-flex items-center gap-1 shrink-0">
+      {unique.map(({ key, label }) => {
+        const Icon = PLATFORM_ICONS[key];
+        return (
+          <span
+            key={key}
+            className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded border border-fluent-border bg-white text-fluent-text text-[11px] leading-tight font-medium"
+          >
+            {Icon && <Icon className="w-3.5 h-3.5" />}
+            {label}
+          </span>
+        );
+      })}
+    </span>
+  );
+}
+
+/** One removed (−), added (+) or context ( ) line of a diff */
+function DiffLine({ sign, children }: { sign: '−' | '+' | ' '; children: React.ReactNode }) {
+  const style = {
+    '−': { row: 'bg-[#ffebe9]', gutter: 'text-[#cf222e] bg-[#ffcecb]/40 border-[#ffcecb]', text: 'text-[#82071e]' },
+    '+': { row: 'bg-[#e6ffec]', gutter: 'text-[#1a7f37] bg-[#aceebb]/40 border-[#aceebb]', text: 'text-[#116329]' },
+    ' ': { row: 'bg-white', gutter: 'text-[#656d76] border-[#d0d7de]', text: 'text-fluent-text' },
+  }[sign];
+  return (
+    <div className={`flex ${style.row}`}>
+      <span className={`select-none shrink-0 w-8 text-center border-r ${style.gutter}`}>
+        {sign}
+      </span>
+      <span className={`px-2 py-0.5 break-words whitespace-pre-wrap min-w-0 flex-1 ${style.text}`}>
+        {children}
+      </span>
+    </div>
+  );
+}
+
+/** Option sub-diff keyed by itemId: added / removed options, and per-property changes */
+function OptionDiffLines({ changes }: { changes: ChangelogOptionChange[] }) {
+  const itemId = (id: string) => <span className="opacity-60"> [{id}]</span>;
+  return (
+    <>
+      {changes.map((c) =>
+        c.kind === 'changed' ? (
+          <div key={c.itemId}>
+            <DiffLine sign=" ">{c.displayName}{itemId(c.itemId)}</DiffLine>
+            {c.fields?.map((f) => (
+              <div key={f.field}>
+                <DiffLine sign="−">  {f.field}: {f.oldValue}</DiffLine>
+                <DiffLine sign="+">  {f.field}: {f.newValue}</DiffLine>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <DiffLine key={c.itemId} sign={c.kind === 'added' ? '+' : '−'}>
+            {c.displayName}{itemId(c.itemId)}
+          </DiffLine>
+        )
+      )}
+    </>
+  );
+}
+
+/** GitHub-style unified diff box for a single changed item */
+export default function DiffBlock({ title, href, badge, platform, fields }: {
+  title: string;
+  href?: string;
+  badge?: string;
+  platform?: string;
+  /** Omit oldValue / newValue to render a one-sided (added / removed) hunk */
+  fields: Array<{ field: string; oldValue?: string; newValue?: string; summary?: string; optionChanges?: ChangelogOptionChange[] }>;
+}) {
+  return (
+    <div className="rounded-md border border-[#d0d7de] overflow-hidden text-fluent-sm">
+      {/* File header */}
+      <div className="flex items-center gap-2 px-3 py-2 bg-[#f6f8fa] border-b border-[#d0d7de]">
+        <svg className="w-4 h-4 text-[#656d76] shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 14.25v-2.625a3.375 3.375 0 00-3.375-3.375h-1.5A1.125 1.125 0 0113.5 7.125v-1.5a3.375 3.375 0 00-3.375-3.375H8.25m0 12.75h7.5m-7.5 3H12M10.5 2.25H5.625c-.621 0-1.125.504-1.125 1.125v17.25c0 .621.504 1.125 1.125 1.125h12.75c.621 0 1.125-.504 1.125-1.125V11.25a9 9 0 00-9-9z" />
+        </svg>
+        {href ? (
+          <a href={href} className="font-semibold text-fluent-sm text-fluent-blue hover:underline truncate">
+            {title}
+          </a>
+        ) : (
+          <span className="font-semibold text-fluent-sm text-fluent-text truncate">{title}</span>
+        )}
+        <span className="shrink-0 ml-auto inline-flex items-center gap-1.5">
+          {badge && (
+            <span className="text-[11px] text-[#656d76] bg-[#ddf4ff] rounded-full px-2 py-0.5 font-medium">
+              {badge}
+            </span>
+          )}
+          <PlatformBadges platform={platform} />
+        </span>
+      </div>
+      {/* Diff lines */}
+      <div className="font-mono text-fluent-xs leading-[20px] divide-y divide-[#d0d7de]">
+        {fields.map((f, i) => (
+          <div key={i}>
+            {/* Hunk header — field name and readable summary */}
+            <div className="px-3 py-1 bg-[#ddf4ff] text-[#0550ae] font-semibold select-none text-[11px]">
+              @@ {f.field} @@
+              {f.summary && <span className="ml-2 font-normal">{f.summary}</span>}
+            </div>
+            {f.optionChanges?.length ? (
+              <OptionDiffLines changes={f.optionChanges} />
+            ) : (
+              <>
+                {f.oldValue !== undefined && <DiffLine sign="−">{cleanValue(f.oldValue)}</DiffLine>}
+                {f.newValue !== undefined && <DiffLine sign="+">{cleanValue(f.newValue)}</DiffLine>}
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+'use client';
+
+import type { WindowsSku } from '@/lib/types';
+import { EDITION_FILTER_SKUS, WINDOWS_SKU_LABELS } from '@/lib/applicability';
+
+interface EditionFilterProps {
+  /** Selected Windows edition; empty for any */
+  selectedEdition: WindowsSku | '';
+  onEditionChange: (edition: WindowsSku | '') => void;
+  /** Keep unsupported settings in the list (flagged) instead of hiding them */
+  showUnsupported: boolean;
+  onShowUnsupportedChange: (show: boolean) => void;
+}
+
+/** Windows edition select; settings the edition doesn't support are hidden or flagged */
+export default function EditionFilter({
+  selectedEdition,
+  onEditionChange,
+  showUnsupported,
+  onShowUnsupportedChange,
+}: EditionFilterProps) {
+  return (
+    <div className="flex items-center gap-2 flex-wrap">
+      <label className="flex items-center gap-2">
+        <span className="text-fluent-sm text-fluent-text-secondary font-medium">Edition:</span>
+        <select
+          value={selectedEdition}
+          onChange={(e) => onEditionChange(e.target.value as WindowsSku | '')}
+          className={`px-2 py-1 rounded border bg-white text-fluent-text text-fluent-sm focus:outline-none focus:border-fluent-blue ${
+            selectedEdition ? 'border-fluent-blue' : 'border-fluent-border'
+          }`}
+        >
+          <option value="">Any edition</option>
+          {EDITION_FILTER_SKUS.map((sku) => (
+            <option key={sku} value={sku}>
+              Windows {WINDOWS_SKU_LABELS[sku]}
+            </option>
+          ))}
+        </select>
+      </label>
+      {selectedEdition && (
+        <label className="inline-flex items-center gap-1.5 text-fluent-sm text-fluent-text-secondary">
+          <input
+            type="checkbox"
+            checked={!showUnsupported}
+            onChange={(e) => onShowUnsupportedChange(!e.target.checked)}
+            className="accent-fluent-blue"
+          />
+          Hide unsupported
+        </label>
+      )}
+    </div>
+  );
+}
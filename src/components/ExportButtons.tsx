@@ -0,0 +1,39 @@
+'use client';
+
+import type { ExportFormat, SettingExportRow } from '@/lib/settings-export';
+import { downloadSettingsExport } from '@/lib/settings-export';
+
+interface ExportButtonsProps {
+  /** Rows are built on click, so large views cost nothing until exported */
+  getRows: () => SettingExportRow[];
+  /** File name without extension */
+  filename: string;
+  disabled?: boolean;
+}
+
+const FORMATS: Array<{ format: ExportFormat; label: string; title: string }> = [
+  { format: 'csv', label: 'CSV', title: 'Download as comma-separated values' },
+  { format: 'xlsx', label: 'XLSX', title: 'Download as an Excel workbook' },
+  { format: 'json', label: 'JSON', title: 'Download as JSON' },
+];
+
+/** Export the settings in the current view */
+export default function ExportButtons({ getRows, filename, disabled = false }: ExportButtonsProps) {
+  return (
+    <div className="flex items-center gap-1" role="group" aria-label="Export settings">
+      <span className="text-fluent-sm text-fluent-text-secondary mr-1">Export:</span>
+      {FORMATS.map((f) => (
+        <button
+          key={f.format}
+          type="button"
+          title={f.title}
+          disabled={disabled}
+          onClick={() => downloadSettingsExport(getRows(), f.format, filename)}
+          className="fluent-btn-secondary text-fluent-sm px-2 py-0.5 disabled:opacity-50"
+        >
+          {f.label}
+        </button>
+      ))}
+    </div>
+  );
+}
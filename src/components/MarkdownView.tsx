@@ -0,0 +1,94 @@
+import type { ReactNode } from 'react';
+
+/**
+ * Renders the small Markdown subset our generated documents use (release
+ * notes, range exports): #–### headings, "- " lists nested by two-space
+ * indents, paragraphs, and inline **bold**, `code`, [links](url) and
+ * backslash escapes. Anything else is shown as plain text.
+ */
+
+const INLINE = /\\([\\`*_[\]<>|])|`([^`]+)`|\*\*(.+?)\*\*|\[((?:\\.|[^\]\\])+)\]\(([^)\s]+)\)/g;
+
+function renderInline(text: string, keyPrefix = ''): ReactNode[] {
+  const nodes: ReactNode[] = [];
+  let last = 0;
+  let i = 0;
+  for (const m of text.matchAll(INLINE)) {
+    if (m.index! > last) nodes.push(text.slice(last, m.index));
+    const key = `${keyPrefix}${i++}`;
+    const [, escaped, code, bold, linkText, href] = m;
+    if (escaped !== undefined) nodes.push(escaped);
+    else if (code !== undefined) nodes.push(<code key={key} className="font-mono text-fluent-xs bg-fluent-bg-alt rounded px-1">{code}</code>);
+    else if (bold !== undefined) nodes.push(<strong key={key}>{renderInline(bold, `${key}-`)}</strong>);
+    else nodes.push(<a key={key} href={href} className="text-fluent-blue hover:underline">{renderInline(linkText, `${key}-`)}</a>);
+    last = m.index! + m[0].length;
+  }
+  if (last < text.length) nodes.push(text.slice(last));
+  return nodes;
+}
+
+interface ListItem {
+  text: string;
+  children: ListItem[];
+}
+
+function ListView({ items }: { items: ListItem[] }) {
+  return (
+    <ul className="list-disc pl-5 space-y-0.5">
+      {items.map((item, i) => (
+        <li key={i}>
+          {renderInline(item.text)}
+          {item.children.length > 0 && <ListView items={item.children} />}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/** Nest "- " lines by their two-space indent */
+function parseList(lines: string[]): ListItem[] {
+  const roots: ListItem[] = [];
+  const stack: Array<{ depth: number; item: ListItem }> = [];
+  for (const line of lines) {
+    const depth = Math.floor((line.length - line.trimStart().length) / 2);
+    const item: ListItem = { text: line.trimStart().slice(2), children: [] };
+    while (stack.length > 0 && stack[stack.length - 1].depth >= depth) stack.pop();
+    if (stack.length > 0) stack[stack.length - 1].item.children.push(item);
+    else roots.push(item);
+    stack.push({ depth, item });
+  }
+  return roots;
+}
+
+const HEADING_STYLES = [
+  'text-fluent-2xl font-semibold text-fluent-text',
+  'text-fluent-xl font-semibold text-fluent-text mt-6 pb-1 border-b border-fluent-border',
+  'text-fluent-lg font-semibold text-fluent-text mt-4',
+];
+
+export default function MarkdownView({ markdown }: { markdown: string }) {
+  const blocks: ReactNode[] = [];
+  const lines = markdown.split(/\r?\n/);
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    const heading = /^(#{1,3}) (.*)$/.exec(line);
+    if (heading) {
+      const level = heading[1].length;
+      const Tag = `h${level}` as 'h1' | 'h2' | 'h3';
+      blocks.push(<Tag key={i} className={HEADING_STYLES[level - 1]}>{renderInline(heading[2])}</Tag>);
+      i++;
+    } else if (/^\s*- /.test(line)) {
+      const start = i;
+      while (i < lines.length && /^\s*- /.test(lines[i])) i++;
+      blocks.push(<ListView key={start} items={parseList(lines.slice(start, i))} />);
+    } else if (line.trim()) {
+      const start = i;
+      while (i < lines.length && lines[i].trim() && !/^(#{1,3} |\s*- )/.test(lines[i])) i++;
+      blocks.push(<p key={start}>{renderInline(lines.slice(start, i).join(' '))}</p>);
+    } else {
+      i++;
+    }
+  }
+  return <div className="space-y-3 text-fluent-base text-fluent-text">{blocks}</div>;
+}
@@ -46,6 +46,30 @@ export default function MobileNav() {
             >
               Changelog
             </Link>
+            <Link
+              href="/template/"
+              onClick={() => setOpen(false)}
+              className="px-3 py-3 rounded-md text-white/80 hover:text-white hover:bg-white/10 transition-colors text-[15px]"
+              prefetch={false}
+            >
+              Templates
+            </Link>
+            <Link
+              href="/policy-builder/"
+              onClick={() => setOpen(false)}
+              className="px-3 py-3 rounded-md text-white/80 hover:text-white hover:bg-white/10 transition-colors text-[15px]"
+              prefetch={false}
+            >
+              Policy Builder
+            </Link>
+            <Link
+              href="/analyze-policy/"
+              onClick={() => setOpen(false)}
+              className="px-3 py-3 rounded-md text-white/80 hover:text-white hover:bg-white/10 transition-colors text-[15px]"
+              prefetch={false}
+            >
+              Analyze Policy
+            </Link>
             <Link
               href="/about/"
               onClick={() => setOpen(false)}
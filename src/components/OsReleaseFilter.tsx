@@ -0,0 +1,42 @@
+'use client';
+
+import { OS_RELEASES } from '@/lib/applicability';
+
+interface OsReleaseFilterProps {
+  /** OsRelease value; empty for any version */
+  selectedRelease: string;
+  onReleaseChange: (release: string) => void;
+}
+
+const GROUPS = [
+  { platform: 'windows10', label: 'Windows' },
+  { platform: 'macOS', label: 'macOS' },
+  { platform: 'iOS', label: 'iOS/iPadOS' },
+];
+
+/** "Available on" select: keeps settings whose supported version range includes the release */
+export default function OsReleaseFilter({ selectedRelease, onReleaseChange }: OsReleaseFilterProps) {
+  return (
+    <label className="flex items-center gap-2">
+      <span className="text-fluent-sm text-fluent-text-secondary font-medium">Available on:</span>
+      <select
+        value={selectedRelease}
+        onChange={(e) => onReleaseChange(e.target.value)}
+        className={`px-2 py-1 rounded border bg-white text-fluent-text text-fluent-sm focus:outline-none focus:border-fluent-blue ${
+          selectedRelease ? 'border-fluent-blue' : 'border-fluent-border'
+        }`}
+      >
+        <option value="">Any version</option>
+        {GROUPS.map((g) => (
+          <optgroup key={g.platform} label={g.label}>
+            {OS_RELEASES.filter((r) => r.platform === g.platform).map((r) => (
+              <option key={r.value} value={r.value}>
+                {r.label}
+              </option>
+            ))}
+          </optgroup>
+        ))}
+      </select>
+    </label>
+  );
+}
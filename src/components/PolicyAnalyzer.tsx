@@ -0,0 +1,168 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import type { SettingDefinition } from '@/lib/types';
+import { getPlatformLabel } from '@/lib/types';
+import { fetchBrowseSettings } from '@/lib/browse-data';
+import { settingSlug } from '@/lib/slug';
+import { getCspPath } from '@/lib/settings-grouping';
+import { buildBreadcrumb } from '@/lib/category-path';
+import { flattenInstances, resolvePolicySettings } from '@/lib/policy-import';
+import type { ImportedPolicy, ResolvedSettingValue } from '@/lib/policy-import';
+import PolicyFileInput from './PolicyFileInput';
+
+interface PolicyAnalyzerProps {
+  categoryMap: Record<string, string>;
+  categoryParentMap: Record<string, string>;
+}
+
+export default function PolicyAnalyzer({ categoryMap, categoryParentMap }: PolicyAnalyzerProps) {
+  const [defs, setDefs] = useState<Map<string, SettingDefinition> | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [policies, setPolicies] = useState<ImportedPolicy[]>([]);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  useEffect(() => {
+    fetchBrowseSettings()
+      .then((settings) => setDefs(new Map(settings.map((s) => [s.id, s]))))
+      .catch((err) => setLoadError(String(err)));
+  }, []);
+
+  const analyzed = useMemo(
+    () =>
+      defs
+        ? policies.map((policy) => ({ policy, rows: resolvePolicySettings(flattenInstances(policy.instances), defs) }))
+        : [],
+    [policies, defs]
+  );
+
+  if (loadError) {
+    return <p className="text-fluent-base text-fluent-error">{loadError}</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <PolicyFileInput
+        multiple
+        onLoad={(loaded, loadErrors) => {
+          setPolicies(loaded);
+          setErrors(loadErrors);
+        }}
+      />
+
+      {errors.length > 0 && (
+        <ul role="alert" className="fluent-card px-4 py-3 border-fluent-error/40 bg-red-50 text-fluent-sm text-fluent-error space-y-0.5">
+          {errors.map((e, i) => <li key={i}>{e}</li>)}
+        </ul>
+      )}
+
+      {!defs && policies.length > 0 && (
+        <div className="flex items-center gap-2 text-fluent-base text-fluent-text-secondary py-8">
+          <span className="w-4 h-4 border-2 border-fluent-blue border-t-transparent rounded-full animate-spin" />
+          Loading settings catalog…
+        </div>
+      )}
+
+      {analyzed.map(({ policy, rows }, i) => (
+        <PolicyReport
+          key={`${policy.source}-${i}`}
+          policy={policy}
+          rows={rows}
+          categoryMap={categoryMap}
+          categoryParentMap={categoryParentMap}
+        />
+      ))}
+    </div>
+  );
+}
+
+// ─── Report ───
+
+function PolicyReport({
+  policy,
+  rows,
+  categoryMap,
+  categoryParentMap,
+}: { policy: ImportedPolicy; rows: ResolvedSettingValue[] } & PolicyAnalyzerProps) {
+  const missing = rows.filter((r) => !r.definition).length;
+  const unknownOptions = rows.filter((r) => r.unknownOptionIds.length > 0).length;
+
+  return (
+    <div className="fluent-card">
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 px-4 py-2.5 border-b border-fluent-border bg-fluent-bg-alt">
+        <span className="text-fluent-base font-semibold text-fluent-text">{policy.name}</span>
+        {policy.platforms && (
+          <span className="text-fluent-xs text-fluent-text-secondary">{getPlatformLabel(policy.platforms)}</span>
+        )}
+        <span className="text-fluent-xs text-fluent-text-secondary">{policy.source}</span>
+        <span className="ml-auto text-fluent-sm text-fluent-text-secondary">
+          {rows.length} {rows.length === 1 ? 'setting' : 'settings'}
+          {missing > 0 && <span className="text-fluent-error"> · {missing} not in catalog</span>}
+          {unknownOptions > 0 && <span className="text-fluent-error"> · {unknownOptions} with unknown options</span>}
+        </span>
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="px-4 py-3 text-fluent-sm text-fluent-text-secondary">This policy has no settings.</p>
+      ) : (
+        <div className="divide-y divide-fluent-border">
+          {rows.map((row, i) => (
+            <ResolvedRow key={i} row={row} categoryMap={categoryMap} categoryParentMap={categoryParentMap} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ResolvedRow({ row, categoryMap, categoryParentMap }: { row: ResolvedSettingValue } & PolicyAnalyzerProps) {
+  const def = row.definition;
+  const cspPath = def ? getCspPath(def) : '';
+  const breadcrumb = def
+    ? [...buildBreadcrumb(def.categoryId, categoryMap, categoryParentMap), categoryMap[def.categoryId] || 'Unknown Category']
+    : [];
+
+  return (
+    <div className="px-4 py-2.5" style={{ paddingLeft: `${16 + row.depth * 20}px` }}>
+      <div className="flex flex-wrap items-baseline gap-x-2">
+        {def ? (
+          <Link
+            href={`/setting/${encodeURIComponent(settingSlug(def.id))}/`}
+            prefetch={false}
+            className="text-fluent-base font-medium text-fluent-blue hover:underline"
+          >
+            {def.displayName || def.name}
+          </Link>
+        ) : (
+          <>
+            <span className="text-fluent-base font-medium text-fluent-text font-mono break-all">{row.definitionId}</span>
+            <span className="scope-badge bg-red-50 text-fluent-error">Not in catalog</span>
+          </>
+        )}
+        {row.values.length > 0 && (
+          <span className="text-fluent-sm text-fluent-text">
+            ={' '}
+            {row.displayValues.map((v, i) => (
+              <span key={i}>
+                {i > 0 && ', '}
+                <span className={row.unknownOptionIds.includes(row.values[i]) ? 'text-fluent-error font-mono' : 'font-medium'}>
+                  {v || <em className="text-fluent-text-secondary">empty</em>}
+                </span>
+              </span>
+            ))}
+          </span>
+        )}
+      </div>
+      {breadcrumb.length > 0 && (
+        <div className="text-fluent-xs text-fluent-text-secondary mt-0.5">{breadcrumb.join(' › ')}</div>
+      )}
+      {cspPath && <div className="text-fluent-xs text-fluent-text-secondary font-mono break-all">{cspPath}</div>}
+      {row.unknownOptionIds.length > 0 && (
+        <div className="text-fluent-xs text-fluent-error mt-0.5">
+          Option not defined on this setting: {row.unknownOptionIds.join(', ')}
+        </div>
+      )}
+    </div>
+  );
+}
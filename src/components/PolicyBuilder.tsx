@@ -0,0 +1,411 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import type { SettingDefinition } from '@/lib/types';
+import { getPlatformLabel } from '@/lib/types';
+import { fetchBrowseSettings } from '@/lib/browse-data';
+import { settingSlug } from '@/lib/slug';
+import { downloadFile, safeFilename } from '@/lib/download';
+import {
+  getSettingKind,
+  getGroupChildIds,
+  validateSimpleValue,
+  validatePolicyDraft,
+  withDefaults,
+  buildPolicyPayload,
+} from '@/lib/policy-builder';
+import type { ConfiguredSetting } from '@/lib/policy-builder';
+import {
+  usePolicyCart,
+  updatePolicyCartItem,
+  removeFromPolicyCart,
+  setPolicyCartDetails,
+  clearPolicyCart,
+} from '@/lib/policy-cart';
+
+export default function PolicyBuilder() {
+  const cart = usePolicyCart();
+  const [defs, setDefs] = useState<Map<string, SettingDefinition> | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [copyState, setCopyState] = useState<'idle' | 'copied' | 'failed'>('idle');
+
+  useEffect(() => {
+    fetchBrowseSettings()
+      .then((settings) => setDefs(new Map(settings.map((s) => [s.id, s]))))
+      .catch((err) => setLoadError(String(err)));
+  }, []);
+
+  // Cart items are stored sparse; fill in catalog defaults for display/export
+  const items = useMemo(
+    () => (defs ? cart.items.map((i) => withDefaults(i, defs)) : []),
+    [cart.items, defs]
+  );
+  const draft = useMemo(() => ({ ...cart, items }), [cart, items]);
+  const issues = useMemo(() => (defs ? validatePolicyDraft(draft, defs) : []), [draft, defs]);
+  const payloadJson = useMemo(() => {
+    if (!defs || items.length === 0) return '';
+    try {
+      return JSON.stringify(buildPolicyPayload(draft, defs), null, 2);
+    } catch (err) {
+      return `// ${String(err)}`;
+    }
+  }, [draft, defs, items.length]);
+
+  const download = () => downloadFile(`${safeFilename(cart.name || 'policy')}.json`, payloadJson, 'application/json');
+
+  // Clipboard access fails outside secure contexts or when permission is denied
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(payloadJson);
+      setCopyState('copied');
+      setTimeout(() => setCopyState('idle'), 1500);
+    } catch (err) {
+      console.error('Copy failed:', err);
+      setCopyState('failed');
+      setTimeout(() => setCopyState('idle'), 3000);
+    }
+  };
+
+  if (loadError) {
+    return <p className="text-fluent-base text-fluent-error">{loadError}</p>;
+  }
+
+  if (!defs) {
+    return (
+      <div className="flex items-center gap-2 text-fluent-base text-fluent-text-secondary py-8">
+        <span className="w-4 h-4 border-2 border-fluent-blue border-t-transparent rounded-full animate-spin" />
+        Loading settings catalog…
+      </div>
+    );
+  }
+
+  if (cart.items.length === 0) {
+    return (
+      <div className="text-center py-16 text-fluent-text-secondary">
+        <p className="text-fluent-base">Your policy is empty.</p>
+        <p className="text-fluent-sm mt-1">
+          Expand any setting in the <Link href="/" className="text-fluent-blue hover:underline">catalog</Link> and
+          choose &ldquo;Add to policy&rdquo; to start building.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Policy details */}
+      <div className="fluent-card px-4 py-4 space-y-3">
+        <label className="block">
+          <span className="text-fluent-sm font-semibold text-fluent-text-secondary">Policy name</span>
+          <input
+            type="text"
+            value={cart.name}
+            onChange={(e) => setPolicyCartDetails({ name: e.target.value })}
+            className="mt-1 w-full px-3 py-1.5 text-fluent-base border border-fluent-border-strong rounded focus:outline-none focus:border-fluent-blue focus:ring-1 focus:ring-fluent-blue"
+          />
+        </label>
+        <label className="block">
+          <span className="text-fluent-sm font-semibold text-fluent-text-secondary">Description</span>
+          <textarea
+            value={cart.description}
+            onChange={(e) => setPolicyCartDetails({ description: e.target.value })}
+            rows={2}
+            className="mt-1 w-full px-3 py-1.5 text-fluent-base border border-fluent-border-strong rounded focus:outline-none focus:border-fluent-blue focus:ring-1 focus:ring-fluent-blue"
+          />
+        </label>
+      </div>
+
+      {/* Configured settings */}
+      <div className="space-y-3">
+        {items.map((item) => {
+          const def = defs.get(item.definitionId);
+          return (
+            <div key={item.definitionId} className="fluent-card">
+              <div className="flex items-center gap-2 px-4 py-2.5 border-b border-fluent-border bg-fluent-bg-alt">
+                {def ? (
+                  <Link
+                    href={`/setting/${encodeURIComponent(settingSlug(def.id))}/`}
+                    prefetch={false}
+                    className="text-fluent-base font-semibold text-fluent-blue hover:underline truncate"
+                  >
+                    {def.displayName || def.name}
+                  </Link>
+                ) : (
+                  <span className="text-fluent-base font-semibold text-fluent-error truncate">{item.definitionId}</span>
+                )}
+                {def?.applicability?.platform && (
+                  <span className="text-fluent-xs text-fluent-text-secondary">
+                    {getPlatformLabel(def.applicability.platform)}
+                  </span>
+                )}
+                <button
+                  type="button"
+                  onClick={() => removeFromPolicyCart(item.definitionId)}
+                  className="ml-auto text-fluent-sm text-fluent-text-secondary hover:text-fluent-error"
+                >
+                  Remove
+                </button>
+              </div>
+              <div className="px-4 py-3">
+                {def ? (
+                  <SettingValueEditor cfg={item} defs={defs} onChange={updatePolicyCartItem} />
+                ) : (
+                  <p className="text-fluent-sm text-fluent-error">This setting is no longer in the catalog.</p>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Validation */}
+      {issues.length > 0 && (
+        <div className="fluent-card px-4 py-3 border-fluent-error/40 bg-red-50">
+          <h3 className="text-fluent-sm font-semibold text-fluent-error mb-1">
+            Fix {issues.length} {issues.length === 1 ? 'issue' : 'issues'} before exporting
+          </h3>
+          <ul className="text-fluent-sm text-fluent-text space-y-0.5 list-disc pl-5">
+            {issues.map((issue, i) => (
+              <li key={i}>
+                {issue.definitionId && (
+                  <span className="font-medium">{defs.get(issue.definitionId)?.displayName ?? issue.definitionId}: </span>
+                )}
+                {issue.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Export */}
+      <div className="fluent-card">
+        <div className="flex items-center gap-2 px-4 py-2.5 border-b border-fluent-border bg-fluent-bg-alt">
+          <span className="text-fluent-base font-semibold text-fluent-text">Graph payload</span>
+          <span className="text-fluent-xs text-fluent-text-secondary">
+            POST /beta/deviceManagement/configurationPolicies
+          </span>
+          <div className="ml-auto flex items-center gap-2">
+            <button
+              type="button"
+              onClick={copy}
+              disabled={issues.length > 0}
+              title={copyState === 'failed' ? 'The browser blocked clipboard access — use Download JSON instead' : undefined}
+              className={`fluent-btn-secondary text-fluent-sm disabled:opacity-50 ${copyState === 'failed' ? 'text-fluent-error' : ''}`}
+            >
+              {copyState === 'copied' ? 'Copied' : copyState === 'failed' ? 'Copy failed' : 'Copy'}
+            </button>
+            <button type="button" onClick={download} disabled={issues.length > 0} className="fluent-btn-primary text-fluent-sm disabled:opacity-50">
+              Download JSON
+            </button>
+            <button type="button" onClick={clearPolicyCart} className="fluent-btn-secondary text-fluent-sm">
+              Clear
+            </button>
+          </div>
+        </div>
+        <pre className="px-4 py-3 text-fluent-xs font-mono overflow-x-auto max-h-[480px] fluent-scroll bg-fluent-bg">
+          {payloadJson}
+        </pre>
+      </div>
+    </div>
+  );
+}
+
+const inputClass =
+  'px-2 py-1 text-fluent-sm border border-fluent-border-strong rounded focus:outline-none focus:border-fluent-blue focus:ring-1 focus:ring-fluent-blue';
+
+/** Human summary of a simple setting's value constraints */
+function constraintHint(def: SettingDefinition): string {
+  const vd = def.valueDefinition;
+  if (!vd) return '';
+  const parts: string[] = [];
+  if (vd.minimumValue !== undefined || vd.maximumValue !== undefined) {
+    parts.push(`${vd.minimumValue ?? '…'}–${vd.maximumValue ?? '…'}`);
+  }
+  if (vd.maximumLength !== undefined) parts.push(`max ${vd.maximumLength} chars`);
+  parts.push(vd.isRequired ? 'required' : 'leave empty to not configure');
+  return parts.join(', ');
+}
+
+/** Recursive editor for one configured setting and its children */
+function SettingValueEditor({ cfg, defs, onChange }: {
+  cfg: ConfiguredSetting;
+  defs: Map<string, SettingDefinition>;
+  onChange: (cfg: ConfiguredSetting) => void;
+}) {
+  const def = defs.get(cfg.definitionId);
+  if (!def) return null;
+  const kind = getSettingKind(def['@odata.type']);
+
+  const updateChild = (list: ConfiguredSetting[], child: ConfiguredSetting) =>
+    list.map((c) => (c.definitionId === child.definitionId ? child : c));
+
+  const renderChildren = (list: ConfiguredSetting[], onListChange: (next: ConfiguredSetting[]) => void) =>
+    list.length > 0 && (
+      <div className="mt-2 ml-2 pl-3 border-l-2 border-blue-200 space-y-3">
+        {list.map((child) => (
+          <div key={child.definitionId}>
+            <div className="text-fluent-sm font-medium text-fluent-text mb-1">
+              {defs.get(child.definitionId)?.displayName ?? child.definitionId}
+            </div>
+            <SettingValueEditor
+              cfg={child}
+              defs={defs}
+              onChange={(next) => onListChange(updateChild(list, next))}
+            />
+          </div>
+        ))}
+      </div>
+    );
+
+  switch (kind) {
+    case 'choice':
+      return (
+        <div>
+          <select
+            value={cfg.value ?? ''}
+            onChange={(e) => onChange(withDefaults({ definitionId: cfg.definitionId, value: e.target.value }, defs))}
+            className={inputClass}
+          >
+            {def.options?.map((o) => (
+              <option key={o.itemId} value={o.itemId}>
+                {o.displayName}
+                {o.itemId === def.defaultOptionId ? ' (default)' : ''}
+              </option>
+            ))}
+          </select>
+          {renderChildren(cfg.children ?? [], (children) => onChange({ ...cfg, children }))}
+        </div>
+      );
+
+    case 'choiceCollection': {
+      const values = cfg.values ?? [];
+      return (
+        <div className="flex flex-col gap-1">
+          {def.options?.map((o) => (
+            <label key={o.itemId} className="inline-flex items-center gap-2 text-fluent-sm">
+              <input
+                type="checkbox"
+                checked={values.includes(o.itemId)}
+                onChange={(e) =>
+                  onChange({
+                    ...cfg,
+                    values: e.target.checked ? [...values, o.itemId] : values.filter((v) => v !== o.itemId),
+                  })
+                }
+              />
+              {o.displayName}
+            </label>
+          ))}
+        </div>
+      );
+    }
+
+    case 'simple': {
+      const error = validateSimpleValue(def, cfg.value ?? '');
+      const isInteger = def.valueDefinition?.['@odata.type']?.includes('Integer');
+      return (
+        <div>
+          <input
+            type={isInteger ? 'number' : def.valueDefinition?.isSecret ? 'password' : 'text'}
+            value={cfg.value ?? ''}
+            min={def.valueDefinition?.minimumValue}
+            max={def.valueDefinition?.maximumValue}
+            maxLength={def.valueDefinition?.maximumLength}
+            onChange={(e) => onChange({ ...cfg, value: e.target.value })}
+            className={`${inputClass} w-full max-w-md ${error ? 'border-fluent-error' : ''}`}
+          />
+          <div className="text-fluent-xs mt-0.5">
+            {error ? (
+              <span className="text-fluent-error">{error}</span>
+            ) : (
+              <span className="text-fluent-text-secondary">{constraintHint(def)}</span>
+            )}
+          </div>
+        </div>
+      );
+    }
+
+    case 'simpleCollection': {
+      const values = cfg.values ?? [];
+      return (
+        <div className="space-y-1">
+          {values.map((v, i) => {
+            const error = validateSimpleValue(def, v);
+            return (
+              <div key={i} className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={v}
+                  onChange={(e) => onChange({ ...cfg, values: values.map((x, j) => (j === i ? e.target.value : x)) })}
+                  className={`${inputClass} flex-1 max-w-md ${error ? 'border-fluent-error' : ''}`}
+                />
+                <button
+                  type="button"
+                  onClick={() => onChange({ ...cfg, values: values.filter((_, j) => j !== i) })}
+                  className="text-fluent-xs text-fluent-text-secondary hover:text-fluent-error"
+                >
+                  Remove
+                </button>
+                {error && <span className="text-fluent-xs text-fluent-error">{error}</span>}
+              </div>
+            );
+          })}
+          <button
+            type="button"
+            onClick={() => onChange({ ...cfg, values: [...values, ''] })}
+            className="text-fluent-sm text-fluent-blue hover:underline"
+          >
+            + Add value
+          </button>
+        </div>
+      );
+    }
+
+    case 'group':
+      return <>{renderChildren(cfg.children ?? [], (children) => onChange({ ...cfg, children }))}</>;
+
+    case 'groupCollection': {
+      const instances = cfg.instances ?? [];
+      return (
+        <div className="space-y-2">
+          {instances.map((inst, i) => (
+            <div key={i} className="rounded border border-purple-200 bg-purple-50/30 px-3 py-2">
+              <div className="flex items-center text-fluent-xs font-semibold text-purple-700">
+                Item {i + 1}
+                <button
+                  type="button"
+                  onClick={() => onChange({ ...cfg, instances: instances.filter((_, j) => j !== i) })}
+                  className="ml-auto font-normal text-fluent-text-secondary hover:text-fluent-error"
+                >
+                  Remove
+                </button>
+              </div>
+              {renderChildren(inst, (children) =>
+                onChange({ ...cfg, instances: instances.map((x, j) => (j === i ? children : x)) })
+              )}
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() =>
+              onChange({
+                ...cfg,
+                instances: [
+                  ...instances,
+                  getGroupChildIds(def, defs).map((id) => withDefaults({ definitionId: id }, defs)),
+                ],
+              })
+            }
+            className="text-fluent-sm text-fluent-blue hover:underline"
+          >
+            + Add item
+          </button>
+        </div>
+      );
+    }
+
+    default:
+      return <p className="text-fluent-sm text-fluent-text-secondary">This setting type cannot be configured.</p>;
+  }
+}
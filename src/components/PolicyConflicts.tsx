@@ -0,0 +1,200 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import type { SettingDefinition } from '@/lib/types';
+import { getScopeBadgeClass } from '@/lib/types';
+import { fetchBrowseSettings } from '@/lib/browse-data';
+import { settingSlug } from '@/lib/slug';
+import { getCspPath } from '@/lib/settings-grouping';
+import { downloadFile, toCsv } from '@/lib/download';
+import { flattenInstances, resolvePolicySettings } from '@/lib/policy-import';
+import type { ImportedPolicy } from '@/lib/policy-import';
+import { findPolicyConflicts, conflictTitle, formatValues } from '@/lib/policy-compare';
+import type { PolicyConflict } from '@/lib/policy-compare';
+import PolicyFileInput from './PolicyFileInput';
+
+export default function PolicyConflicts() {
+  const [defs, setDefs] = useState<Map<string, SettingDefinition> | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [policies, setPolicies] = useState<ImportedPolicy[]>([]);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [showDuplicates, setShowDuplicates] = useState(true);
+
+  useEffect(() => {
+    fetchBrowseSettings()
+      .then((settings) => setDefs(new Map(settings.map((s) => [s.id, s]))))
+      .catch((err) => setLoadError(String(err)));
+  }, []);
+
+  const conflicts = useMemo(() => {
+    if (!defs || policies.length < 2) return null;
+    return findPolicyConflicts(
+      policies.map((policy) => ({ policy, rows: resolvePolicySettings(flattenInstances(policy.instances), defs) }))
+    );
+  }, [defs, policies]);
+
+  const visible = useMemo(
+    () => (conflicts ?? []).filter((c) => showDuplicates || c.kind === 'conflict'),
+    [conflicts, showDuplicates]
+  );
+  const conflictCount = conflicts?.filter((c) => c.kind === 'conflict').length ?? 0;
+
+  const exportCsv = () => {
+    const rows: string[][] = [['Status', 'Scope overlap', 'Setting', 'Setting definition ID', 'Scope', 'CSP path', 'Policy', 'File', 'Value']];
+    for (const c of visible) {
+      for (const o of c.occurrences) {
+        rows.push([
+          c.kind,
+          c.crossScope ? 'device+user' : '',
+          conflictTitle(c),
+          o.definitionId,
+          o.scope,
+          o.definition ? getCspPath(o.definition) : '',
+          o.policy.name,
+          o.policy.source,
+          formatValues(o),
+        ]);
+      }
+    }
+    downloadFile('policy-conflicts.csv', toCsv(rows), 'text/csv;charset=utf-8');
+  };
+
+  if (loadError) {
+    return <p className="text-fluent-base text-fluent-error">{loadError}</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <PolicyFileInput
+        multiple
+        label="Drop exported policies here — add as many as you like"
+        onLoad={(loaded, loadErrors) => {
+          setPolicies((prev) => [...prev, ...loaded]);
+          setErrors(loadErrors);
+        }}
+      />
+
+      {errors.length > 0 && (
+        <ul role="alert" className="fluent-card px-4 py-3 border-fluent-error/40 bg-red-50 text-fluent-sm text-fluent-error space-y-0.5">
+          {errors.map((e, i) => <li key={i}>{e}</li>)}
+        </ul>
+      )}
+
+      {policies.length > 0 && (
+        <div className="fluent-card">
+          <div className="flex items-center px-4 py-2.5 border-b border-fluent-border bg-fluent-bg-alt">
+            <span className="text-fluent-base font-semibold text-fluent-text">
+              {policies.length} {policies.length === 1 ? 'policy' : 'policies'} loaded
+            </span>
+            <button type="button" onClick={() => setPolicies([])} className="ml-auto text-fluent-sm text-fluent-text-secondary hover:text-fluent-error">
+              Clear all
+            </button>
+          </div>
+          <ul className="divide-y divide-fluent-border text-fluent-sm">
+            {policies.map((p, i) => (
+              <li key={i} className="flex items-center gap-2 px-4 py-1.5">
+                <span className="font-medium text-fluent-text truncate">{p.name}</span>
+                <span className="text-fluent-xs text-fluent-text-secondary truncate">{p.source}</span>
+                <button
+                  type="button"
+                  onClick={() => setPolicies((prev) => prev.filter((_, j) => j !== i))}
+                  className="ml-auto text-fluent-text-secondary hover:text-fluent-error"
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {policies.length === 1 && (
+        <p className="text-fluent-sm text-fluent-text-secondary">Add at least one more policy to look for conflicts.</p>
+      )}
+
+      {!defs && policies.length > 1 && (
+        <div className="flex items-center gap-2 text-fluent-base text-fluent-text-secondary py-8">
+          <span className="w-4 h-4 border-2 border-fluent-blue border-t-transparent rounded-full animate-spin" />
+          Loading settings catalog…
+        </div>
+      )}
+
+      {conflicts && (
+        <>
+          <div className="flex flex-wrap items-center gap-3">
+            <span className="text-fluent-base text-fluent-text">
+              <span className="font-semibold text-fluent-error">{conflictCount}</span> conflicting,{' '}
+              <span className="font-semibold">{conflicts.length - conflictCount}</span> duplicated
+            </span>
+            <label className="inline-flex items-center gap-1.5 text-fluent-sm text-fluent-text-secondary">
+              <input type="checkbox" checked={showDuplicates} onChange={(e) => setShowDuplicates(e.target.checked)} />
+              Show duplicates
+            </label>
+            <button type="button" onClick={exportCsv} disabled={visible.length === 0} className="ml-auto fluent-btn-secondary text-fluent-sm disabled:opacity-50">
+              Export CSV
+            </button>
+          </div>
+
+          {conflicts.length === 0 && (
+            <p className="fluent-card px-4 py-3 text-fluent-base text-fluent-text-secondary">
+              No setting is configured by more than one of these policies.
+            </p>
+          )}
+
+          {visible.map((c) => <ConflictCard key={c.key} conflict={c} />)}
+        </>
+      )}
+    </div>
+  );
+}
+
+function ConflictCard({ conflict }: { conflict: PolicyConflict }) {
+  const def = conflict.occurrences.find((o) => o.definition)?.definition;
+
+  return (
+    <div className={`fluent-card ${conflict.kind === 'conflict' ? 'border-fluent-error/40' : ''}`}>
+      <div className="flex flex-wrap items-center gap-2 px-4 py-2.5 border-b border-fluent-border bg-fluent-bg-alt">
+        {def ? (
+          <Link
+            href={`/setting/${encodeURIComponent(settingSlug(def.id))}/`}
+            prefetch={false}
+            className="text-fluent-base font-semibold text-fluent-blue hover:underline"
+          >
+            {conflictTitle(conflict)}
+          </Link>
+        ) : (
+          <span className="text-fluent-base font-semibold text-fluent-text font-mono break-all">{conflictTitle(conflict)}</span>
+        )}
+        <span
+          className={`scope-badge ${conflict.kind === 'conflict' ? 'bg-red-50 text-fluent-error' : 'bg-gray-100 text-gray-600'}`}
+        >
+          {conflict.kind === 'conflict' ? 'Conflict' : 'Duplicate'}
+        </span>
+        {conflict.crossScope && (
+          <span
+            className="scope-badge bg-amber-50 text-amber-800 border border-amber-200"
+            title="A device-scoped and a user-scoped copy of the same CSP are both configured"
+          >
+            Device + User
+          </span>
+        )}
+      </div>
+      <table className="w-full text-fluent-sm">
+        <tbody className="divide-y divide-fluent-border">
+          {conflict.occurrences.map((o, i) => (
+            <tr key={i}>
+              <td className="px-4 py-1.5 text-fluent-text font-medium">{o.policy.name}</td>
+              <td className="px-2 py-1.5">
+                <span className={`scope-badge ${getScopeBadgeClass(o.scope)}`}>
+                  {o.scope === 'unknown' ? '—' : o.scope === 'device' ? 'Device' : 'User'}
+                </span>
+              </td>
+              <td className="px-4 py-1.5 text-fluent-text break-words">{formatValues(o)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import type { CategoryTreeNode, SettingDefinition } from '@/lib/types';
+import { fetchBrowseSettings } from '@/lib/browse-data';
+import { settingSlug } from '@/lib/slug';
+import { buildBreadcrumb, groupByCategoryTree } from '@/lib/category-path';
+import { flattenInstances, resolvePolicySettings } from '@/lib/policy-import';
+import type { ImportedPolicy } from '@/lib/policy-import';
+import { diffPolicies, formatValues } from '@/lib/policy-compare';
+import type { PolicyDiffEntry } from '@/lib/policy-compare';
+import PolicyFileInput from './PolicyFileInput';
+import DiffBlock from './DiffBlock';
+
+interface PolicyDiffProps {
+  categoryTree: CategoryTreeNode[];
+  categoryMap: Record<string, string>;
+  categoryParentMap: Record<string, string>;
+}
+
+const STATUS_BADGE: Record<PolicyDiffEntry['status'], string> = {
+  onlyA: 'Only in A',
+  onlyB: 'Only in B',
+  changed: 'Different',
+};
+
+export default function PolicyDiff({ categoryTree, categoryMap, categoryParentMap }: PolicyDiffProps) {
+  const [defs, setDefs] = useState<Map<string, SettingDefinition> | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [policyA, setPolicyA] = useState<ImportedPolicy | null>(null);
+  const [policyB, setPolicyB] = useState<ImportedPolicy | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  useEffect(() => {
+    fetchBrowseSettings()
+      .then((settings) => setDefs(new Map(settings.map((s) => [s.id, s]))))
+      .catch((err) => setLoadError(String(err)));
+  }, []);
+
+  const diffs = useMemo(() => {
+    if (!defs || !policyA || !policyB) return null;
+    return diffPolicies(
+      resolvePolicySettings(flattenInstances(policyA.instances), defs),
+      resolvePolicySettings(flattenInstances(policyB.instances), defs),
+    );
+  }, [defs, policyA, policyB]);
+
+  // Catalog settings outside the tree are "Uncategorized"; definitions that
+  // failed to resolve get their own "Not in catalog" group at the end
+  const groups = useMemo(() => {
+    if (!diffs) return [];
+    const grouped = groupByCategoryTree(diffs.filter((d) => d.definition), (d) => d.definition?.categoryId, categoryTree)
+      .map((g) => ({ ...g, missing: false }));
+    const missing = diffs.filter((d) => !d.definition);
+    return missing.length > 0 ? [...grouped, { categoryId: '', items: missing, missing: true }] : grouped;
+  }, [diffs, categoryTree]);
+
+  // Each side takes the first policy in its file
+  const loadSide = (side: 'A' | 'B') => (policies: ImportedPolicy[], loadErrors: string[]) => {
+    (side === 'A' ? setPolicyA : setPolicyB)(policies[0] ?? null);
+    setErrors(loadErrors);
+  };
+
+  if (loadError) {
+    return <p className="text-fluent-base text-fluent-error">{loadError}</p>;
+  }
+
+  const count = (status: PolicyDiffEntry['status']) => diffs?.filter((d) => d.status === status).length ?? 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {([['A', policyA], ['B', policyB]] as const).map(([side, policy]) => (
+          <div key={side} className="space-y-1.5">
+            <PolicyFileInput onLoad={loadSide(side)} label={`Drop policy ${side} here`} />
+            <p className="text-fluent-sm text-fluent-text-secondary truncate">
+              <span className="font-semibold text-fluent-text">{side}:</span>{' '}
+              {policy ? `${policy.name} (${policy.source})` : 'no policy loaded'}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      {errors.length > 0 && (
+        <ul role="alert" className="fluent-card px-4 py-3 border-fluent-error/40 bg-red-50 text-fluent-sm text-fluent-error space-y-0.5">
+          {errors.map((e, i) => <li key={i}>{e}</li>)}
+        </ul>
+      )}
+
+      {!defs && policyA && policyB && (
+        <div className="flex items-center gap-2 text-fluent-base text-fluent-text-secondary py-8">
+          <span className="w-4 h-4 border-2 border-fluent-blue border-t-transparent rounded-full animate-spin" />
+          Loading settings catalog…
+        </div>
+      )}
+
+      {diffs && (
+        <>
+          <div className="flex flex-wrap gap-2 text-fluent-sm">
+            <span className="px-2.5 py-1 rounded-md bg-red-50 text-[#82071e] font-medium">{count('onlyA')} only in A</span>
+            <span className="px-2.5 py-1 rounded-md bg-green-50 text-[#116329] font-medium">{count('onlyB')} only in B</span>
+            <span className="px-2.5 py-1 rounded-md bg-fluent-light-blue text-fluent-blue font-medium">{count('changed')} different</span>
+          </div>
+
+          {diffs.length === 0 && (
+            <p className="fluent-card px-4 py-3 text-fluent-base text-fluent-text-secondary">
+              Both policies configure the same settings with the same values.
+            </p>
+          )}
+
+          {groups.map(({ categoryId, items, missing }) => (
+            <section key={categoryId || (missing ? 'missing' : 'uncategorized')} className="space-y-2">
+              <h2 className="text-fluent-base font-semibold text-fluent-text">
+                {categoryId ? (
+                  <>
+                    {buildBreadcrumb(categoryId, categoryMap, categoryParentMap).map((crumb, i) => (
+                      <span key={i} className="font-normal text-fluent-text-secondary">{crumb} › </span>
+                    ))}
+                    {categoryMap[categoryId] || 'Unknown Category'}
+                  </>
+                ) : missing ? (
+                  'Not in catalog'
+                ) : (
+                  'Uncategorized'
+                )}
+              </h2>
+              {items.map((d) => (
+                <DiffBlock
+                  key={d.definitionId}
+                  title={d.definition?.displayName || d.definition?.name || d.definitionId}
+                  href={d.definition ? `/setting/${encodeURIComponent(settingSlug(d.definition.id))}/` : undefined}
+                  badge={STATUS_BADGE[d.status]}
+                  platform={d.definition?.applicability?.platform}
+                  fields={[{
+                    field: `${policyA?.name ?? 'A'} → ${policyB?.name ?? 'B'}`,
+                    oldValue: d.a ? formatValues(d.a) : undefined,
+                    newValue: d.b ? formatValues(d.b) : undefined,
+                  }]}
+                />
+              ))}
+            </section>
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { parsePolicyExport } from '@/lib/policy-import';
+import type { ImportedPolicy } from '@/lib/policy-import';
+
+interface PolicyFileInputProps {
+  /** Called with every policy parsed from the dropped / chosen files */
+  onLoad: (policies: ImportedPolicy[], errors: string[]) => void;
+  multiple?: boolean;
+  label?: string;
+}
+
+/** Drop zone / file picker for exported policy JSON. Files are read locally. */
+export default function PolicyFileInput({ onLoad, multiple = false, label = 'Drop an exported policy JSON here' }: PolicyFileInputProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [dragOver, setDragOver] = useState(false);
+
+  const readFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    const policies: ImportedPolicy[] = [];
+    const errors: string[] = [];
+    for (const file of Array.from(files)) {
+      try {
+        policies.push(...parsePolicyExport(await file.text(), file.name));
+      } catch (err) {
+        errors.push((err as Error).message);
+      }
+    }
+    onLoad(policies, errors);
+  };
+
+  return (
+    <div
+      onDragOver={(e) => {
+        e.preventDefault();
+        setDragOver(true);
+      }}
+      onDragLeave={() => setDragOver(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setDragOver(false);
+        readFiles(e.dataTransfer.files);
+      }}
+      onClick={() => inputRef.current?.click()}
+      className={`flex flex-col items-center justify-center gap-1 px-4 py-6 rounded-lg border-2 border-dashed cursor-pointer transition-colors ${
+        dragOver ? 'border-fluent-blue bg-fluent-light-blue' : 'border-fluent-border-strong bg-white hover:bg-fluent-bg-alt'
+      }`}
+    >
+      <svg className="w-6 h-6 text-fluent-text-secondary" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M12 16V4m0 0l-4 4m4-4l4 4M4 20h16" />
+      </svg>
+      <span className="text-fluent-base text-fluent-text">{label}</span>
+      <span className="text-fluent-xs text-fluent-text-secondary">or click to choose {multiple ? 'files' : 'a file'}</span>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".json,application/json"
+        multiple={multiple}
+        className="hidden"
+        onClick={(e) => e.stopPropagation()}
+        onChange={(e) => {
+          readFiles(e.target.files);
+          e.target.value = '';
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import Link from 'next/link';
+
+const TABS = [
+  { href: '/analyze-policy/', label: 'Analyze' },
+  { href: '/analyze-policy/compare/', label: 'Compare two' },
+  { href: '/analyze-policy/conflicts/', label: 'Find conflicts' },
+] as const;
+
+/** Tab strip linking the policy import tools, which share /analyze-policy/ */
+export default function PolicyToolTabs({ active }: { active: (typeof TABS)[number]['href'] }) {
+  return (
+    <nav className="flex gap-1 border-b border-fluent-border mb-4 text-fluent-base">
+      {TABS.map((tab) => (
+        <Link
+          key={tab.href}
+          href={tab.href}
+          prefetch={false}
+          className={`px-3 py-2 -mb-px border-b-2 transition-colors ${
+            tab.href === active
+              ? 'border-fluent-blue text-fluent-blue font-semibold'
+              : 'border-transparent text-fluent-text-secondary hover:text-fluent-text'
+          }`}
+        >
+          {tab.label}
+        </Link>
+      ))}
+    </nav>
+  );
+}
@@ -1,19 +1,24 @@
 'use client';
 
-import { useState, useCallback, useRef, useEffect } from 'react';
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { search as flexSearch, ensureIndex, preloadIndex } from '@/lib/search';
+import { parseQuery } from '@/lib/search-query';
 import type { SearchIndexEntry } from '@/lib/types';
 
 interface SearchBarProps {
   onSearchResults?: (results: SearchIndexEntry[]) => void;
   onQueryChange?: (query: string) => void;
   placeholder?: string;
+  /** Externally controlled query (e.g. restored from the URL). When it differs
+   *  from the typed text the input is updated and the search re-run. */
+  value?: string;
 }
 
 export default function SearchBar({
   onSearchResults,
   onQueryChange,
   placeholder = 'Search for a setting',
+  value: externalValue,
 }: SearchBarProps) {
   const [query, setQuery] = useState('');
   const [isLoading, setIsLoading] = useState(false);
@@ -21,6 +26,9 @@ export default function SearchBar({
   const inputRef = useRef<HTMLInputElement>(null);
   const debounceRef = useRef<ReturnType<typeof setTimeout>>();
 
+  // Qualifier / quoting mistakes are reported inline; the rest of the query still runs
+  const parseErrors = useMemo(() => parseQuery(query).errors, [query]);
+
   // Pre-warm search index immediately on mount (background, non-blocking)
   useEffect(() => {
     preloadIndex();
@@ -66,6 +74,35 @@ export default function SearchBar({
     [onSearchResults, onQueryChange]
   );
 
+  // Latest typed text and callback, read by the external-value sync below so
+  // that it only re-runs when the parent's value changes, not on local typing
+  const queryRef = useRef(query);
+  queryRef.current = query;
+  const onSearchResultsRef = useRef(onSearchResults);
+  onSearchResultsRef.current = onSearchResults;
+
+  // Sync from the controlling parent (URL restore, back/forward navigation)
+  useEffect(() => {
+    if (externalValue === undefined || externalValue === queryRef.current) return;
+    setQuery(externalValue);
+    if (debounceRef.current) clearTimeout(debounceRef.current);
+    if (!externalValue.trim()) {
+      onSearchResultsRef.current?.([]);
+      return;
+    }
+    let cancelled = false;
+    setIsLoading(true);
+    flexSearch(externalValue, 200)
+      .then((res) => {
+        if (!cancelled) onSearchResultsRef.current?.(res);
+      })
+      .catch((err) => console.error('Search failed:', err))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [externalValue]);
+
   // Handle search button / Enter key
   const handleSearch = useCallback(async () => {
     if (!query.trim()) return;
@@ -93,7 +130,9 @@ export default function SearchBar({
     <div>
       {/* Search instruction */}
       <p className="text-fluent-sm text-fluent-text-secondary mb-2">
-        Search by policy name, description, keywords, or CSP path; separate multiple terms with commas
+        Search by policy name, description, keywords, or CSP path; separate multiple terms with commas.
+        Narrow with <code>platform:</code> <code>scope:</code> <code>type:</code> <code>csp:</code> <code>category:</code> <code>usage:</code>,
+        &quot;quoted phrases&quot; and <code>-term</code> to exclude
       </p>
 
       {/* Search input */}
@@ -152,6 +191,21 @@ export default function SearchBar({
         </div>
 
       </div>
+
+      {/* Parse errors */}
+      {parseErrors.length > 0 && (
+        <ul className="mt-1.5 space-y-0.5" role="alert">
+          {parseErrors.map((err, i) => (
+            <li key={i} className="flex items-center gap-1.5 text-fluent-sm text-fluent-error">
+              <svg className="w-3.5 h-3.5 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M12 9v2m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+              <code className="font-mono">{err.token}</code>
+              <span>— {err.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
     </div>
   );
 }
@@ -1,8 +1,11 @@
 import type { SettingDefinition, MatchSource } from '@/lib/types';
-import { getPlatformLabel } from '@/lib/types';
+import { getPlatformLabel, getSettingUsages, getSettingUsageLabel } from '@/lib/types';
 import { getAsrRuleInfo, ASR_DOCS_URL } from '@/lib/asr-rules';
+import { getConstraintFacts, summarizeConstraints } from '@/lib/setting-constraints';
+import { getApplicabilityFacts } from '@/lib/applicability';
 import { PLATFORM_ICONS } from './PlatformIcons';
 import HighlightText from './HighlightText';
+import AddToPolicyButton from './AddToPolicyButton';
 
 interface SettingDetailProps {
   setting: SettingDefinition;
@@ -22,10 +25,17 @@ export default function SettingDetail({ setting, allSettings, highlightQuery, ma
   const platform = setting.applicability?.platform;
   const platformLabel = getPlatformLabel(platform);
   const PlatformIcon = platform ? PLATFORM_ICONS[platform] : undefined;
+  const usages = getSettingUsages(setting.settingUsage);
 
   // ASR rule info
   const asrInfo = getAsrRuleInfo(setting.id);
 
+  const constraintSummary = summarizeConstraints(setting);
+  const constraintFacts = getConstraintFacts(setting);
+  const applicabilityFacts = getApplicabilityFacts(setting.applicability);
+  // Graph often repeats the description as help text
+  const helpText = setting.helpText && setting.helpText.trim() !== setting.description?.trim() ? setting.helpText : null;
+
   // Highlight variant logic:
   //   - If title matched: description & CSP use secondary (blue) highlight
   //   - If only description/CSP matched (no title match): that field uses primary (yellow)
@@ -39,7 +49,7 @@ export default function SettingDetail({ setting, allSettings, highlightQuery, ma
 
   return (
     <div className="px-4 md:px-6 py-4 space-y-4">
-      {/* Platform pill + toggle indicator bar */}
+      {/* Platform pill + toggle indicator bar + policy cart */}
       <div className="flex items-center gap-2 flex-wrap">
         {/* Platform pill */}
         {platform && platform !== 'none' && (
@@ -55,6 +65,20 @@ export default function SettingDetail({ setting, allSettings, highlightQuery, ma
             {setting.applicability.technologies.toUpperCase()}
           </span>
         )}
+
+        {/* Catalog pill — only for settings outside the configuration catalog */}
+        {usages.some((u) => u !== 'configuration') && (
+          <span className="inline-flex items-center gap-1 px-2.5 py-1 rounded-md text-fluent-xs font-medium bg-amber-50 text-amber-700 border border-amber-200">
+            {usages.map(getSettingUsageLabel).join(' · ')}
+          </span>
+        )}
+
+        {/* The policy builder only exports configuration policies */}
+        {usages.includes('configuration') && (
+          <span className="ml-auto">
+            <AddToPolicyButton setting={setting} />
+          </span>
+        )}
       </div>
 
       {/* Description */}
@@ -69,6 +93,16 @@ export default function SettingDetail({ setting, allSettings, highlightQuery, ma
         </div>
       )}
 
+      {/* Help text — shown next to the setting in the Intune admin center */}
+      {helpText && (
+        <div>
+          <h4 className="text-fluent-sm font-semibold text-fluent-text-secondary mb-1">
+            Help text
+          </h4>
+          <p className="text-fluent-sm text-fluent-text whitespace-pre-wrap">{helpText}</p>
+        </div>
+      )}
+
       {/* Choice options */}
       {setting.options && setting.options.length > 0 && (
         <div>
@@ -101,6 +135,43 @@ export default function SettingDetail({ setting, allSettings, highlightQuery, ma
         </div>
       )}
 
+      {/* Constraints & defaults — value type and range, default, required, counts, occurrence, access */}
+      {constraintFacts.length > 0 && (
+        <div>
+          <h4 className="text-fluent-sm font-semibold text-fluent-text-secondary mb-1">
+            Constraints &amp; defaults
+          </h4>
+          {constraintSummary && (
+            <p className="text-fluent-base text-fluent-text mb-2">{constraintSummary}</p>
+          )}
+          <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-fluent-sm">
+            {constraintFacts.map((fact) => (
+              <div key={fact.label} className="contents">
+                <dt className="text-fluent-text-secondary">{fact.label}</dt>
+                <dd className="text-fluent-text break-words">{fact.value}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      )}
+
+      {/* Applicability — OS version range, Windows editions, device mode, identity */}
+      {applicabilityFacts.length > 0 && (
+        <div>
+          <h4 className="text-fluent-sm font-semibold text-fluent-text-secondary mb-1">
+            Applicability
+          </h4>
+          <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-fluent-sm">
+            {applicabilityFacts.map((fact) => (
+              <div key={fact.label} className="contents">
+                <dt className="text-fluent-text-secondary">{fact.label}</dt>
+                <dd className="text-fluent-text break-words">{fact.value}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      )}
+
       {/* ASR Rule — GUID & docs link */}
       {asrInfo && (
         <div className="space-y-1">
@@ -0,0 +1,72 @@
+import type { SettingHistoryEvent } from '@/lib/types';
+import DiffBlock from './DiffBlock';
+
+interface SettingHistoryProps {
+  settingId: string;
+  events: SettingHistoryEvent[];
+  /** Date of the bulk-import changelog entry; "added" on this date means "present from the start" */
+  baselineDate: string;
+}
+
+const DOT_CLASS: Record<SettingHistoryEvent['kind'], string> = {
+  added: 'bg-[#1a7f37]',
+  removed: 'bg-[#cf222e]',
+  changed: 'bg-fluent-warning',
+  renamed: 'bg-fluent-blue',
+};
+
+function formatDate(date: string): string {
+  return new Date(date + 'T00:00:00').toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+/** Timeline of changelog events for one setting, newest first */
+export default function SettingHistory({ settingId, events, baselineDate }: SettingHistoryProps) {
+  const firstSeen = [...events].reverse().find((e) => e.kind === 'added' || e.kind === 'renamed');
+
+  return (
+    <div className="mt-6">
+      <h2 className="text-fluent-lg font-semibold text-fluent-text mb-2">History</h2>
+      {firstSeen && (
+        <p className="text-fluent-sm text-fluent-text-secondary mb-3">
+          {firstSeen.kind === 'renamed'
+            ? `Published under this ID on ${formatDate(firstSeen.date)}, replacing ${firstSeen.fromId}.`
+            : firstSeen.date === baselineDate
+              ? `In the catalog since tracking began on ${formatDate(firstSeen.date)}.`
+              : `First appeared on ${formatDate(firstSeen.date)}.`}
+        </p>
+      )}
+
+      {events.length === 0 ? (
+        <p className="text-fluent-sm text-fluent-text-secondary">No changes recorded since tracking began.</p>
+      ) : (
+        <ol className="relative border-l border-fluent-border ml-1.5 space-y-4">
+          {events.map((event, i) => (
+            <li key={`${event.date}-${event.kind}-${i}`} className="pl-5 relative">
+              <span className={`absolute -left-[5px] top-1.5 w-2.5 h-2.5 rounded-full ${DOT_CLASS[event.kind]}`} />
+              <time dateTime={event.date} className="block text-fluent-xs font-semibold text-fluent-text-secondary mb-1">
+                {formatDate(event.date)}
+              </time>
+              {event.kind === 'renamed' ? (
+                <DiffBlock
+                  title="Re-published under a new ID"
+                  fields={[{ field: 'id', oldValue: event.fromId ?? '', newValue: settingId }, ...(event.fields ?? [])]}
+                />
+              ) : event.kind === 'changed' && event.fields?.length ? (
+                <DiffBlock
+                  title={`${event.fields.length} ${event.fields.length === 1 ? 'field' : 'fields'} changed`}
+                  fields={event.fields}
+                />
+              ) : (
+                <p className="text-fluent-sm text-fluent-text">
+                  {event.kind === 'added'
+                    ? event.date === baselineDate ? 'Included in the initial catalog snapshot' : 'Added to the catalog'
+                    : event.kind === 'removed' ? 'Removed from the catalog' : 'Changed'}
+                </p>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -2,10 +2,11 @@
 
 import { useState, memo } from 'react';
 import Link from 'next/link';
-import type { SettingDefinition, MatchSource } from '@/lib/types';
+import type { SettingDefinition, MatchSource, WindowsSku } from '@/lib/types';
 import { getSettingScope, getScopeBadgeClass, getSettingTypeLabel } from '@/lib/types';
 import { getAsrRuleInfo } from '@/lib/asr-rules';
 import { settingSlug } from '@/lib/slug';
+import { isSupportedOnEdition, getWindowsEditions, WINDOWS_SKU_LABELS } from '@/lib/applicability';
 import SettingDetail from './SettingDetail';
 import HighlightText from './HighlightText';
 
@@ -19,6 +20,8 @@ interface SettingRowProps {
   allSettings?: SettingDefinition[];
   /** Sub-category label to disambiguate settings with duplicate display names */
   disambiguationLabel?: string;
+  /** Windows edition selected in the edition filter; unsupported settings get a warning badge */
+  edition?: WindowsSku;
 }
 
 /** Collect all dependedOnBy refs from both top-level setting and its options */
@@ -35,7 +38,21 @@ function getAllDependedOnBy(setting: SettingDefinition): Array<{ dependedOnBy: s
   return deps;
 }
 
-export default memo(function SettingRow({ setting, childSettings = [], highlightQuery, matchSources, allSettings, disambiguationLabel }: SettingRowProps) {
+/** Warning shown when the selected Windows edition isn't among the setting's editions */
+function EditionWarningBadge({ setting, edition }: { setting: SettingDefinition; edition?: WindowsSku }) {
+  if (!edition || isSupportedOnEdition(setting.applicability, edition)) return null;
+  const supported = getWindowsEditions(setting.applicability).map((sku) => WINDOWS_SKU_LABELS[sku] ?? sku).join(', ');
+  return (
+    <span
+      className="scope-badge whitespace-nowrap flex-shrink-0 bg-amber-50 text-amber-700 border border-amber-200"
+      title={`Not supported on Windows ${WINDOWS_SKU_LABELS[edition]} — supported on ${supported}`}
+    >
+      ⚠ Not on {WINDOWS_SKU_LABELS[edition]}
+    </span>
+  );
+}
+
+export default memo(function SettingRow({ setting, childSettings = [], highlightQuery, matchSources, allSettings, disambiguationLabel, edition }: SettingRowProps) {
   const [expanded, setExpanded] = useState(false);
   const scope = getSettingScope(setting.baseUri);
   const isGroup = setting['@odata.type']?.includes('SettingGroup');
@@ -102,6 +119,7 @@ export default memo(function SettingRow({ setting, childSettings = [], highlight
                 ({childSettings.length})
               </span>
             )}
+            <EditionWarningBadge setting={setting} edition={edition} />
           </div>
           {/* ASR rule name — shows the well-known rule name for Defender ASR rules */}
           {(() => {
@@ -241,6 +259,7 @@ export default memo(function SettingRow({ setting, childSettings = [], highlight
                   setting={child}
                   highlightQuery={highlightQuery}
                   allSettings={allSettings}
+                  edition={edition}
                 />
               ))}
             </div>
@@ -256,10 +275,12 @@ function SettingRowInner({
   setting,
   highlightQuery,
   allSettings,
+  edition,
 }: {
   setting: SettingDefinition;
   highlightQuery?: string;
   allSettings?: SettingDefinition[];
+  edition?: WindowsSku;
 }) {
   const [expanded, setExpanded] = useState(false);
   const scope = getSettingScope(setting.baseUri);
@@ -299,6 +320,7 @@ function SettingRowInner({
             <span className="text-fluent-sm text-fluent-text md:truncate">
               <HighlightText text={setting.displayName || setting.name || ''} query={highlightQuery} />
             </span>
+            <EditionWarningBadge setting={setting} edition={edition} />
           </div>
           {/* ASR rule name for child settings */}
           {(() => {
@@ -5,8 +5,25 @@ import CategoryTree from './CategoryTree';
 import SettingsList from './SettingsList';
 import SearchBar from './SearchBar';
 import PlatformFilter from './PlatformFilter';
-import type { CategoryTreeNode, SettingDefinition, SearchIndexEntry } from '@/lib/types';
+import UsageFilter from './UsageFilter';
+import OsReleaseFilter from './OsReleaseFilter';
+import EditionFilter from './EditionFilter';
+import SnapshotDatePicker from './SnapshotDatePicker';
+import ExportButtons from './ExportButtons';
+import type { UsageFilterValue } from './UsageFilter';
+import type { CategoryTreeNode, SettingDefinition, SearchIndexEntry, WindowsSku } from '@/lib/types';
+import { getSettingUsages } from '@/lib/types';
 import { countVisibleRootSettings } from '@/lib/settings-grouping';
+import { buildBreadcrumb } from '@/lib/category-path';
+import { buildExportRows } from '@/lib/settings-export';
+import { getHighlightQuery } from '@/lib/search-query';
+import { parseBrowseUrl, buildBrowseUrl } from '@/lib/browse-url';
+import { fetchBrowseSettings } from '@/lib/browse-data';
+import { loadCatalogAsOf } from '@/lib/snapshot-archive';
+import { matchesPlatformFilter } from '@/lib/platform-filter';
+import { findOsRelease, isAvailableOnRelease, isSupportedOnEdition } from '@/lib/applicability';
+import type { ArchivedCatalog } from '@/lib/snapshot-archive';
+import type { BrowseUrlState } from '@/lib/browse-url';
 import { useIsDesktop } from '@/lib/useMediaQuery';
 
 interface SettingsCatalogBrowserProps {
@@ -25,53 +42,15 @@ interface CategorySettingsGroup {
   settings: SettingDefinition[];
 }
 
-const ROOT_CATEGORY_ID = '00000000-0000-0000-0000-000000000000';
-
-/**
- * Map from UI filter value to all raw platform strings that should match it.
- * Platform values in the data can be comma-separated (e.g. "android,iOS") and
- * use variants like "androidEnterprise" / "aosp" for Android.
- */
-const PLATFORM_ALIASES: Record<string, string[]> = {
-  android: ['android', 'androidEnterprise', 'aosp'],
-  windows10: ['windows10'],
-  macOS: ['macOS'],
-  iOS: ['iOS'],
-  linux: ['linux'],
-};
-
-/** Check whether a setting's platform value matches any of the selected filter platforms. */
-function matchesPlatformFilter(platformValue: string | undefined, selectedPlatforms: string[]): boolean {
-  if (!platformValue) return false;
-  // The platform field can be comma-separated (e.g. "android,iOS,macOS,windows10")
-  const parts = platformValue.split(',');
-  return selectedPlatforms.some((sel) => {
-    const aliases = PLATFORM_ALIASES[sel] || [sel];
-    return parts.some((p) => aliases.includes(p));
-  });
-}
-
-/** Build an ancestor breadcrumb path (root → parent) for a given category. */
-function buildBreadcrumb(
-  categoryId: string,
-  categoryMap: Record<string, string>,
-  categoryParentMap: Record<string, string>,
-): string[] {
-  const crumbs: string[] = [];
-  let current = categoryParentMap[categoryId];
-  const visited = new Set<string>();
-  while (current && current !== ROOT_CATEGORY_ID && !visited.has(current)) {
-    visited.add(current);
-    crumbs.unshift(categoryMap[current] || 'Unknown Category');
-    current = categoryParentMap[current];
-  }
-  return crumbs;
+/** Check whether a setting belongs to the selected catalog (empty = any). */
+function matchesUsageFilter(settingUsage: string | undefined, selectedUsage: UsageFilterValue): boolean {
+  return !selectedUsage || getSettingUsages(settingUsage).includes(selectedUsage);
 }
 
 export default function SettingsCatalogBrowser({
-  categoryTree,
+  categoryTree: liveCategoryTree,
   categoryMap: initialCategoryMap,
-  categoryParentMap,
+  categoryParentMap: liveCategoryParentMap,
   lastUpdated,
 }: SettingsCatalogBrowserProps) {
   const [selectedCategoryId, setSelectedCategoryId] = useState<string | null>(null);
@@ -79,25 +58,33 @@ export default function SettingsCatalogBrowser({
   const [searchResults, setSearchResults] = useState<SearchIndexEntry[] | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedPlatforms, setSelectedPlatforms] = useState<string[]>([]);
+  const [selectedUsage, setSelectedUsage] = useState<UsageFilterValue>('');
+  const [selectedRelease, setSelectedRelease] = useState('');
+  const [selectedEdition, setSelectedEdition] = useState<WindowsSku | ''>('');
+  const [showUnsupported, setShowUnsupported] = useState(false);
+  const [asOfDate, setAsOfDate] = useState<string | null>(null);
   const isDesktop = useIsDesktop();
 
   // ── Client-side settings loading ──
   // Settings are loaded from /settings-browse.json instead of being embedded
-  // in the page HTML (~55 MB → ~3 MB gzipped fetch).
+  // in the page HTML (~55 MB → ~3 MB gzipped fetch). For a past date the
+  // settings and category tree are rebuilt from the snapshot archive.
   const [settingsByCategory, setSettingsByCategory] = useState<Record<string, SettingDefinition[]>>({});
   const [categoryMap, setCategoryMap] = useState<Record<string, string>>(initialCategoryMap);
+  const [archived, setArchived] = useState<ArchivedCatalog | null>(null);
   const [totalSettings, setTotalSettings] = useState(0);
   const [settingsLoaded, setSettingsLoaded] = useState(false);
+  const categoryTree = archived?.categoryTree ?? liveCategoryTree;
+  const categoryParentMap = archived?.categoryParentMap ?? liveCategoryParentMap;
 
   useEffect(() => {
     let cancelled = false;
-    const basePath = (typeof process !== 'undefined' && (process.env as Record<string, string>).__NEXT_ROUTER_BASEPATH) || '';
-    fetch(`${basePath}/settings-browse.json`)
-      .then((res) => {
-        if (!res.ok) throw new Error(`Failed to load settings: ${res.status}`);
-        return res.json();
-      })
-      .then((settings: SettingDefinition[]) => {
+    setSettingsLoaded(false);
+    const load = asOfDate
+      ? loadCatalogAsOf(asOfDate).then((catalog) => ({ settings: catalog.settings, catalog }))
+      : fetchBrowseSettings().then((settings) => ({ settings, catalog: null }));
+    load
+      .then(({ settings, catalog }) => {
         if (cancelled) return;
         // Group settings by category (merge map already applied at build time)
         const byCat: Record<string, SettingDefinition[]> = {};
@@ -106,21 +93,25 @@ export default function SettingsCatalogBrowser({
           byCat[s.categoryId].push(s);
         }
         // Fill in any orphan category IDs
-        const mergedMap = { ...initialCategoryMap };
+        const mergedMap = { ...(catalog?.categoryMap ?? initialCategoryMap) };
         for (const catId of Object.keys(byCat)) {
           if (!mergedMap[catId]) mergedMap[catId] = 'Unknown Category';
         }
         setSettingsByCategory(byCat);
         setCategoryMap(mergedMap);
+        setArchived(catalog);
         setTotalSettings(settings.length);
         setSettingsLoaded(true);
       })
       .catch((err) => {
         console.error('Failed to load browse settings:', err);
-        if (!cancelled) setSettingsLoaded(true); // unblock UI even on error
+        if (cancelled) return;
+        // An archived date that cannot be rebuilt falls back to today
+        if (asOfDate) setAsOfDate(null);
+        else setSettingsLoaded(true); // unblock UI even on error
       });
     return () => { cancelled = true; };
-  }, [initialCategoryMap]);
+  }, [initialCategoryMap, asOfDate]);
   const [sidebarOpen, setSidebarOpen] = useState(true);
   const [sidebarWidth, setSidebarWidth] = useState(320);
   const isResizing = useRef(false);
@@ -226,7 +217,10 @@ export default function SettingsCatalogBrowser({
     (categoryId: string, categoryName: string) => {
       setSelectedCategoryId(categoryId);
       setSelectedCategoryName(categoryName);
-      setSearchResults(null); // Clear search when selecting a category
+      // Clear search when selecting a category, including the typed query, so the
+      // URL doesn't restore a search over the chosen category
+      setSearchResults(null);
+      setSearchQuery('');
     },
     []
   );
@@ -241,11 +235,75 @@ export default function SettingsCatalogBrowser({
     }
   }, []);
 
+  // ── URL state (shareable links + back/forward) ──
+  // The query string mirrors the current view. Category changes and platform
+  // toggles push a history entry; typing a query replaces the current one.
+  const [urlReady, setUrlReady] = useState(false);
+  const lastUrlStateRef = useRef<BrowseUrlState | null>(null);
+
+  // The tree switches when a past date loads or is cleared. URL state is read
+  // through a ref so that doesn't re-apply the URL (and drop search results).
+  const categoryTreeRef = useRef(categoryTree);
+  categoryTreeRef.current = categoryTree;
+
+  const applyUrlState = useCallback(
+    (state: BrowseUrlState) => {
+      // SearchBar only re-runs the search when the query changes, so keep results otherwise
+      const queryChanged = state.query !== lastUrlStateRef.current?.query;
+      lastUrlStateRef.current = state;
+      setSelectedPlatforms(state.platforms);
+      setSelectedUsage(state.usage);
+      setSelectedRelease(state.os);
+      setSelectedEdition(state.edition);
+      setShowUnsupported(state.showUnsupported);
+      setAsOfDate(state.date);
+      setSearchQuery(state.query);
+      if (queryChanged) setSearchResults(null);
+      if (state.categoryId) {
+        setSelectedCategoryId(state.categoryId);
+        setSelectedCategoryName(findCategoryNode(categoryTreeRef.current, state.categoryId)?.displayName ?? '');
+      } else {
+        setSelectedCategoryId(null);
+        setSelectedCategoryName('');
+      }
+    },
+    []
+  );
+
+  useEffect(() => {
+    applyUrlState(parseBrowseUrl(window.location.search));
+    setUrlReady(true);
+    const onPopState = () => applyUrlState(parseBrowseUrl(window.location.search));
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
+  }, [applyUrlState]);
+
+  // Re-resolve the selected category's name in the tree for the current date
+  useEffect(() => {
+    if (!selectedCategoryId) return;
+    const node = findCategoryNode(categoryTree, selectedCategoryId);
+    if (node) setSelectedCategoryName(node.displayName);
+  }, [categoryTree, selectedCategoryId]);
+
+  // Platform, catalog, OS release and edition filters combined; every view below applies them the same way.
+  // With "Hide unsupported" off the edition only flags rows, so it doesn't filter.
+  const release = findOsRelease(selectedRelease);
+  const hiddenEdition = showUnsupported ? '' : selectedEdition;
+  const hasFilters = selectedPlatforms.length > 0 || selectedUsage !== '' || !!release || !!hiddenEdition;
+  const matchesFilters = useCallback(
+    (s: SettingDefinition) =>
+      (selectedPlatforms.length === 0 || matchesPlatformFilter(s.applicability?.platform, selectedPlatforms)) &&
+      matchesUsageFilter(s.settingUsage, selectedUsage) &&
+      (!release || isAvailableOnRelease(s.applicability, release)) &&
+      (!hiddenEdition || isSupportedOnEdition(s.applicability, hiddenEdition)),
+    [selectedPlatforms, selectedUsage, release, hiddenEdition]
+  );
+
   // Filter the category tree so only categories with settings matching the
-  // selected platform(s) are shown.  When no platform filter is active the
+  // selected platform(s), catalog, OS release and edition are shown.  When no filter is active the
   // full tree is returned unchanged.
   const filteredCategoryTree = useMemo(() => {
-    if (selectedPlatforms.length === 0) return categoryTree;
+    if (!hasFilters) return categoryTree;
 
     // Build a lookup map for CSP-path deduplication (same logic as SettingsList)
     const settingById = new Map<string, SettingDefinition>();
@@ -271,14 +329,12 @@ export default function SettingsCatalogBrowser({
         .map(filterNode)
         .filter((c): c is CategoryTreeNode => c !== null);
 
-      // Count visible settings in *this* category that match the platform filter.
+      // Count visible settings in *this* category that match the filters.
       // Excludes child settings whose CSP path is identical to their parent
       // (these are hidden duplicates in the UI).
       const catSettings = settingsByCategory[node.id] || [];
       const matchingCount = catSettings.filter(
-        (s) =>
-          isVisibleSetting(s) &&
-          matchesPlatformFilter(s.applicability?.platform, selectedPlatforms)
+        (s) => isVisibleSetting(s) && matchesFilters(s)
       ).length;
 
       // Total = own matching + all descendants' matching
@@ -298,17 +354,19 @@ export default function SettingsCatalogBrowser({
     return categoryTree
       .map(filterNode)
       .filter((c): c is CategoryTreeNode => c !== null);
-  }, [categoryTree, selectedPlatforms, settingsByCategory]);
+  }, [categoryTree, hasFilters, matchesFilters, settingsByCategory]);
 
-  // Clear selected category when it's removed by a platform filter change
+  // Clear selected category when it's removed by a platform or catalog filter change.
+  // Wait for settings to load — until then the filtered tree is empty and a
+  // category restored from the URL would be dropped.
   useEffect(() => {
-    if (!selectedCategoryId || selectedPlatforms.length === 0) return;
+    if (!settingsLoaded || !selectedCategoryId || (!hasFilters && !archived)) return;
     const exists = collectCategoryIds(filteredCategoryTree, selectedCategoryId).length > 0;
     if (!exists) {
       setSelectedCategoryId(null);
       setSelectedCategoryName('');
     }
-  }, [filteredCategoryTree, selectedCategoryId, selectedPlatforms]);
+  }, [filteredCategoryTree, selectedCategoryId, hasFilters, archived, settingsLoaded]);
 
   // When browsing a category: flat list of settings
   const categorySettings = useMemo(() => {
@@ -323,15 +381,13 @@ export default function SettingsCatalogBrowser({
       }
     }
 
-    // Apply platform filter
-    if (selectedPlatforms.length > 0) {
-      settings = settings.filter(
-        (s) => matchesPlatformFilter(s.applicability?.platform, selectedPlatforms)
-      );
+    // Apply platform, catalog, OS release and edition filters
+    if (hasFilters) {
+      settings = settings.filter(matchesFilters);
     }
 
     return settings;
-  }, [selectedCategoryId, searchResults, settingsByCategory, selectedPlatforms, filteredCategoryTree]);
+  }, [selectedCategoryId, searchResults, settingsByCategory, hasFilters, matchesFilters, filteredCategoryTree]);
 
   // When searching: group matched settings by their source category,
   // preserving the relevance order from the search engine so that groups
@@ -357,14 +413,12 @@ export default function SettingsCatalogBrowser({
       }
     }
 
-    // Apply platform filter
+    // Apply platform, catalog, OS release and edition filters
     const groups: CategorySettingsGroup[] = [];
     for (const [catId, settings] of groupMap) {
       let filtered = settings;
-      if (selectedPlatforms.length > 0) {
-        filtered = filtered.filter(
-          (s) => matchesPlatformFilter(s.applicability?.platform, selectedPlatforms)
-        );
+      if (hasFilters) {
+        filtered = filtered.filter(matchesFilters);
       }
       if (filtered.length > 0) {
         // Sort settings within each group by search relevance rank
@@ -388,7 +442,7 @@ export default function SettingsCatalogBrowser({
       return a.categoryName.localeCompare(b.categoryName);
     });
     return groups;
-  }, [searchResults, settingsByCategory, selectedPlatforms, categoryMap, categoryParentMap]);
+  }, [searchResults, settingsByCategory, hasFilters, matchesFilters, categoryMap, categoryParentMap]);
 
   // Total matched settings count for display — uses the same grouping logic
   // as SettingsList so the banner count matches the actual visible rows.
@@ -400,22 +454,61 @@ export default function SettingsCatalogBrowser({
     return count;
   }, [searchGroups]);
 
-  // Compute the displayed settings count based on active platform filter
+  // Compute the displayed settings count based on active platform, catalog, OS release and edition filters
   const displayedSettingsCount = useMemo(() => {
-    if (selectedPlatforms.length === 0) return totalSettings;
+    if (!hasFilters) return totalSettings;
     let count = 0;
     for (const catSettings of Object.values(settingsByCategory)) {
       for (const s of catSettings) {
-        if (matchesPlatformFilter(s.applicability?.platform, selectedPlatforms)) {
+        if (matchesFilters(s)) {
           count++;
         }
       }
     }
     return count;
-  }, [selectedPlatforms, settingsByCategory, totalSettings]);
+  }, [hasFilters, matchesFilters, settingsByCategory, totalSettings]);
 
   const isSearching = searchResults !== null && searchResults.length > 0;
 
+  // Only the free-text part of a structured query is highlighted
+  const highlightQuery = useMemo(() => getHighlightQuery(searchQuery), [searchQuery]);
+
+  // Write the current view back to the URL. The query is recorded whenever the
+  // input holds one, even if it matches nothing; a search with results clears
+  // the selected category, so `cat` is only kept alongside an empty search.
+  useEffect(() => {
+    if (!urlReady) return;
+    const state: BrowseUrlState = {
+      query: searchQuery,
+      platforms: selectedPlatforms,
+      usage: selectedUsage,
+      os: selectedRelease,
+      edition: selectedEdition,
+      showUnsupported,
+      date: asOfDate,
+      categoryId: selectedCategoryId,
+    };
+    const search = buildBrowseUrl(state);
+    if (search === window.location.search) {
+      lastUrlStateRef.current = state;
+      return;
+    }
+    const prev = lastUrlStateRef.current;
+    const onlyQueryChanged =
+      prev !== null &&
+      prev.categoryId === state.categoryId &&
+      prev.platforms.join(',') === state.platforms.join(',') &&
+      prev.usage === state.usage &&
+      prev.os === state.os &&
+      prev.edition === state.edition &&
+      prev.showUnsupported === state.showUnsupported &&
+      prev.date === state.date;
+    const url = `${window.location.pathname}${search}${window.location.hash}`;
+    if (onlyQueryChanged) window.history.replaceState(null, '', url);
+    else window.history.pushState(null, '', url);
+    lastUrlStateRef.current = state;
+  }, [urlReady, searchQuery, selectedPlatforms, selectedUsage, selectedRelease, selectedEdition, showUnsupported, asOfDate, selectedCategoryId]);
+
   // Close mobile drawer when a category is selected
   const handleSelectCategoryMobile = useCallback(
     (categoryId: string, categoryName: string) => {
@@ -444,27 +537,52 @@ export default function SettingsCatalogBrowser({
                     Loading settings…
                   </span>
               }
-              {lastUpdated && (
+              {archived ? (
+                <span> · As of {new Date(`${archived.date}T00:00:00`).toLocaleDateString()}</span>
+              ) : lastUpdated && (
                 <span> · Last updated: {new Date(lastUpdated).toLocaleDateString()}</span>
               )}
             </p>
           </div>
+          <SnapshotDatePicker value={asOfDate} onChange={setAsOfDate} />
         </div>
 
+        {archived && (
+          <p className="mb-3 px-3 py-2 rounded-md text-fluent-sm bg-amber-50 text-amber-800 border border-amber-200">
+            Showing the catalog as it was on {new Date(`${archived.date}T00:00:00`).toLocaleDateString()}.
+            Search only finds settings that still exist today, and setting pages show their current definition.
+          </p>
+        )}
+
         {/* Search bar */}
         <div>
           <SearchBar
+            value={searchQuery}
             onSearchResults={handleSearchResults}
             onQueryChange={setSearchQuery}
           />
         </div>
 
-        {/* Platform filters */}
-        <div className="mt-3">
+        {/* Platform, edition, catalog and OS release filters */}
+        <div className="mt-3 flex items-center gap-x-6 gap-y-2 flex-wrap">
           <PlatformFilter
             selectedPlatforms={selectedPlatforms}
             onPlatformsChange={setSelectedPlatforms}
           />
+          <EditionFilter
+            selectedEdition={selectedEdition}
+            onEditionChange={setSelectedEdition}
+            showUnsupported={showUnsupported}
+            onShowUnsupportedChange={setShowUnsupported}
+          />
+          <UsageFilter
+            selectedUsage={selectedUsage}
+            onUsageChange={setSelectedUsage}
+          />
+          <OsReleaseFilter
+            selectedRelease={selectedRelease}
+            onReleaseChange={setSelectedRelease}
+          />
         </div>
 
       </div>
@@ -576,6 +694,10 @@ export default function SettingsCatalogBrowser({
                 <div className="text-fluent-base font-semibold text-fluent-blue">
                   {searchResultCount.toLocaleString()} matching {searchResultCount === 1 ? 'setting' : 'settings'} across {searchGroups.length} {searchGroups.length === 1 ? 'category' : 'categories'}
                 </div>
+                <ExportButtons
+                  getRows={() => buildExportRows(searchGroups.map((g) => g.settings), { categoryMap, categoryParentMap })}
+                  filename={`settings-search-${searchQuery.trim()}`}
+                />
               </div>
 
               {searchGroups.map((group) => (
@@ -585,8 +707,9 @@ export default function SettingsCatalogBrowser({
                   categoryName={group.categoryName}
                   breadcrumb={group.breadcrumb}
                   isSearchResult
-                  highlightQuery={searchQuery}
+                  highlightQuery={highlightQuery}
                   categoryMap={categoryMap}
+                  edition={selectedEdition || undefined}
                 />
               ))}
             </div>
@@ -597,6 +720,8 @@ export default function SettingsCatalogBrowser({
               totalCount={categorySettings.length}
               scrollContainerRef={settingsScrollRef}
               categoryMap={categoryMap}
+              categoryParentMap={categoryParentMap}
+              edition={selectedEdition || undefined}
             />
           ) : !settingsLoaded ? (
             <div className="flex flex-col items-center justify-center h-full text-fluent-text-secondary">
@@ -620,19 +745,20 @@ export default function SettingsCatalogBrowser({
   );
 }
 
+/** Find a category node anywhere in the tree */
+function findCategoryNode(tree: CategoryTreeNode[], targetId: string): CategoryTreeNode | null {
+  for (const node of tree) {
+    if (node.id === targetId) return node;
+    const found = findCategoryNode(node.children, targetId);
+    if (found) return found;
+  }
+  return null;
+}
+
 /** Recursively collect a category ID and all its descendant IDs */
 function collectCategoryIds(tree: CategoryTreeNode[], targetId: string): string[] {
   const ids: string[] = [];
 
-  function find(nodes: CategoryTreeNode[]): CategoryTreeNode | null {
-    for (const node of nodes) {
-      if (node.id === targetId) return node;
-      const found = find(node.children);
-      if (found) return found;
-    }
-    return null;
-  }
-
   function collect(node: CategoryTreeNode) {
     ids.push(node.id);
     for (const child of node.children) {
@@ -640,7 +766,7 @@ function collectCategoryIds(tree: CategoryTreeNode[], targetId: string): string[
     }
   }
 
-  const target = find(tree);
+  const target = findCategoryNode(tree, targetId);
   if (target) {
     collect(target);
   }
@@ -2,12 +2,14 @@
 
 import { useMemo, useRef, useState, useEffect } from 'react';
 import { useVirtualizer } from '@tanstack/react-virtual';
-import type { SettingDefinition, MatchSource } from '@/lib/types';
+import type { SettingDefinition, MatchSource, WindowsSku } from '@/lib/types';
 import { detectMatchSources } from '@/lib/types';
 import { getAsrRuleInfo } from '@/lib/asr-rules';
 import { groupSettings } from '@/lib/settings-grouping';
+import { buildExportRows } from '@/lib/settings-export';
 import SettingRow from './SettingRow';
 import HighlightText from './HighlightText';
+import ExportButtons from './ExportButtons';
 
 interface SettingsListProps {
   settings: SettingDefinition[];
@@ -24,6 +26,10 @@ interface SettingsListProps {
   breadcrumb?: string[];
   /** Map of categoryId → displayName, used to disambiguate same-named settings from different sub-categories */
   categoryMap?: Record<string, string>;
+  /** Map of categoryId → parent categoryId; with categoryMap, enables the export buttons in category view */
+  categoryParentMap?: Record<string, string>;
+  /** Windows edition selected in the edition filter, passed on for the row warning badge */
+  edition?: WindowsSku;
 }
 
 const PAGE_SIZE = 500;
@@ -37,6 +43,8 @@ export default function SettingsList({
   scrollContainerRef,
   breadcrumb,
   categoryMap,
+  categoryParentMap,
+  edition,
 }: SettingsListProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const [collapsed, setCollapsed] = useState(false);
@@ -184,6 +192,7 @@ export default function SettingsList({
                 matchSources={matchSourcesMap.get(setting.id)}
                 allSettings={settings}
                 disambiguationLabel={disambiguationMap.get(setting.id)}
+                edition={edition}
               />
             ))}
 
@@ -215,6 +224,15 @@ export default function SettingsList({
         <span className="text-fluent-sm text-fluent-text-secondary">
           ({count.toLocaleString()} {count === 1 ? 'setting' : 'settings'})
         </span>
+        {categoryMap && categoryParentMap && (
+          <div className="ml-auto">
+            <ExportButtons
+              getRows={() => buildExportRows([settings], { categoryMap, categoryParentMap })}
+              filename={`settings-${categoryName}`}
+              disabled={settings.length === 0}
+            />
+          </div>
+        )}
       </div>
 
       {/* Column header */}
@@ -255,6 +273,7 @@ export default function SettingsList({
                 childSettings={childMap.get(setting.id)}
                 allSettings={settings}
                 disambiguationLabel={disambiguationMap.get(setting.id)}
+                edition={edition}
               />
             </div>
           );
@@ -0,0 +1,58 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { fetchArchiveIndex, deltasAfter, earliestArchiveDate } from '@/lib/snapshot-archive';
+import type { ArchiveIndex } from '@/lib/snapshot-archive';
+
+interface SnapshotDatePickerProps {
+  /** Archived date being shown, or null for today's catalog */
+  value: string | null;
+  onChange: (date: string | null) => void;
+}
+
+/** "As of" date input for browsing archived snapshots; hidden until the archive has a delta */
+export default function SnapshotDatePicker({ value, onChange }: SnapshotDatePickerProps) {
+  const [index, setIndex] = useState<ArchiveIndex | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchArchiveIndex()
+      .then((i) => { if (!cancelled) setIndex(i); })
+      .catch((err) => console.error('Failed to load snapshot archive index:', err));
+    return () => { cancelled = true; };
+  }, []);
+
+  const earliest = index ? earliestArchiveDate(index) : null;
+  if (!index || !earliest) return null;
+
+  const today = new Date().toISOString().split('T')[0];
+
+  const handleChange = (date: string) => {
+    // Dates after the newest refresh look exactly like today
+    if (!date || deltasAfter(index, date).length === 0) onChange(null);
+    else onChange(date < earliest ? earliest : date);
+  };
+
+  return (
+    <label className="inline-flex items-center gap-2 text-fluent-sm text-fluent-text-secondary">
+      <span className="font-medium">As of:</span>
+      <input
+        type="date"
+        value={value ?? today}
+        min={earliest}
+        max={today}
+        onChange={(e) => handleChange(e.target.value)}
+        className="px-2 py-1 rounded border border-fluent-border bg-white text-fluent-text text-fluent-sm focus:outline-none focus:border-fluent-blue"
+        aria-label="Show the catalog as of a past date"
+      />
+      {value && (
+        <button
+          onClick={() => onChange(null)}
+          className="text-fluent-blue hover:underline"
+        >
+          Today
+        </button>
+      )}
+    </label>
+  );
+}
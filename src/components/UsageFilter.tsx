@@ -0,0 +1,45 @@
+'use client';
+
+import type { SettingUsage } from '@/lib/types';
+
+/** Usage filter value — empty shows every catalog */
+export type UsageFilterValue = SettingUsage | '';
+
+interface UsageFilterProps {
+  selectedUsage: UsageFilterValue;
+  onUsageChange: (usage: UsageFilterValue) => void;
+}
+
+const USAGES: Array<{ value: UsageFilterValue; label: string }> = [
+  { value: '', label: 'All' },
+  { value: 'configuration', label: 'Configuration' },
+  { value: 'compliance', label: 'Compliance' },
+  { value: 'inventory', label: 'Inventory' },
+];
+
+export default function UsageFilter({ selectedUsage, onUsageChange }: UsageFilterProps) {
+  return (
+    <div className="flex items-center gap-2 flex-wrap" role="radiogroup" aria-label="Catalog">
+      <span className="text-fluent-sm text-fluent-text-secondary font-medium">Catalog:</span>
+
+      {USAGES.map((u) => {
+        const isActive = selectedUsage === u.value;
+        return (
+          <button
+            key={u.value || 'all'}
+            role="radio"
+            aria-checked={isActive}
+            onClick={() => onUsageChange(u.value)}
+            className={`platform-filter-btn inline-flex items-center gap-1.5 px-3 py-1 rounded text-fluent-sm border transition-colors ${
+              isActive
+                ? 'bg-fluent-blue text-white border-fluent-blue'
+                : 'bg-white text-fluent-text border-fluent-border hover:bg-fluent-bg-alt'
+            }`}
+          >
+            {u.label}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
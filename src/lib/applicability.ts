@@ -0,0 +1,201 @@
+/**
+ * OS version ranges, Windows editions and device requirements from a
+ * setting's applicability, in human terms, plus the "available on" release
+ * and edition filters used by the browse view.
+ */
+
+import type { SettingApplicability, WindowsSku } from './types';
+import { getPlatformLabel } from './types';
+import type { ConstraintFact } from './setting-constraints';
+import { matchesPlatformFilter } from './platform-filter';
+
+/** Windows 10/11 feature updates by build number */
+const WINDOWS_BUILDS: Record<number, string> = {
+  10240: 'Windows 10 1507',
+  10586: 'Windows 10 1511',
+  14393: 'Windows 10 1607',
+  15063: 'Windows 10 1703',
+  16299: 'Windows 10 1709',
+  17134: 'Windows 10 1803',
+  17763: 'Windows 10 1809',
+  18362: 'Windows 10 1903',
+  18363: 'Windows 10 1909',
+  19041: 'Windows 10 2004',
+  19042: 'Windows 10 20H2',
+  19043: 'Windows 10 21H1',
+  19044: 'Windows 10 21H2',
+  19045: 'Windows 10 22H2',
+  22000: 'Windows 11 21H2',
+  22621: 'Windows 11 22H2',
+  22631: 'Windows 11 23H2',
+  26100: 'Windows 11 24H2',
+  26200: 'Windows 11 25H2',
+};
+
+export const WINDOWS_SKU_LABELS: Record<WindowsSku, string> = {
+  unknown: 'Unknown',
+  windowsHome: 'Home',
+  windowsProfessional: 'Pro',
+  windowsEnterprise: 'Enterprise',
+  windowsEducation: 'Education',
+  windowsMobile: 'Mobile',
+  windowsMobileEnterprise: 'Mobile Enterprise',
+  windowsTeamSurface: 'Team (Surface Hub)',
+  iot: 'IoT Core',
+  iotEnterprise: 'IoT Enterprise',
+  holoLens: 'HoloLens',
+  holoLensEnterprise: 'HoloLens Enterprise',
+  holographicForBusiness: 'Holographic for Business',
+  windowsMultiSession: 'Enterprise multi-session',
+  surfaceHub: 'Surface Hub',
+};
+
+/** Editions offered by the edition filter */
+export const EDITION_FILTER_SKUS: WindowsSku[] = [
+  'windowsProfessional',
+  'windowsEnterprise',
+  'windowsEducation',
+  'windowsMultiSession',
+  'iotEnterprise',
+  'holoLensEnterprise',
+  'windowsTeamSurface',
+];
+
+export function isWindowsSku(value: string | null | undefined): value is WindowsSku {
+  return !!value && Object.prototype.hasOwnProperty.call(WINDOWS_SKU_LABELS, value);
+}
+
+const ENTRA_TRUST_TYPES: Record<string, string> = {
+  azureAdJoined: 'Microsoft Entra joined',
+  addWorkAccount: 'Microsoft Entra registered (work account added)',
+  mdmOnly: 'MDM enrollment only',
+};
+
+export interface OsRelease {
+  /** URL value, e.g. "win-26100" */
+  value: string;
+  /** PlatformFilter value the release belongs to */
+  platform: string;
+  version: string;
+  label: string;
+}
+
+/** Releases offered by the "Available on" filter, newest first per platform */
+export const OS_RELEASES: OsRelease[] = [
+  { value: 'win-26200', platform: 'windows10', version: '10.0.26200', label: 'Windows 11 25H2' },
+  { value: 'win-26100', platform: 'windows10', version: '10.0.26100', label: 'Windows 11 24H2' },
+  { value: 'win-22631', platform: 'windows10', version: '10.0.22631', label: 'Windows 11 23H2' },
+  { value: 'win-22621', platform: 'windows10', version: '10.0.22621', label: 'Windows 11 22H2' },
+  { value: 'win-19045', platform: 'windows10', version: '10.0.19045', label: 'Windows 10 22H2' },
+  { value: 'win-19044', platform: 'windows10', version: '10.0.19044', label: 'Windows 10 21H2 (LTSC 2021)' },
+  { value: 'win-17763', platform: 'windows10', version: '10.0.17763', label: 'Windows 10 1809 (LTSC 2019)' },
+  { value: 'win-14393', platform: 'windows10', version: '10.0.14393', label: 'Windows 10 1607 (LTSB 2016)' },
+  { value: 'macos-26', platform: 'macOS', version: '26', label: 'macOS 26' },
+  { value: 'macos-15', platform: 'macOS', version: '15', label: 'macOS 15' },
+  { value: 'macos-14', platform: 'macOS', version: '14', label: 'macOS 14' },
+  { value: 'macos-13', platform: 'macOS', version: '13', label: 'macOS 13' },
+  { value: 'ios-26', platform: 'iOS', version: '26', label: 'iOS/iPadOS 26' },
+  { value: 'ios-18', platform: 'iOS', version: '18', label: 'iOS/iPadOS 18' },
+  { value: 'ios-17', platform: 'iOS', version: '17', label: 'iOS/iPadOS 17' },
+  { value: 'ios-16', platform: 'iOS', version: '16', label: 'iOS/iPadOS 16' },
+];
+
+export function findOsRelease(value: string | null | undefined): OsRelease | undefined {
+  return value ? OS_RELEASES.find((r) => r.value === value) : undefined;
+}
+
+/** Numeric dotted-version compare; missing parts count as 0 */
+export function compareVersions(a: string, b: string, parts = 4): number {
+  const pa = a.split('.').map((n) => parseInt(n, 10) || 0);
+  const pb = b.split('.').map((n) => parseInt(n, 10) || 0);
+  for (let i = 0; i < parts; i++) {
+    const diff = (pa[i] ?? 0) - (pb[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+function isWindows(app: SettingApplicability): boolean {
+  return (app.platform ?? '').includes('windows');
+}
+
+/** Windows maximums at build 99999 are the "no upper bound" placeholder */
+function isOpenMaximum(version: string): boolean {
+  return /^10\.0\.99999/.test(version);
+}
+
+/** "10.0.19045" → "Windows 10 22H2 (10.0.19045)"; other versions pass through */
+function describeVersion(app: SettingApplicability, version: string): string {
+  if (isWindows(app)) {
+    const name = WINDOWS_BUILDS[parseInt(version.split('.')[2] ?? '', 10)];
+    return name ? `${name} (${version})` : version;
+  }
+  return `${getPlatformLabel(app.platform)} ${version}`;
+}
+
+/** "Windows 10 1809 (10.0.17763) or later", "macOS 14.0 or later", "… up to …" */
+export function describeVersionRange(app: SettingApplicability | undefined): string | null {
+  if (!app) return null;
+  const min = app.minimumSupportedVersion?.trim();
+  const max = app.maximumSupportedVersion?.trim();
+  const hasMax = !!max && !isOpenMaximum(max);
+  if (min && hasMax) return `${describeVersion(app, min)} up to ${describeVersion(app, max!)}`;
+  if (min) return `${describeVersion(app, min)} or later`;
+  if (hasMax) return `Up to ${describeVersion(app, max!)}`;
+  return null;
+}
+
+export function getWindowsEditions(app: SettingApplicability | undefined): WindowsSku[] {
+  return (app?.windowsSkus ?? []).filter((sku) => sku && sku !== 'unknown');
+}
+
+function describeEntraRequirement(app: SettingApplicability): string | null {
+  const trust = app.requiredAzureAdTrustType && app.requiredAzureAdTrustType !== 'none'
+    ? ENTRA_TRUST_TYPES[app.requiredAzureAdTrustType] ?? app.requiredAzureAdTrustType
+    : null;
+  if (trust) return trust;
+  return app.requiresAzureAd ? 'Requires Microsoft Entra ID' : null;
+}
+
+/** Facts for the "Applicability" section of SettingDetail */
+export function getApplicabilityFacts(app: SettingApplicability | undefined): ConstraintFact[] {
+  if (!app) return [];
+  const facts: ConstraintFact[] = [];
+  const push = (label: string, value: string | null | undefined) => {
+    if (value) facts.push({ label, value });
+  };
+  push('Supported versions', describeVersionRange(app));
+  const editions = getWindowsEditions(app);
+  push('Editions', editions.length > 0 ? editions.map((sku) => WINDOWS_SKU_LABELS[sku] ?? sku).join(', ') : null);
+  push('Device mode', app.deviceMode && app.deviceMode !== 'none' ? app.deviceMode.charAt(0).toUpperCase() + app.deviceMode.slice(1) : null);
+  push('Identity', describeEntraRequirement(app));
+  push('CSP version', app.configurationServiceProviderVersion);
+  return facts;
+}
+
+/**
+ * Whether a setting works on a Windows edition. Only Windows settings that
+ * list their editions can fail; settings for other platforms, or without
+ * edition data, count as supported.
+ */
+export function isSupportedOnEdition(app: SettingApplicability | undefined, sku: WindowsSku): boolean {
+  if (!app || !isWindows(app)) return true;
+  const editions = getWindowsEditions(app);
+  return editions.length === 0 || editions.includes(sku);
+}
+
+/**
+ * Whether a setting can be used on an OS release: it has to target the
+ * release's platform and the release has to fall inside its supported range.
+ * Settings without version data are assumed to work on every release.
+ */
+export function isAvailableOnRelease(app: SettingApplicability | undefined, release: OsRelease): boolean {
+  if (!app || !matchesPlatformFilter(app.platform, [release.platform])) return false;
+  // Windows ranges are compared at build level; a patch-level minimum (10.0.19041.1202) counts as met
+  const parts = release.platform === 'windows10' ? 3 : 4;
+  const min = app.minimumSupportedVersion?.trim();
+  const max = app.maximumSupportedVersion?.trim();
+  if (min && compareVersions(min, release.version, parts) > 0) return false;
+  if (max && compareVersions(release.version, max, parts) > 0) return false;
+  return true;
+}
@@ -0,0 +1,7 @@
+/**
+ * Path prefix for files fetched from public/ (next.config `basePath`).
+ * Next.js inlines the variable into client bundles at build time.
+ */
+export function basePath(): string {
+  return (typeof process !== 'undefined' && process.env.__NEXT_ROUTER_BASEPATH) || '';
+}
@@ -0,0 +1,88 @@
+/**
+ * Client-side loader for /settings-browse.json — the slim settings payload
+ * produced by build-search-index. Shared by the browser and the policy tools
+ * so the file is fetched at most once per page load.
+ *
+ * toBrowseSetting() defines that payload; generate-changelog uses it too for
+ * the snapshot archive.
+ */
+
+import type { SettingDefinition } from './types';
+import { getSettingUsages } from './types';
+import { basePath } from './base-path';
+
+/**
+ * A slim version of a setting containing only the fields needed for the
+ * browse UI (list display, inline expansion, platform filtering, search
+ * match-source detection), with empty values stripped.
+ */
+export function toBrowseSetting(s: SettingDefinition): SettingDefinition {
+  const slim: Record<string, unknown> = {
+    '@odata.type': s['@odata.type'],
+    id: s.id,
+    name: s.name,
+    displayName: s.displayName,
+    description: s.description || undefined,
+    categoryId: s.categoryId,
+    baseUri: s.baseUri || undefined,
+    offsetUri: s.offsetUri || undefined,
+    rootDefinitionId: s.rootDefinitionId || undefined,
+    // Normalised so the usage switcher can rely on it (configuration when Graph sent none)
+    settingUsage: getSettingUsages(s.settingUsage).join(','),
+    uxBehavior: s.uxBehavior || undefined,
+    // Without the free-text description; versions and editions drive the "Available on" filter
+    applicability: s.applicability
+      ? {
+          platform: s.applicability.platform,
+          technologies: s.applicability.technologies,
+          deviceMode: s.applicability.deviceMode,
+          minimumSupportedVersion: s.applicability.minimumSupportedVersion,
+          maximumSupportedVersion: s.applicability.maximumSupportedVersion,
+          windowsSkus: s.applicability.windowsSkus?.length ? s.applicability.windowsSkus : undefined,
+          configurationServiceProviderVersion: s.applicability.configurationServiceProviderVersion,
+          requiresAzureAd: s.applicability.requiresAzureAd || undefined,
+          requiredAzureAdTrustType: s.applicability.requiredAzureAdTrustType,
+        }
+      : undefined,
+    dependedOnBy: s.dependedOnBy || undefined,
+    defaultOptionId: s.defaultOptionId || undefined,
+    // Needed by the policy builder to validate values and lay out children
+    valueDefinition: s.valueDefinition || undefined,
+    defaultValue: s.defaultValue ?? undefined,
+    childIds: s.childIds?.length ? s.childIds : undefined,
+    minimumCount: s.minimumCount ?? undefined,
+    maximumCount: s.maximumCount ?? undefined,
+    // Decoded by the "Constraints & defaults" section of the inline panel
+    occurrence: s.occurrence || undefined,
+    accessTypes: s.accessTypes || undefined,
+    helpText: s.helpText && s.helpText.trim() !== s.description?.trim() ? s.helpText : undefined,
+    // Minimal options: keep displayName + dependedOnBy for toggle detection + inline expansion
+    options: s.options
+      ? s.options.map((o) => ({
+          itemId: o.itemId,
+          displayName: o.displayName,
+          dependedOnBy: o.dependedOnBy || undefined,
+        }))
+      : undefined,
+  };
+  // Strip undefined values to shrink JSON
+  return JSON.parse(JSON.stringify(slim));
+}
+
+let loadPromise: Promise<SettingDefinition[]> | null = null;
+
+export function fetchBrowseSettings(): Promise<SettingDefinition[]> {
+  if (loadPromise) return loadPromise;
+
+  loadPromise = fetch(`${basePath()}/settings-browse.json`)
+    .then((res) => {
+      if (!res.ok) throw new Error(`Failed to load settings: ${res.status}`);
+      return res.json() as Promise<SettingDefinition[]>;
+    })
+    .catch((err) => {
+      // Reset so the next call retries instead of returning a stale failed promise
+      loadPromise = null;
+      throw err;
+    });
+  return loadPromise;
+}
@@ -0,0 +1,71 @@
+/**
+ * Query-string encoding of the browse view, e.g.
+ *   /?q=bitlocker&platform=windows10,macOS
+ *   /?cat=<categoryId>&platform=windows10
+ *   /?usage=compliance&platform=linux
+ *   /?date=2026-03-01&cat=<categoryId>
+ *   /?os=win-19045&q=defender
+ *   /?edition=windowsProfessional&unsupported=show
+ *
+ * Everything lives in the query string (no dynamic routes) so links keep
+ * working on the static export.
+ */
+
+import type { SettingUsage, WindowsSku } from './types';
+import { findOsRelease, isWindowsSku } from './applicability';
+
+const USAGES: SettingUsage[] = ['configuration', 'compliance', 'inventory'];
+
+export interface BrowseUrlState {
+  query: string;
+  platforms: string[];
+  /** Catalog shown (configuration, compliance, inventory); empty for all */
+  usage: SettingUsage | '';
+  /** OsRelease value of the "Available on" filter; empty for any version */
+  os: string;
+  /** Windows edition of the edition filter; empty for any */
+  edition: WindowsSku | '';
+  /** Keep settings the edition doesn't support (flagged in the list) instead of hiding them */
+  showUnsupported: boolean;
+  categoryId: string | null;
+  /** Archived date being browsed (YYYY-MM-DD), or null for today */
+  date: string | null;
+}
+
+/** Parse `window.location.search` into browse state */
+export function parseBrowseUrl(search: string): BrowseUrlState {
+  const params = new URLSearchParams(search);
+  const platforms = params
+    .getAll('platform')
+    .flatMap((p) => p.split(','))
+    .map((p) => p.trim())
+    .filter(Boolean);
+  return {
+    query: params.get('q') ?? '',
+    platforms: [...new Set(platforms)],
+    usage: USAGES.find((u) => u === params.get('usage')) ?? '',
+    os: findOsRelease(params.get('os'))?.value ?? '',
+    edition: isWindowsSku(params.get('edition')) ? (params.get('edition') as WindowsSku) : '',
+    showUnsupported: params.get('unsupported') === 'show',
+    categoryId: params.get('cat') || null,
+    date: /^\d{4}-\d{2}-\d{2}$/.test(params.get('date') ?? '') ? params.get('date') : null,
+  };
+}
+
+/** Build the query string (including the leading `?`, or empty) for browse state */
+export function buildBrowseUrl(state: BrowseUrlState): string {
+  const parts: string[] = [];
+  if (state.query) parts.push(`q=${encodeURIComponent(state.query)}`);
+  if (state.platforms.length > 0) {
+    parts.push(`platform=${state.platforms.map(encodeURIComponent).join(',')}`);
+  }
+  if (state.usage) parts.push(`usage=${encodeURIComponent(state.usage)}`);
+  if (state.os) parts.push(`os=${encodeURIComponent(state.os)}`);
+  if (state.edition) {
+    parts.push(`edition=${encodeURIComponent(state.edition)}`);
+    if (state.showUnsupported) parts.push('unsupported=show');
+  }
+  if (state.categoryId) parts.push(`cat=${encodeURIComponent(state.categoryId)}`);
+  if (state.date) parts.push(`date=${state.date}`);
+  return parts.length > 0 ? `?${parts.join('&')}` : '';
+}
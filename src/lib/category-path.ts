@@ -0,0 +1,60 @@
+/**
+ * Category path helpers shared by the browser and the policy tools.
+ */
+
+import type { CategoryTreeNode } from './types';
+
+/** Parent ID of top-level categories */
+export const ROOT_CATEGORY_ID = '00000000-0000-0000-0000-000000000000';
+
+/** Build an ancestor breadcrumb path (root → parent) for a given category. */
+export function buildBreadcrumb(
+  categoryId: string,
+  categoryMap: Record<string, string>,
+  categoryParentMap: Record<string, string>,
+): string[] {
+  const crumbs: string[] = [];
+  let current = categoryParentMap[categoryId];
+  const visited = new Set<string>();
+  while (current && current !== ROOT_CATEGORY_ID && !visited.has(current)) {
+    visited.add(current);
+    crumbs.unshift(categoryMap[current] || 'Unknown Category');
+    current = categoryParentMap[current];
+  }
+  return crumbs;
+}
+
+/** Category IDs in category-tree order (depth-first, as shown in the sidebar) */
+export function flattenCategoryOrder(tree: CategoryTreeNode[]): string[] {
+  const order: string[] = [];
+  const walk = (nodes: CategoryTreeNode[]) => {
+    for (const n of nodes) {
+      order.push(n.id);
+      walk(n.children);
+    }
+  };
+  walk(tree);
+  return order;
+}
+
+/**
+ * Bucket items by category, ordered as in the category tree. Items whose
+ * category is not in the tree (or is unknown) come last, under categoryId ''.
+ */
+export function groupByCategoryTree<T>(
+  items: T[],
+  getCategoryId: (item: T) => string | undefined,
+  tree: CategoryTreeNode[],
+): Array<{ categoryId: string; items: T[] }> {
+  const rank = new Map(flattenCategoryOrder(tree).map((id, i) => [id, i]));
+  const buckets = new Map<string, T[]>();
+  for (const item of items) {
+    const id = getCategoryId(item);
+    const key = id && rank.has(id) ? id : '';
+    if (!buckets.has(key)) buckets.set(key, []);
+    buckets.get(key)!.push(item);
+  }
+  return [...buckets.entries()]
+    .sort(([a], [b]) => (rank.get(a) ?? Infinity) - (rank.get(b) ?? Infinity))
+    .map(([categoryId, grouped]) => ({ categoryId, items: grouped }));
+}
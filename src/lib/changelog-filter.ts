@@ -0,0 +1,115 @@
+/**
+ * Text, platform and category-subtree filtering of changelog entries.
+ *
+ * Changelog refs carry Graph category IDs, which the category tree may have
+ * merged into a duplicate. At build time buildChangelogCategoryIndex resolves
+ * every category the changelog mentions to its path in category-tree.json,
+ * and keeps only the tree nodes on those paths for the category picker —
+ * a few kilobytes instead of the whole tree.
+ */
+
+import type { ChangelogEntry, CategoryTreeNode } from './types';
+import { matchesPlatformFilter } from './platform-filter';
+
+/** One row of the category picker, in tree order */
+export interface ChangelogCategoryOption {
+  id: string;
+  displayName: string;
+  depth: number;
+}
+
+export interface ChangelogCategoryIndex {
+  options: ChangelogCategoryOption[];
+  /** Graph category ID → tree node IDs from the root down to its own node */
+  paths: Record<string, string[]>;
+}
+
+export interface ChangelogFilters {
+  query: string;
+  platforms: string[];
+  categoryId: string | null;
+}
+
+/** Category IDs a changelog mentions, for settings and category changes alike */
+function referencedCategoryIds(entries: ChangelogEntry[]): Set<string> {
+  const ids = new Set<string>();
+  for (const e of entries) {
+    for (const s of [...e.added, ...e.removed, ...e.changed, ...(e.renamed ?? [])]) ids.add(s.categoryId);
+    for (const c of [...(e.categoriesAdded ?? []), ...(e.categoriesRemoved ?? []), ...(e.categoriesChanged ?? [])]) ids.add(c.id);
+  }
+  return ids;
+}
+
+export function buildChangelogCategoryIndex(
+  tree: CategoryTreeNode[],
+  mergeMap: Record<string, string>,
+  entries: ChangelogEntry[],
+): ChangelogCategoryIndex {
+  const pathById = new Map<string, string[]>();
+  const walk = (node: CategoryTreeNode, ancestors: string[]) => {
+    const path = [...ancestors, node.id];
+    pathById.set(node.id, path);
+    for (const child of node.children) walk(child, path);
+  };
+  for (const root of tree) walk(root, []);
+
+  const paths: Record<string, string[]> = {};
+  const shown = new Set<string>();
+  for (const id of referencedCategoryIds(entries)) {
+    const path = pathById.get(mergeMap[id] ?? id);
+    if (!path) continue;
+    paths[id] = path;
+    for (const nodeId of path) shown.add(nodeId);
+  }
+
+  const options: ChangelogCategoryOption[] = [];
+  const collect = (nodes: CategoryTreeNode[], depth: number) => {
+    for (const node of nodes) {
+      if (!shown.has(node.id)) continue;
+      options.push({ id: node.id, displayName: node.displayName, depth });
+      collect(node.children, depth + 1);
+    }
+  };
+  collect(tree, 0);
+  return { options, paths };
+}
+
+export function hasChangelogFilters(filters: ChangelogFilters): boolean {
+  return !!filters.query.trim() || filters.platforms.length > 0 || !!filters.categoryId;
+}
+
+/** Keep only the settings and categories in an entry that match every filter */
+export function filterChangelogEntry(
+  entry: ChangelogEntry,
+  filters: ChangelogFilters,
+  paths: Record<string, string[]>,
+): ChangelogEntry {
+  if (!hasChangelogFilters(filters)) return entry;
+  const query = filters.query.trim().toLowerCase();
+  const matchesText = (...values: Array<string | undefined>) =>
+    !query || values.some((v) => v?.toLowerCase().includes(query));
+  const inCategory = (categoryId: string) =>
+    !filters.categoryId || (paths[categoryId]?.includes(filters.categoryId) ?? false);
+  const matchesSetting = (
+    s: { id: string; displayName: string; categoryId: string; categoryName?: string; platform?: string },
+    ...otherNames: string[]
+  ) =>
+    matchesText(s.displayName, s.id, s.categoryName, ...otherNames) &&
+    (filters.platforms.length === 0 || matchesPlatformFilter(s.platform, filters.platforms)) &&
+    inCategory(s.categoryId);
+  // Category refs have no platform, so a platform filter hides category changes
+  const matchesCategory = (c: { id: string; displayName: string }) =>
+    filters.platforms.length === 0 && matchesText(c.displayName, c.id) && inCategory(c.id);
+
+  return {
+    ...entry,
+    added: entry.added.filter((s) => matchesSetting(s)),
+    removed: entry.removed.filter((s) => matchesSetting(s)),
+    changed: entry.changed.filter((s) => matchesSetting(s)),
+    // A rename also matches on the name and ID it had before
+    renamed: entry.renamed?.filter((r) => matchesSetting(r, r.oldId, r.oldDisplayName)),
+    categoriesAdded: entry.categoriesAdded?.filter(matchesCategory),
+    categoriesRemoved: entry.categoriesRemoved?.filter(matchesCategory),
+    categoriesChanged: entry.categoriesChanged?.filter(matchesCategory),
+  };
+}
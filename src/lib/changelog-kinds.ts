@@ -0,0 +1,60 @@
+/**
+ * Change kinds for changelog field diffs.
+ *
+ * generate-changelog emits one ChangelogFieldChange per changed field; the
+ * field name decides which kind it belongs to. Value-definition properties
+ * are emitted as `valueDefinition.<property>`.
+ */
+
+export type ChangeKind =
+  | 'text'
+  | 'location'
+  | 'options'
+  | 'values'
+  | 'defaults'
+  | 'dependencies'
+  | 'metadata'
+  | 'applicability'
+  | 'other';
+
+export const CHANGE_KIND_LABELS: Record<ChangeKind, string> = {
+  text: 'Names & descriptions',
+  location: 'Category & CSP path',
+  options: 'Options',
+  values: 'Value constraints',
+  defaults: 'Defaults',
+  dependencies: 'Dependencies',
+  metadata: 'Keywords, links & usage',
+  applicability: 'Applicability',
+  other: 'Other',
+};
+
+const FIELD_KINDS: Record<string, ChangeKind> = {
+  displayName: 'text',
+  description: 'text',
+  helpText: 'text',
+  name: 'text',
+  id: 'location',
+  categoryId: 'location',
+  parentCategoryId: 'location',
+  baseUri: 'location',
+  offsetUri: 'location',
+  options: 'options',
+  defaultOptionId: 'defaults',
+  defaultValue: 'defaults',
+  dependentOn: 'dependencies',
+  dependedOnBy: 'dependencies',
+  keywords: 'metadata',
+  infoUrls: 'metadata',
+  settingUsage: 'metadata',
+  occurrence: 'metadata',
+  applicability: 'applicability',
+  platforms: 'applicability',
+  technologies: 'applicability',
+};
+
+/** Kind of a changelog field diff, by field name */
+export function getChangeKind(field: string): ChangeKind {
+  if (field.startsWith('valueDefinition')) return 'values';
+  return FIELD_KINDS[field] ?? 'other';
+}
@@ -0,0 +1,341 @@
+/**
+ * Arbitrary-range changelog comparison.
+ *
+ * Folds the daily ChangelogEntry records between two dates into a single
+ * entry describing the net change over the range:
+ * - a setting added and later removed cancels out; one removed and re-added
+ *   is reported as changed, since the re-added definition may differ
+ * - repeated edits to a field collapse to the first oldValue and the last
+ *   newValue, and vanish when those are equal again
+ * - renames chain (a → b → c becomes a → c) and absorb edits made before or
+ *   after them
+ *
+ * Also renders a merged range as Markdown for change review boards.
+ */
+
+import type {
+  ChangelogEntry,
+  ChangelogSettingRef,
+  ChangelogFieldChange,
+  ChangelogOptionChange,
+  ChangelogRename,
+  ChangelogCategoryRef,
+  ChangelogCategoryChange,
+} from './types';
+import { settingSlug } from './slug';
+
+/** Field diffs that only record a definition version bump */
+export function withoutVersionChanges(entry: ChangelogEntry): ChangelogEntry {
+  return {
+    ...entry,
+    changed: entry.changed
+      .map((c) => ({ ...c, fields: c.fields.filter((f) => f.field !== 'version') }))
+      .filter((c) => c.fields.length > 0),
+  };
+}
+
+// ─── Field merging ───
+
+type OptionFieldChange = NonNullable<ChangelogOptionChange['fields']>[number];
+
+/** Collapse two runs of property changes to first-old / last-new */
+function mergeValueChanges<T extends { field: string; oldValue: string; newValue: string }>(
+  earlier: T[],
+  later: T[],
+  combine: (first: T, last: T) => T,
+): T[] {
+  const byField = new Map(earlier.map((f) => [f.field, f]));
+  for (const f of later) {
+    const first = byField.get(f.field);
+    byField.set(f.field, first ? combine(first, f) : f);
+  }
+  return [...byField.values()].filter((f) => f.oldValue !== f.newValue);
+}
+
+/** Net option changes by itemId over two consecutive diffs */
+function mergeOptionChanges(earlier: ChangelogOptionChange[], later: ChangelogOptionChange[]): ChangelogOptionChange[] {
+  const byId = new Map(earlier.map((o) => [o.itemId, o]));
+  for (const o of later) {
+    const first = byId.get(o.itemId);
+    if (!first) {
+      byId.set(o.itemId, o);
+    } else if (first.kind === 'added') {
+      // Added then removed cancels; added then edited is still an addition
+      if (o.kind === 'removed') byId.delete(o.itemId);
+      else byId.set(o.itemId, { ...first, displayName: o.displayName });
+    } else if (first.kind === 'removed') {
+      // Removed then re-added: present at both ends, property changes unknown
+      byId.set(o.itemId, { itemId: o.itemId, kind: 'changed', displayName: o.displayName, fields: [] });
+    } else if (o.kind === 'removed') {
+      byId.set(o.itemId, o);
+    } else {
+      byId.set(o.itemId, {
+        ...o,
+        fields: mergeValueChanges<OptionFieldChange>(first.fields ?? [], o.fields ?? [], (a, b) => ({ ...b, oldValue: a.oldValue })),
+      });
+    }
+  }
+  return [...byId.values()].filter((o) => o.kind !== 'changed' || (o.fields?.length ?? 0) > 0);
+}
+
+/** Net `options` field change: "N options" → "M options (x added, …)" */
+function mergeOptionsField(first: ChangelogFieldChange, last: ChangelogFieldChange): ChangelogFieldChange {
+  const optionChanges = mergeOptionChanges(first.optionChanges ?? [], last.optionChanges ?? []);
+  const count = (kind: ChangelogOptionChange['kind']) => optionChanges.filter((c) => c.kind === kind).length;
+  const summary = [
+    count('added') && `${count('added')} added`,
+    count('removed') && `${count('removed')} removed`,
+    count('changed') && `${count('changed')} changed`,
+  ].filter(Boolean).join(', ');
+  const total = /^\d+ options/.exec(last.newValue)?.[0] ?? last.newValue;
+  // Without net option changes only the count is known; an unchanged count drops out
+  const newValue = summary ? `${total} (${summary})` : total;
+  return {
+    field: 'options',
+    oldValue: first.oldValue,
+    newValue,
+    ...(optionChanges.length > 0 && { optionChanges }),
+  };
+}
+
+/** First-old / last-new for one field; one-step summaries ("max 100 → 50") are rewritten for the range */
+function combineFieldChanges(first: ChangelogFieldChange, last: ChangelogFieldChange): ChangelogFieldChange {
+  if (first.field === 'options') return mergeOptionsField(first, last);
+  const arrow = ` ${last.oldValue} → ${last.newValue}`;
+  const summary = last.summary?.endsWith(arrow)
+    ? `${last.summary.slice(0, -arrow.length)} ${first.oldValue} → ${last.newValue}`
+    : undefined;
+  return { field: last.field, oldValue: first.oldValue, newValue: last.newValue, ...(summary && { summary }) };
+}
+
+/** Net field changes after `earlier` then `later` */
+export function mergeFieldChanges(earlier: ChangelogFieldChange[], later: ChangelogFieldChange[]): ChangelogFieldChange[] {
+  return mergeValueChanges(earlier, later, combineFieldChanges);
+}
+
+// ─── Range merging ───
+
+interface TrackedSetting {
+  kind: 'added' | 'removed' | 'changed' | 'renamed';
+  ref: ChangelogSettingRef;
+  fields: ChangelogFieldChange[];
+  /** For renames: the rename as first detected, with the range's first old ID */
+  rename?: ChangelogRename;
+  /** For removals: the date of the entry that removed it */
+  removedOn?: string;
+}
+
+interface TrackedCategory {
+  kind: 'added' | 'removed' | 'changed';
+  ref: ChangelogCategoryRef;
+  fields: ChangelogFieldChange[];
+}
+
+function settingRef(s: ChangelogSettingRef): ChangelogSettingRef {
+  return { id: s.id, displayName: s.displayName, categoryId: s.categoryId, categoryName: s.categoryName, platform: s.platform };
+}
+
+/** Entries dated from `from` through `to` (inclusive), oldest first */
+export function entriesInRange(entries: ChangelogEntry[], from: string, to: string): ChangelogEntry[] {
+  return entries
+    .filter((e) => e.date >= from && e.date <= to)
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * The net change logged from `from` through `to` (inclusive ISO dates), as a
+ * single entry dated `to`. Version-only field diffs are ignored.
+ */
+export function mergeChangelogRange(entries: ChangelogEntry[], from: string, to: string): ChangelogEntry {
+  const settings = new Map<string, TrackedSetting>();
+  const categories = new Map<string, TrackedCategory>();
+
+  const removeSetting = (ref: ChangelogSettingRef, date: string) => {
+    const t = settings.get(ref.id);
+    settings.delete(ref.id);
+    if (t?.kind === 'added') return;
+    if (t?.kind === 'renamed' && t.rename) {
+      // The setting that existed at the start was the rename's old ID
+      removeSetting({ ...ref, id: t.rename.oldId, displayName: t.rename.oldDisplayName }, date);
+      return;
+    }
+    settings.set(ref.id, { kind: 'removed', ref: settingRef(ref), fields: [], removedOn: date });
+  };
+
+  for (const entry of entriesInRange(entries, from, to).map(withoutVersionChanges)) {
+    for (const s of entry.removed) removeSetting(s, entry.date);
+
+    for (const r of entry.renamed ?? []) {
+      const t = settings.get(r.oldId);
+      settings.delete(r.oldId);
+      const ref = settingRef(r);
+      if (t?.kind === 'added') {
+        settings.set(r.id, { kind: 'added', ref, fields: [] });
+        continue;
+      }
+      const first = t?.rename;
+      const rename: ChangelogRename = first
+        ? {
+            ...r,
+            oldId: first.oldId,
+            oldDisplayName: first.oldDisplayName,
+            kind: first.kind === 'superseded' ? 'superseded' : r.kind,
+            confidence: Math.min(first.confidence, r.confidence),
+            matchedOn: r.matchedOn.filter((m) => first.matchedOn.includes(m)),
+          }
+        : r;
+      const fields = mergeFieldChanges(t?.fields ?? [], r.fields);
+      // Renamed away and back again: an ordinary change
+      if (rename.oldId === rename.id) settings.set(r.id, { kind: 'changed', ref, fields });
+      else settings.set(r.id, { kind: 'renamed', ref, fields, rename });
+    }
+
+    for (const s of entry.added) {
+      const t = settings.get(s.id);
+      if (t?.kind === 'removed') {
+        // Present at both ends, but the definition may not be the one that was removed
+        const removedOn = t.removedOn ?? '';
+        settings.set(s.id, {
+          kind: 'changed',
+          ref: settingRef(s),
+          fields: [{
+            field: 'lifecycle',
+            oldValue: `Removed ${removedOn}`,
+            newValue: `Re-added ${entry.date}`,
+            summary: `removed ${removedOn} and re-added ${entry.date}; the definition may differ`,
+          }],
+        });
+      } else {
+        settings.set(s.id, { kind: 'added', ref: settingRef(s), fields: [] });
+      }
+    }
+
+    for (const c of entry.changed) {
+      const t = settings.get(c.id);
+      if (!t) settings.set(c.id, { kind: 'changed', ref: settingRef(c), fields: c.fields });
+      else if (t.kind !== 'removed') {
+        t.ref = settingRef(c);
+        if (t.kind !== 'added') t.fields = mergeFieldChanges(t.fields, c.fields);
+      }
+    }
+
+    for (const c of entry.categoriesRemoved ?? []) {
+      if (categories.get(c.id)?.kind === 'added') categories.delete(c.id);
+      else categories.set(c.id, { kind: 'removed', ref: c, fields: [] });
+    }
+    for (const c of entry.categoriesAdded ?? []) {
+      if (categories.get(c.id)?.kind === 'removed') categories.delete(c.id);
+      else categories.set(c.id, { kind: 'added', ref: c, fields: [] });
+    }
+    for (const c of entry.categoriesChanged ?? []) {
+      const t = categories.get(c.id);
+      if (!t) categories.set(c.id, { kind: 'changed', ref: { id: c.id, displayName: c.displayName }, fields: c.fields });
+      else if (t.kind !== 'removed') {
+        t.ref = { ...t.ref, displayName: c.displayName };
+        if (t.kind === 'changed') t.fields = mergeFieldChanges(t.fields, c.fields);
+      }
+    }
+  }
+
+  const tracked = [...settings.values()];
+  const trackedCategories = [...categories.values()];
+  const byName = <T extends { displayName: string }>(a: T, b: T) => a.displayName.localeCompare(b.displayName);
+  return {
+    date: to,
+    added: tracked.filter((t) => t.kind === 'added').map((t) => t.ref).sort(byName),
+    removed: tracked.filter((t) => t.kind === 'removed').map((t) => t.ref).sort(byName),
+    changed: tracked
+      .filter((t) => t.kind === 'changed' && t.fields.length > 0)
+      .map((t) => ({ ...t.ref, fields: t.fields }))
+      .sort(byName),
+    renamed: tracked
+      .flatMap((t) => (t.kind === 'renamed' && t.rename ? [{ ...t.rename, ...t.ref, fields: t.fields }] : []))
+      .sort(byName),
+    categoriesAdded: trackedCategories.filter((t) => t.kind === 'added').map((t) => t.ref).sort(byName),
+    categoriesRemoved: trackedCategories.filter((t) => t.kind === 'removed').map((t) => t.ref).sort(byName),
+    categoriesChanged: trackedCategories
+      .filter((t) => t.kind === 'changed' && t.fields.length > 0)
+      .map((t): ChangelogCategoryChange => ({ id: t.ref.id, displayName: t.ref.displayName, fields: t.fields }))
+      .sort(byName),
+  };
+}
+
+// ─── Markdown export ───
+
+/** Escape characters that Markdown would otherwise interpret inside table cells and list items */
+function md(s: string): string {
+  return s.replace(/\r?\n/g, ' ').replace(/([\\`*_[\]|<>])/g, '\\$1');
+}
+
+/** Strip the JSON quotes generate-changelog leaves around string values */
+function plain(s: string): string {
+  return s.replace(/^"|"$/g, '');
+}
+
+function settingLine(s: ChangelogSettingRef, siteUrl: string): string {
+  const where = [s.categoryName, s.platform].filter(Boolean).map((x) => md(x!)).join(' · ');
+  const name = siteUrl ? `[${md(s.displayName)}](${siteUrl}/setting/${encodeURIComponent(settingSlug(s.id))}/)` : md(s.displayName);
+  return `- ${name} — \`${s.id}\`${where ? ` (${where})` : ''}`;
+}
+
+function fieldLines(fields: ChangelogFieldChange[]): string[] {
+  const lines: string[] = [];
+  for (const f of fields) {
+    const detail = f.summary ?? `${plain(f.oldValue) || '(none)'} → ${plain(f.newValue) || '(none)'}`;
+    lines.push(`  - **${md(f.field)}**: ${md(detail)}`);
+    for (const o of f.optionChanges ?? []) {
+      const props = o.fields?.map((p) => `${p.field} ${p.oldValue} → ${p.newValue}`).join('; ');
+      lines.push(`    - ${o.kind} option ${md(o.displayName)} (\`${o.itemId}\`)${props ? `: ${md(props)}` : ''}`);
+    }
+  }
+  return lines;
+}
+
+export interface ChangelogMarkdownOptions {
+  from: string;
+  to: string;
+  /** Absolute site URL for setting links; plain names when empty */
+  siteUrl?: string;
+  /** Daily entries the range was merged from */
+  entryCount: number;
+}
+
+/** A merged range as a Markdown change report */
+export function changelogRangeToMarkdown(entry: ChangelogEntry, options: ChangelogMarkdownOptions): string {
+  const { from, to, siteUrl = '', entryCount } = options;
+  const renamed = entry.renamed ?? [];
+  const lines: string[] = [
+    `# Intune Settings Catalog changes: ${from} to ${to}`,
+    '',
+    `Net change over ${entryCount} changelog ${entryCount === 1 ? 'entry' : 'entries'}. ` +
+      'Settings added and removed again within the range are left out; repeated edits show the first old and the last new value.',
+    '',
+    '| | Settings | Categories |',
+    '| --- | ---: | ---: |',
+    `| Added | ${entry.added.length} | ${entry.categoriesAdded?.length ?? 0} |`,
+    `| Removed | ${entry.removed.length} | ${entry.categoriesRemoved?.length ?? 0} |`,
+    `| Changed | ${entry.changed.length} | ${entry.categoriesChanged?.length ?? 0} |`,
+    `| Renamed / superseded | ${renamed.length} | |`,
+  ];
+
+  const section = (title: string, body: string[]) => {
+    if (body.length > 0) lines.push('', `## ${title}`, '', ...body);
+  };
+  section(`Added settings (${entry.added.length})`, entry.added.map((s) => settingLine(s, siteUrl)));
+  section(`Removed settings (${entry.removed.length})`, entry.removed.map((s) => settingLine(s, '')));
+  section(`Changed settings (${entry.changed.length})`, entry.changed.flatMap((s) => [
+    settingLine(s, siteUrl),
+    ...fieldLines(s.fields),
+  ]));
+  section(`Renamed / superseded settings (${renamed.length})`, renamed.flatMap((r) => [
+    `${settingLine(r, siteUrl)} — ${r.kind} from \`${r.oldId}\` (${md(r.oldDisplayName)})`,
+    ...fieldLines(r.fields),
+  ]));
+  section(`Added categories (${entry.categoriesAdded?.length ?? 0})`, (entry.categoriesAdded ?? []).map((c) => `- ${md(c.displayName)} — \`${c.id}\``));
+  section(`Removed categories (${entry.categoriesRemoved?.length ?? 0})`, (entry.categoriesRemoved ?? []).map((c) => `- ${md(c.displayName)} — \`${c.id}\``));
+  section(`Changed categories (${entry.categoriesChanged?.length ?? 0})`, (entry.categoriesChanged ?? []).flatMap((c) => [
+    `- ${md(c.displayName)} — \`${c.id}\``,
+    ...fieldLines(c.fields),
+  ]));
+  return lines.join('\n') + '\n';
+}
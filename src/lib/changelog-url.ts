@@ -0,0 +1,66 @@
+/**
+ * Query-string encoding of the changelog filters, e.g.
+ *   /changelog/?q=edge&platform=windows10&type=added
+ *   /changelog/?cat=<categoryId>&from=2026-03-01&to=2026-06-30&field=options
+ *
+ * Mirrors browse-url: everything lives in the query string so filtered views
+ * can be shared from the static export.
+ */
+
+import { CHANGE_KIND_LABELS } from './changelog-kinds';
+import type { ChangeKind } from './changelog-kinds';
+
+export type FilterType = 'all' | 'added' | 'removed' | 'changed' | 'renamed';
+
+export const FILTER_TYPES: FilterType[] = ['all', 'added', 'removed', 'changed', 'renamed'];
+
+export interface ChangelogUrlState {
+  /** Text filter over setting / category names and IDs */
+  query: string;
+  platforms: string[];
+  /** Category whose subtree is shown, or null for all */
+  categoryId: string | null;
+  /** Inclusive date range (YYYY-MM-DD); empty for open-ended */
+  from: string;
+  to: string;
+  filter: FilterType;
+  changeKind: ChangeKind | 'all';
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Parse `window.location.search` into changelog filter state */
+export function parseChangelogUrl(search: string): ChangelogUrlState {
+  const params = new URLSearchParams(search);
+  const platforms = params
+    .getAll('platform')
+    .flatMap((p) => p.split(','))
+    .map((p) => p.trim())
+    .filter(Boolean);
+  const date = (key: string) => (ISO_DATE.test(params.get(key) ?? '') ? params.get(key)! : '');
+  const field = params.get('field');
+  return {
+    query: params.get('q') ?? '',
+    platforms: [...new Set(platforms)],
+    categoryId: params.get('cat') || null,
+    from: date('from'),
+    to: date('to'),
+    filter: FILTER_TYPES.find((f) => f === params.get('type')) ?? 'all',
+    changeKind: field && Object.prototype.hasOwnProperty.call(CHANGE_KIND_LABELS, field) ? (field as ChangeKind) : 'all',
+  };
+}
+
+/** Build the query string (including the leading `?`, or empty) for changelog filter state */
+export function buildChangelogUrl(state: ChangelogUrlState): string {
+  const parts: string[] = [];
+  if (state.query) parts.push(`q=${encodeURIComponent(state.query)}`);
+  if (state.platforms.length > 0) {
+    parts.push(`platform=${state.platforms.map(encodeURIComponent).join(',')}`);
+  }
+  if (state.categoryId) parts.push(`cat=${encodeURIComponent(state.categoryId)}`);
+  if (state.from) parts.push(`from=${state.from}`);
+  if (state.to) parts.push(`to=${state.to}`);
+  if (state.filter !== 'all') parts.push(`type=${state.filter}`);
+  if (state.changeKind !== 'all') parts.push(`field=${state.changeKind}`);
+  return parts.length > 0 ? `?${parts.join('&')}` : '';
+}
@@ -6,7 +6,7 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import type { SettingDefinition, SettingCategory, CategoryTreeNode, ChangelogEntry } from './types';
+import type { SettingDefinition, SettingCategory, CategoryTreeNode, ChangelogEntry, SettingHistoryEvent, PolicyTemplate } from './types';
 
 const DATA_DIR = path.join(process.cwd(), 'data');
 
@@ -28,22 +28,99 @@ export function loadSettings(): SettingDefinition[] {
   return readJSON<SettingDefinition[]>('settings.json') || [];
 }
 
+let settingIndex: Map<string, SettingDefinition> | null = null;
+
+/** One setting definition by ID, from an index built once per build */
+export function loadSettingById(settingId: string): SettingDefinition | undefined {
+  if (!settingIndex) settingIndex = new Map(loadSettings().map((s) => [s.id, s]));
+  return settingIndex.get(settingId);
+}
+
 export function loadCategories(): SettingCategory[] {
   return readJSON<SettingCategory[]>('categories.json') || [];
 }
 
+/** Serializable category ID → display name / parent ID maps (small — ~1 MB) */
+export function loadCategoryMaps(): {
+  categoryMap: Record<string, string>;
+  categoryParentMap: Record<string, string>;
+} {
+  const categoryMap: Record<string, string> = {};
+  const categoryParentMap: Record<string, string> = {};
+  for (const c of loadCategories()) {
+    categoryMap[c.id] = c.displayName;
+    categoryParentMap[c.id] = c.parentCategoryId;
+  }
+  return { categoryMap, categoryParentMap };
+}
+
+export function loadTemplates(): PolicyTemplate[] {
+  return readJSON<PolicyTemplate[]>('templates.json') || [];
+}
+
+let templateIndex: Map<string, PolicyTemplate[]> | null = null;
+
+/** Templates that use a setting definition, sorted by display name */
+export function loadTemplatesForSetting(settingId: string): PolicyTemplate[] {
+  if (!templateIndex) {
+    templateIndex = new Map();
+    const sorted = [...loadTemplates()].sort((a, b) => a.displayName.localeCompare(b.displayName));
+    for (const t of sorted) {
+      for (const id of t.settingDefinitionIds) {
+        templateIndex.set(id, [...(templateIndex.get(id) ?? []), t]);
+      }
+    }
+  }
+  return templateIndex.get(settingId) ?? [];
+}
+
 export function loadCategoryTree(): CategoryTreeNode[] {
   return readJSON<CategoryTreeNode[]>('category-tree.json') || [];
 }
 
+/** Date of the initial changelog entry — the bulk import of every setting */
+export const BASELINE_DATE = '2026-02-21';
+
 export function loadChangelog(): ChangelogEntry[] {
   const raw = readJSON<ChangelogEntry[]>('changelog.json') || [];
-  // Exclude the initial baseline entry (2026-02-21) which contains the bulk
-  // import of all settings and makes the page very slow.
-  const BASELINE_DATE = '2026-02-21';
+  // Exclude the initial baseline entry which contains the bulk import of all
+  // settings and makes the page very slow.
   return raw.filter((e) => e.date !== BASELINE_DATE);
 }
 
+const RELEASE_NOTES_DIR = path.join(DATA_DIR, 'release-notes');
+
+/** Markdown release notes written by generate-release-notes for one changelog date */
+export function loadReleaseNotes(date: string): string | null {
+  const filePath = path.join(RELEASE_NOTES_DIR, `${date}.md`);
+  return fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : null;
+}
+
+let historyIndex: Map<string, SettingHistoryEvent[]> | null = null;
+
+/**
+ * Changelog events for one setting, newest first. The full changelog
+ * (including the baseline) is indexed by setting ID once per build.
+ */
+export function loadSettingHistory(settingId: string): SettingHistoryEvent[] {
+  if (!historyIndex) {
+    historyIndex = new Map();
+    const push = (id: string, event: SettingHistoryEvent) => {
+      const events = historyIndex!.get(id) ?? [];
+      events.push(event);
+      historyIndex!.set(id, events);
+    };
+    const entries = [...(readJSON<ChangelogEntry[]>('changelog.json') || [])].sort((a, b) => b.date.localeCompare(a.date));
+    for (const entry of entries) {
+      for (const s of entry.added) push(s.id, { date: entry.date, kind: 'added' });
+      for (const s of entry.removed) push(s.id, { date: entry.date, kind: 'removed' });
+      for (const c of entry.changed) push(c.id, { date: entry.date, kind: 'changed', fields: c.fields });
+      for (const r of entry.renamed ?? []) push(r.id, { date: entry.date, kind: 'renamed', fields: r.fields, fromId: r.oldId });
+    }
+  }
+  return historyIndex.get(settingId) ?? [];
+}
+
 /** Get the last updated timestamp — prefers the metadata file written by fetch-settings, falls back to changelog */
 export function getLastUpdated(): string | null {
   const meta = readJSON<{ date: string }>('last-updated.json');
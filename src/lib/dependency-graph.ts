@@ -0,0 +1,108 @@
+/**
+ * Dependency graph around one setting, built from `dependentOn`,
+ * `dependedOnBy` (top-level and per-option) and
+ * `referredSettingInformationList`. Computed at build time so the setting
+ * page only ships the neighbouring nodes, not the whole catalog.
+ */
+
+import type { SettingDefinition } from './types';
+
+export interface DependencyGraphNode {
+  id: string;
+  displayName: string;
+  /** False when the ID is referenced but missing from the catalog */
+  inCatalog: boolean;
+  /** Option display names that gate the edge, e.g. "Enabled" */
+  gatingOptions: string[];
+  /** The dependent has to be configured when the gate is met */
+  required: boolean;
+}
+
+export interface DependencyGraph {
+  /** Settings this one depends on (edge parent → this setting) */
+  parents: DependencyGraphNode[];
+  /** Settings that depend on this one, directly or through one of its options */
+  dependents: DependencyGraphNode[];
+  /** Settings listed in referredSettingInformationList */
+  referred: DependencyGraphNode[];
+}
+
+type Lookup = (id: string) => SettingDefinition | undefined;
+
+/** Collects nodes by ID so repeated references merge their gates and flags */
+function nodeCollector(lookup: Lookup, selfId: string) {
+  const nodes = new Map<string, DependencyGraphNode>();
+  const add = (id: string, gate?: string, required = false) => {
+    if (!id || id === selfId) return;
+    let node = nodes.get(id);
+    if (!node) {
+      const def = lookup(id);
+      node = { id, displayName: def?.displayName || def?.name || id, inCatalog: !!def, gatingOptions: [], required: false };
+      nodes.set(id, node);
+    }
+    if (gate && !node.gatingOptions.includes(gate)) node.gatingOptions.push(gate);
+    node.required = node.required || required;
+  };
+  const list = () => [...nodes.values()].sort((a, b) => a.displayName.localeCompare(b.displayName));
+  return { add, list };
+}
+
+/** Display name of `itemId` among a setting's options, or undefined when it isn't one */
+function optionName(setting: SettingDefinition | undefined, itemId: string): string | undefined {
+  const opt = setting?.options?.find((o) => o.itemId === itemId);
+  return opt ? opt.displayName || opt.name || opt.itemId : undefined;
+}
+
+/** Whether `parent` marks `childId` as required, on the setting or any of its options */
+function isRequiredBy(parent: SettingDefinition | undefined, childId: string): boolean {
+  if (!parent) return false;
+  const refs = [...(parent.dependedOnBy ?? []), ...(parent.options ?? []).flatMap((o) => o.dependedOnBy ?? [])];
+  return refs.some((r) => r.dependedOnBy === childId && r.required);
+}
+
+export function buildDependencyGraph(setting: SettingDefinition, lookup: Lookup): DependencyGraph {
+  const parents = nodeCollector(lookup, setting.id);
+  const dependents = nodeCollector(lookup, setting.id);
+  const referred = nodeCollector(lookup, setting.id);
+
+  // dependentOn points at the parent setting itself or at the parent option that enables this one
+  for (const dep of setting.dependentOn ?? []) {
+    const parent = lookup(dep.parentSettingId);
+    parents.add(dep.parentSettingId, optionName(parent, dep.dependentOn), isRequiredBy(parent, setting.id));
+  }
+  // Options can be gated too; the label says which of our options the parent unlocks
+  for (const opt of setting.options ?? []) {
+    for (const dep of opt.dependentOn ?? []) {
+      const parent = lookup(dep.parentSettingId);
+      const gate = optionName(parent, dep.dependentOn);
+      const target = opt.displayName || opt.itemId;
+      parents.add(dep.parentSettingId, gate ? `${gate} → option ${target}` : `option ${target}`);
+    }
+  }
+
+  for (const dep of setting.dependedOnBy ?? []) {
+    // The child's own dependentOn usually names the gating option even when we don't
+    const child = lookup(dep.dependedOnBy);
+    const gates = (child?.dependentOn ?? [])
+      .filter((d) => d.parentSettingId === setting.id)
+      .map((d) => optionName(setting, d.dependentOn))
+      .filter((g): g is string => !!g);
+    if (gates.length === 0) dependents.add(dep.dependedOnBy, undefined, dep.required);
+    for (const gate of gates) dependents.add(dep.dependedOnBy, gate, dep.required);
+  }
+  for (const opt of setting.options ?? []) {
+    for (const dep of opt.dependedOnBy ?? []) {
+      dependents.add(dep.dependedOnBy, opt.displayName || opt.itemId, dep.required);
+    }
+  }
+
+  for (const ref of setting.referredSettingInformationList ?? []) {
+    referred.add(ref.settingDefinitionId);
+  }
+
+  return { parents: parents.list(), dependents: dependents.list(), referred: referred.list() };
+}
+
+export function hasDependencies(graph: DependencyGraph): boolean {
+  return graph.parents.length > 0 || graph.dependents.length > 0 || graph.referred.length > 0;
+}
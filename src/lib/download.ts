@@ -0,0 +1,28 @@
+/**
+ * Client-side file export helpers.
+ */
+
+/** Trigger a browser download of in-memory content */
+export function downloadFile(filename: string, content: BlobPart, type: string) {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+/** Make a string safe to use as a file name */
+export function safeFilename(name: string): string {
+  return name.replace(/[^\w.-]+/g, '_');
+}
+
+/** Serialise rows as RFC 4180 CSV (CRLF line endings, quoted where needed) */
+export function toCsv(rows: Array<Array<string | number | undefined>>): string {
+  const cell = (v: string | number | undefined) => {
+    const s = v === undefined ? '' : String(v);
+    return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+  };
+  return rows.map((r) => r.map(cell).join(',')).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,27 @@
+/**
+ * Platform filter matching shared by the browse view and the changelog.
+ */
+
+/**
+ * Map from UI filter value to all raw platform strings that should match it.
+ * Platform values in the data can be comma-separated (e.g. "android,iOS") and
+ * use variants like "androidEnterprise" / "aosp" for Android.
+ */
+const PLATFORM_ALIASES: Record<string, string[]> = {
+  android: ['android', 'androidEnterprise', 'aosp'],
+  windows10: ['windows10'],
+  macOS: ['macOS'],
+  iOS: ['iOS'],
+  linux: ['linux'],
+};
+
+/** Check whether a platform value matches any of the selected filter platforms. */
+export function matchesPlatformFilter(platformValue: string | undefined, selectedPlatforms: string[]): boolean {
+  if (!platformValue) return false;
+  // The platform field can be comma-separated (e.g. "android,iOS,macOS,windows10")
+  const parts = platformValue.split(',').map((p) => p.trim());
+  return selectedPlatforms.some((sel) => {
+    const aliases = PLATFORM_ALIASES[sel] || [sel];
+    return parts.some((p) => aliases.includes(p));
+  });
+}
@@ -0,0 +1,320 @@
+/**
+ * Policy builder — turns settings picked in the viewer into a Graph-ready
+ * deviceManagementConfigurationPolicy payload.
+ *
+ * A configured setting is a small tree mirroring the instance structure
+ * Graph expects: a choice carries the chosen option and the children gated by
+ * that option, a group carries its child settings, a group collection carries
+ * one child list per repeated instance. Everything runs client-side against
+ * the definitions in settings-browse.json.
+ */
+
+import type {
+  SettingDefinition,
+  SettingInstance,
+  ConfigurationPolicy,
+} from './types';
+
+// ─── Types ───
+
+export type SettingKind =
+  | 'choice'
+  | 'choiceCollection'
+  | 'simple'
+  | 'simpleCollection'
+  | 'group'
+  | 'groupCollection'
+  | 'redirect'
+  | 'unknown';
+
+export interface ConfiguredSetting {
+  definitionId: string;
+  /** Chosen option itemId (choice) or entered value (simple) */
+  value?: string;
+  /** Entered values (simple collection) or chosen option itemIds (choice collection) */
+  values?: string[];
+  /** Configured children — of a group, or gated by the chosen option of a choice */
+  children?: ConfiguredSetting[];
+  /** Repeated instances of a group collection, each a list of child settings */
+  instances?: ConfiguredSetting[][];
+}
+
+export interface PolicyDraft {
+  name: string;
+  description: string;
+  items: ConfiguredSetting[];
+}
+
+export interface ConfigIssue {
+  definitionId: string;
+  message: string;
+}
+
+type DefinitionMap = Map<string, SettingDefinition>;
+
+const GRAPH = '#microsoft.graph.deviceManagementConfiguration';
+
+// ─── Definition helpers ───
+
+/** Classify a setting definition by its OData type */
+export function getSettingKind(odataType?: string): SettingKind {
+  if (!odataType) return 'unknown';
+  if (odataType.endsWith('ChoiceSettingCollectionDefinition')) return 'choiceCollection';
+  if (odataType.endsWith('ChoiceSettingDefinition')) return 'choice';
+  if (odataType.endsWith('SimpleSettingCollectionDefinition')) return 'simpleCollection';
+  if (odataType.endsWith('SimpleSettingDefinition')) return 'simple';
+  if (odataType.endsWith('SettingGroupCollectionDefinition')) return 'groupCollection';
+  if (odataType.endsWith('SettingGroupDefinition')) return 'group';
+  if (odataType.endsWith('RedirectSettingDefinition')) return 'redirect';
+  return 'unknown';
+}
+
+/** Whether a setting can be added to a policy (redirects point elsewhere) */
+export function isConfigurable(setting: SettingDefinition): boolean {
+  const kind = getSettingKind(setting['@odata.type']);
+  return kind !== 'redirect' && kind !== 'unknown';
+}
+
+/** Child definition IDs gated by a choice option */
+export function getOptionChildIds(def: SettingDefinition, itemId: string | undefined, defs: DefinitionMap): string[] {
+  const option = def.options?.find((o) => o.itemId === itemId);
+  if (!option?.dependedOnBy) return [];
+  return option.dependedOnBy.map((d) => d.dependedOnBy).filter((id) => defs.has(id));
+}
+
+/** Child definition IDs of a group / group collection */
+export function getGroupChildIds(def: SettingDefinition, defs: DefinitionMap): string[] {
+  return (def.childIds || []).filter((id) => defs.has(id));
+}
+
+function isIntegerValue(def: SettingDefinition): boolean {
+  return !!def.valueDefinition?.['@odata.type']?.includes('Integer');
+}
+
+function defaultSimpleValue(def: SettingDefinition): string {
+  const dv = def.defaultValue as { value?: unknown } | string | number | undefined;
+  if (dv === undefined || dv === null) return '';
+  if (typeof dv === 'object') return dv.value === undefined || dv.value === null ? '' : String(dv.value);
+  return String(dv);
+}
+
+// ─── Defaults ───
+
+/**
+ * Fill in any unconfigured parts of a setting with catalog defaults: the
+ * default (or first) option, the default value, and every group child.
+ * `seen` guards against definition cycles.
+ */
+export function withDefaults(cfg: ConfiguredSetting, defs: DefinitionMap, seen: Set<string> = new Set()): ConfiguredSetting {
+  const def = defs.get(cfg.definitionId);
+  if (!def || seen.has(def.id)) return cfg;
+  const nextSeen = new Set(seen).add(def.id);
+
+  const childrenFor = (ids: string[], existing?: ConfiguredSetting[]) =>
+    ids.map((id) => withDefaults(existing?.find((c) => c.definitionId === id) ?? { definitionId: id }, defs, nextSeen));
+
+  switch (getSettingKind(def['@odata.type'])) {
+    case 'choice': {
+      const value = cfg.value ?? def.defaultOptionId ?? def.options?.[0]?.itemId;
+      return { ...cfg, value, children: childrenFor(getOptionChildIds(def, value, defs), cfg.children) };
+    }
+    case 'choiceCollection':
+      return { ...cfg, values: cfg.values ?? [] };
+    case 'simple':
+      return { ...cfg, value: cfg.value ?? defaultSimpleValue(def) };
+    case 'simpleCollection':
+      return { ...cfg, values: cfg.values ?? [] };
+    case 'group':
+      return { ...cfg, children: childrenFor(getGroupChildIds(def, defs), cfg.children) };
+    case 'groupCollection': {
+      const childIds = getGroupChildIds(def, defs);
+      const instances = cfg.instances ?? [[]];
+      return { ...cfg, instances: instances.map((inst) => childrenFor(childIds, inst)) };
+    }
+    default:
+      return cfg;
+  }
+}
+
+// ─── Validation ───
+
+/** Check a simple value against its valueDefinition; returns an error message or null */
+export function validateSimpleValue(def: SettingDefinition, value: string): string | null {
+  const vd = def.valueDefinition;
+  if (value === '') return vd?.isRequired ? 'A value is required' : null;
+  if (isIntegerValue(def)) {
+    if (!/^-?\d+$/.test(value.trim())) return 'Must be a whole number';
+    const n = Number(value);
+    if (vd?.minimumValue !== undefined && n < vd.minimumValue) return `Must be at least ${vd.minimumValue}`;
+    if (vd?.maximumValue !== undefined && n > vd.maximumValue) return `Must be at most ${vd.maximumValue}`;
+    return null;
+  }
+  if (vd?.minimumLength !== undefined && value.length < vd.minimumLength) {
+    return `Must be at least ${vd.minimumLength} characters`;
+  }
+  if (vd?.maximumLength !== undefined && value.length > vd.maximumLength) {
+    return `Must be at most ${vd.maximumLength} characters`;
+  }
+  return null;
+}
+
+/** Collect validation issues for a configured setting tree */
+export function validateConfig(cfg: ConfiguredSetting, defs: DefinitionMap): ConfigIssue[] {
+  const def = defs.get(cfg.definitionId);
+  if (!def) return [{ definitionId: cfg.definitionId, message: 'Setting is not in the current catalog' }];
+
+  const issues: ConfigIssue[] = [];
+  const push = (message: string | null) => {
+    if (message) issues.push({ definitionId: def.id, message });
+  };
+  const countIssue = (n: number) => {
+    if (def.minimumCount !== undefined && n < def.minimumCount) return `Needs at least ${def.minimumCount} entries`;
+    if (def.maximumCount !== undefined && def.maximumCount > 0 && n > def.maximumCount) return `Allows at most ${def.maximumCount} entries`;
+    return null;
+  };
+
+  switch (getSettingKind(def['@odata.type'])) {
+    case 'choice':
+      if (!def.options?.some((o) => o.itemId === cfg.value)) push('Choose an option');
+      break;
+    case 'choiceCollection':
+      push(countIssue(cfg.values?.length ?? 0));
+      break;
+    case 'simple':
+      push(validateSimpleValue(def, cfg.value ?? ''));
+      break;
+    case 'simpleCollection':
+      push(countIssue(cfg.values?.length ?? 0));
+      for (const v of cfg.values ?? []) push(validateSimpleValue(def, v));
+      break;
+    case 'groupCollection':
+      push(countIssue(cfg.instances?.length ?? 0));
+      break;
+    case 'redirect':
+    case 'unknown':
+      push('This setting type cannot be configured in a policy');
+      break;
+  }
+
+  for (const child of cfg.children ?? []) issues.push(...validateConfig(child, defs));
+  for (const inst of cfg.instances ?? []) {
+    for (const child of inst) issues.push(...validateConfig(child, defs));
+  }
+  return issues;
+}
+
+/** Validate a whole draft, including the one-platform-per-policy rule */
+export function validatePolicyDraft(draft: PolicyDraft, defs: DefinitionMap): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  if (!draft.name.trim()) issues.push({ definitionId: '', message: 'Give the policy a name' });
+  const platforms = new Set(
+    draft.items.map((i) => defs.get(i.definitionId)?.applicability?.platform).filter(Boolean)
+  );
+  if (platforms.size > 1) {
+    issues.push({ definitionId: '', message: `A policy targets one platform, but settings span ${[...platforms].join(', ')}` });
+  }
+  for (const item of draft.items) issues.push(...validateConfig(withDefaults(item, defs), defs));
+  return issues;
+}
+
+// ─── Graph payload ───
+
+function simpleValue(def: SettingDefinition, value: string): Record<string, unknown> {
+  if (isIntegerValue(def)) {
+    return { '@odata.type': `${GRAPH}IntegerSettingValue`, value: Number(value) };
+  }
+  if (def.valueDefinition?.isSecret) {
+    return { '@odata.type': `${GRAPH}SecretSettingValue`, value, valueState: 'notEncrypted' };
+  }
+  return { '@odata.type': `${GRAPH}StringSettingValue`, value };
+}
+
+/**
+ * An optional simple setting left empty is not configured at all: exporting
+ * it would send "" (or 0 for integers) instead of leaving the setting unset.
+ */
+function isUnsetSimple(cfg: ConfiguredSetting, defs: DefinitionMap): boolean {
+  const def = defs.get(cfg.definitionId);
+  return !!def && getSettingKind(def['@odata.type']) === 'simple' && (cfg.value ?? '') === '';
+}
+
+/** Build the Graph settingInstance for a configured setting */
+export function buildSettingInstance(cfg: ConfiguredSetting, defs: DefinitionMap): SettingInstance {
+  const def = defs.get(cfg.definitionId);
+  const base = { settingDefinitionId: cfg.definitionId, settingInstanceTemplateReference: null };
+  const children = (list?: ConfiguredSetting[]) =>
+    (list ?? []).filter((c) => !isUnsetSimple(c, defs)).map((c) => buildSettingInstance(c, defs));
+  if (!def) throw new Error(`Unknown setting definition: ${cfg.definitionId}`);
+
+  switch (getSettingKind(def['@odata.type'])) {
+    case 'choice':
+      return {
+        '@odata.type': `${GRAPH}ChoiceSettingInstance`,
+        ...base,
+        choiceSettingValue: {
+          '@odata.type': `${GRAPH}ChoiceSettingValue`,
+          value: cfg.value,
+          children: children(cfg.children),
+        },
+      };
+    case 'choiceCollection':
+      return {
+        '@odata.type': `${GRAPH}ChoiceSettingCollectionInstance`,
+        ...base,
+        choiceSettingCollectionValue: (cfg.values ?? []).map((value) => ({
+          '@odata.type': `${GRAPH}ChoiceSettingValue`,
+          value,
+          children: [],
+        })),
+      };
+    case 'simple':
+      return {
+        '@odata.type': `${GRAPH}SimpleSettingInstance`,
+        ...base,
+        simpleSettingValue: simpleValue(def, cfg.value ?? ''),
+      };
+    case 'simpleCollection':
+      return {
+        '@odata.type': `${GRAPH}SimpleSettingCollectionInstance`,
+        ...base,
+        simpleSettingCollectionValue: (cfg.values ?? []).filter((v) => v !== '').map((v) => simpleValue(def, v)),
+      };
+    case 'group':
+      return {
+        '@odata.type': `${GRAPH}GroupSettingInstance`,
+        ...base,
+        groupSettingValue: {
+          '@odata.type': `${GRAPH}GroupSettingValue`,
+          children: children(cfg.children),
+        },
+      };
+    case 'groupCollection':
+      return {
+        '@odata.type': `${GRAPH}GroupSettingCollectionInstance`,
+        ...base,
+        groupSettingCollectionValue: (cfg.instances ?? []).map((inst) => ({
+          '@odata.type': `${GRAPH}GroupSettingValue`,
+          children: children(inst),
+        })),
+      };
+    default:
+      throw new Error(`Setting ${cfg.definitionId} cannot be configured in a policy`);
+  }
+}
+
+/** Build a POST-able deviceManagementConfigurationPolicy body; empty optional simple settings are left out */
+export function buildPolicyPayload(draft: PolicyDraft, defs: DefinitionMap): ConfigurationPolicy {
+  const first = draft.items.map((i) => defs.get(i.definitionId)).find(Boolean);
+  const items = draft.items.map((item) => withDefaults(item, defs)).filter((item) => !isUnsetSimple(item, defs));
+  return {
+    name: draft.name,
+    description: draft.description,
+    platforms: first?.applicability?.platform ?? 'none',
+    technologies: first?.applicability?.technologies ?? 'mdm',
+    roleScopeTagIds: ['0'],
+    settings: items.map((item) => ({
+      '@odata.type': `${GRAPH}Setting`,
+      settingInstance: buildSettingInstance(item, defs),
+    })),
+  };
+}
@@ -0,0 +1,94 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import type { ConfiguredSetting, PolicyDraft } from './policy-builder';
+
+/**
+ * The policy cart — settings picked while browsing, persisted in
+ * localStorage so it survives navigation between the browser, setting pages
+ * and the policy builder (and stays in sync across tabs).
+ */
+
+const STORAGE_KEY = 'intune-policy-cart';
+const EMPTY_CART: PolicyDraft = { name: '', description: '', items: [] };
+
+let cart: PolicyDraft = EMPTY_CART;
+let loaded = false;
+const listeners = new Set<() => void>();
+
+function load() {
+  if (loaded || typeof window === 'undefined') return;
+  loaded = true;
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (raw) cart = { ...EMPTY_CART, ...(JSON.parse(raw) as PolicyDraft) };
+  } catch {
+    // Corrupt or inaccessible storage — start with an empty cart
+  }
+}
+
+function commit(next: PolicyDraft) {
+  cart = next;
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch {
+    // Storage full or disabled — keep the in-memory cart
+  }
+  listeners.forEach((l) => l());
+}
+
+function subscribe(listener: () => void): () => void {
+  load();
+  listeners.add(listener);
+  const onStorage = (e: StorageEvent) => {
+    if (e.key !== STORAGE_KEY) return;
+    loaded = false;
+    cart = EMPTY_CART;
+    load();
+    listener();
+  };
+  window.addEventListener('storage', onStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', onStorage);
+  };
+}
+
+function getSnapshot(): PolicyDraft {
+  load();
+  return cart;
+}
+
+function getServerSnapshot(): PolicyDraft {
+  return EMPTY_CART;
+}
+
+/** Subscribe to the policy cart */
+export function usePolicyCart(): PolicyDraft {
+  return useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
+}
+
+export function addToPolicyCart(definitionId: string) {
+  load();
+  if (cart.items.some((i) => i.definitionId === definitionId)) return;
+  commit({ ...cart, items: [...cart.items, { definitionId }] });
+}
+
+export function removeFromPolicyCart(definitionId: string) {
+  load();
+  commit({ ...cart, items: cart.items.filter((i) => i.definitionId !== definitionId) });
+}
+
+export function updatePolicyCartItem(item: ConfiguredSetting) {
+  load();
+  commit({ ...cart, items: cart.items.map((i) => (i.definitionId === item.definitionId ? item : i)) });
+}
+
+export function setPolicyCartDetails(details: { name?: string; description?: string }) {
+  load();
+  commit({ ...cart, ...details });
+}
+
+export function clearPolicyCart() {
+  commit(EMPTY_CART);
+}
@@ -0,0 +1,178 @@
+/**
+ * Setting-by-setting comparison of imported policies.
+ *
+ * Rows are keyed by settingDefinitionId. A definition that occurs several
+ * times in one policy (children of a group collection) is folded into one
+ * entry holding every value in document order.
+ */
+
+import type { SettingDefinition, SettingScope } from './types';
+import { getSettingScope } from './types';
+import { getCspPath } from './settings-grouping';
+import type { ImportedPolicy, ResolvedSettingValue } from './policy-import';
+
+// ─── Types ───
+
+/** Every value a policy configures for one definition */
+export interface ConfiguredValues {
+  definitionId: string;
+  definition?: SettingDefinition;
+  /** Raw values (option itemIds or simple values) */
+  values: string[];
+  displayValues: string[];
+}
+
+export type PolicyDiffStatus = 'onlyA' | 'onlyB' | 'changed';
+
+export interface PolicyDiffEntry {
+  definitionId: string;
+  definition?: SettingDefinition;
+  status: PolicyDiffStatus;
+  a?: ConfiguredValues;
+  b?: ConfiguredValues;
+}
+
+/** One policy's values for a definition, as seen by the conflict detector */
+export interface PolicyOccurrence extends ConfiguredValues {
+  policy: ImportedPolicy;
+  scope: SettingScope;
+}
+
+export interface PolicyConflict {
+  /** Definition ID, or the scope-neutral CSP path when device and user copies are merged */
+  key: string;
+  /** conflict = values differ; duplicate = every policy sets the same value */
+  kind: 'conflict' | 'duplicate';
+  /** True when a device-scoped and a user-scoped copy of the same CSP collide */
+  crossScope: boolean;
+  occurrences: PolicyOccurrence[];
+}
+
+// ─── Helpers ───
+
+/** Fold resolved rows into one entry per definition ID, in first-seen order */
+export function collectConfiguredValues(rows: ResolvedSettingValue[]): Map<string, ConfiguredValues> {
+  const byId = new Map<string, ConfiguredValues>();
+  for (const row of rows) {
+    let entry = byId.get(row.definitionId);
+    if (!entry) {
+      entry = { definitionId: row.definitionId, definition: row.definition, values: [], displayValues: [] };
+      byId.set(row.definitionId, entry);
+    }
+    entry.values.push(...row.values);
+    entry.displayValues.push(...row.displayValues);
+  }
+  return byId;
+}
+
+/** Order-insensitive comparison key for a value list (collections are sets to Intune) */
+export function valuesKey(values: string[]): string {
+  return JSON.stringify([...values].sort());
+}
+
+/** Human-readable value list; containers (groups) carry no value of their own */
+export function formatValues(values: ConfiguredValues): string {
+  if (values.displayValues.length === 0) return '(configured)';
+  return values.displayValues.map((v) => (v === '' ? '(empty)' : v)).join(', ');
+}
+
+// ─── Diff ───
+
+/** Settings only in A, only in B, and in both with different values */
+export function diffPolicies(a: ResolvedSettingValue[], b: ResolvedSettingValue[]): PolicyDiffEntry[] {
+  const left = collectConfiguredValues(a);
+  const right = collectConfiguredValues(b);
+  const diffs: PolicyDiffEntry[] = [];
+
+  for (const [id, av] of left) {
+    const bv = right.get(id);
+    const definition = av.definition ?? bv?.definition;
+    if (!bv) diffs.push({ definitionId: id, definition, status: 'onlyA', a: av });
+    else if (valuesKey(av.values) !== valuesKey(bv.values)) diffs.push({ definitionId: id, definition, status: 'changed', a: av, b: bv });
+  }
+  for (const [id, bv] of right) {
+    if (!left.has(id)) diffs.push({ definitionId: id, definition: bv.definition, status: 'onlyB', b: bv });
+  }
+  return diffs;
+}
+
+// ─── Conflicts ───
+
+/** CSP path with the ./Device/ or ./User/ root removed, for matching scoped copies */
+function scopeNeutralCsp(def: SettingDefinition): string {
+  return getCspPath(def).toLowerCase().replace(/^\.\/(device|user)\//, './');
+}
+
+/**
+ * Find settings configured by more than one policy. Occurrences are keyed by
+ * settingDefinitionId; a device definition and a user definition sharing a
+ * CSP path are treated as the same setting, since both land on one device.
+ */
+export function findPolicyConflicts(
+  policies: Array<{ policy: ImportedPolicy; rows: ResolvedSettingValue[] }>,
+): PolicyConflict[] {
+  const byDefinition = new Map<string, PolicyOccurrence[]>();
+  for (const { policy, rows } of policies) {
+    for (const values of collectConfiguredValues(rows).values()) {
+      // Group containers carry no value; sharing one is not a duplicate
+      if (values.values.length === 0) continue;
+      const occurrence = { ...values, policy, scope: getSettingScope(values.definition?.baseUri) };
+      const list = byDefinition.get(values.definitionId) ?? [];
+      list.push(occurrence);
+      byDefinition.set(values.definitionId, list);
+    }
+  }
+
+  // Pair up device / user definitions for the same CSP. Only unambiguous
+  // pairs are merged — one definition per scope on that path.
+  const byCsp = new Map<string, { device: string[]; user: string[] }>();
+  for (const [id, list] of byDefinition) {
+    const { definition, scope } = list[0];
+    if (!definition || (scope !== 'device' && scope !== 'user')) continue;
+    const csp = scopeNeutralCsp(definition);
+    if (!csp) continue;
+    const bucket = byCsp.get(csp) ?? { device: [], user: [] };
+    bucket[scope].push(id);
+    byCsp.set(csp, bucket);
+  }
+  const mergedInto = new Map<string, string>();
+  for (const [csp, { device, user }] of byCsp) {
+    if (device.length === 1 && user.length === 1) {
+      mergedInto.set(device[0], csp);
+      mergedInto.set(user[0], csp);
+    }
+  }
+
+  const groups = new Map<string, PolicyOccurrence[]>();
+  for (const [id, list] of byDefinition) {
+    const key = mergedInto.get(id) ?? id;
+    groups.set(key, [...(groups.get(key) ?? []), ...list]);
+  }
+
+  const conflicts: PolicyConflict[] = [];
+  for (const [key, occurrences] of groups) {
+    if (occurrences.length < 2) continue;
+    const crossScope = new Set(occurrences.map((o) => o.scope)).size > 1;
+    // Option itemIds are per-definition, so compare display names across scopes
+    const compared = occurrences.map((o) => valuesKey(crossScope ? o.displayValues : o.values));
+    conflicts.push({
+      key,
+      kind: new Set(compared).size > 1 ? 'conflict' : 'duplicate',
+      crossScope,
+      occurrences,
+    });
+  }
+
+  // Conflicts first, then by display name
+  return conflicts.sort((a, b) =>
+    a.kind !== b.kind
+      ? (a.kind === 'conflict' ? -1 : 1)
+      : conflictTitle(a).localeCompare(conflictTitle(b))
+  );
+}
+
+/** Display name for a conflict row */
+export function conflictTitle(conflict: PolicyConflict): string {
+  const def = conflict.occurrences.find((o) => o.definition)?.definition;
+  return def?.displayName || def?.name || conflict.occurrences[0].definitionId;
+}
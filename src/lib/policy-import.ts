@@ -0,0 +1,184 @@
+/**
+ * Parsing of exported Intune configuration policies.
+ *
+ * Accepts the shapes admins usually have on disk:
+ *   - a single deviceManagementConfigurationPolicy ({ name, settings: [...] })
+ *   - a Graph list response ({ value: [policy, …] }) or a plain array of policies
+ *   - a bare settings array ([{ settingInstance }, …])
+ *
+ * Nested group / collection / option-child instances are flattened into one
+ * row per configured value, then resolved against the catalog definitions.
+ */
+
+import type { SettingDefinition, SettingInstance, SettingInstanceValue, ConfigurationPolicySetting } from './types';
+
+// ─── Types ───
+
+export interface ImportedPolicy {
+  name: string;
+  /** Where the policy came from (file name) */
+  source: string;
+  platforms?: string;
+  technologies?: string;
+  instances: SettingInstance[];
+}
+
+/** One configured setting instance, flattened out of the instance tree */
+export interface PolicySettingValue {
+  definitionId: string;
+  /** Instance @odata.type without the Graph namespace (e.g. "ChoiceSettingInstance") */
+  instanceType: string;
+  /** Nesting depth (0 = top-level setting) */
+  depth: number;
+  /** Definition ID of the enclosing instance, if nested */
+  parentDefinitionId?: string;
+  /** Chosen option itemIds or simple values, in order */
+  values: string[];
+  /** True when values are option itemIds (choice / choice collection) */
+  isChoice: boolean;
+}
+
+export interface ResolvedSettingValue extends PolicySettingValue {
+  /** Undefined when the definition no longer exists in the catalog */
+  definition?: SettingDefinition;
+  /** Option display names for choices, the raw values otherwise */
+  displayValues: string[];
+  /** Option itemIds that are not defined on the setting */
+  unknownOptionIds: string[];
+}
+
+export class PolicyImportError extends Error {}
+
+const GRAPH_PREFIX = '#microsoft.graph.deviceManagementConfiguration';
+
+// ─── Parsing ───
+
+function isSettingInstance(v: unknown): v is SettingInstance {
+  return !!v && typeof v === 'object' && typeof (v as SettingInstance).settingDefinitionId === 'string';
+}
+
+function instancesFromSettings(settings: unknown[]): SettingInstance[] {
+  return settings
+    .map((s) => (isSettingInstance(s) ? s : (s as ConfigurationPolicySetting)?.settingInstance))
+    .filter(isSettingInstance);
+}
+
+function policyFromObject(obj: Record<string, unknown>, source: string, index: number): ImportedPolicy | null {
+  if (!Array.isArray(obj.settings)) return null;
+  return {
+    name: typeof obj.name === 'string' && obj.name ? obj.name : `${source} #${index + 1}`,
+    source,
+    platforms: typeof obj.platforms === 'string' ? obj.platforms : undefined,
+    technologies: typeof obj.technologies === 'string' ? obj.technologies : undefined,
+    instances: instancesFromSettings(obj.settings),
+  };
+}
+
+/** Parse the text of an exported policy file into one or more policies */
+export function parsePolicyExport(text: string, source: string): ImportedPolicy[] {
+  let json: unknown;
+  try {
+    json = JSON.parse(text.replace(/^\uFEFF/, ''));
+  } catch (err) {
+    throw new PolicyImportError(`${source}: not valid JSON (${(err as Error).message})`);
+  }
+
+  const candidates: unknown[] = Array.isArray(json)
+    ? json
+    : json && typeof json === 'object' && Array.isArray((json as { value?: unknown }).value)
+      ? (json as { value: unknown[] }).value
+      : [json];
+
+  // A bare settings array: every element is a setting (or setting instance)
+  if (Array.isArray(json) && json.length > 0 && instancesFromSettings(json).length === json.length) {
+    return [{ name: source, source, instances: instancesFromSettings(json) }];
+  }
+
+  const policies = candidates
+    .map((c, i) => (c && typeof c === 'object' ? policyFromObject(c as Record<string, unknown>, source, i) : null))
+    .filter((p): p is ImportedPolicy => p !== null);
+
+  if (policies.length === 0) {
+    throw new PolicyImportError(`${source}: no configuration policy settings found`);
+  }
+  return policies;
+}
+
+// ─── Flattening ───
+
+function valueString(v: SettingInstanceValue | undefined): string {
+  if (!v || v.value === undefined || v.value === null) return '';
+  return typeof v.value === 'object' ? JSON.stringify(v.value) : String(v.value);
+}
+
+/** Flatten an instance tree into one row per configured setting (pre-order) */
+export function flattenInstances(instances: SettingInstance[], depth = 0, parentDefinitionId?: string): PolicySettingValue[] {
+  const rows: PolicySettingValue[] = [];
+
+  for (const inst of instances) {
+    const instanceType = (inst['@odata.type'] || '').replace(GRAPH_PREFIX, '');
+    const row: PolicySettingValue = {
+      definitionId: inst.settingDefinitionId,
+      instanceType,
+      depth,
+      parentDefinitionId,
+      values: [],
+      isChoice: false,
+    };
+    const children: SettingInstance[] = [];
+    rows.push(row);
+
+    const choice = inst.choiceSettingValue as SettingInstanceValue | undefined;
+    const choiceColl = inst.choiceSettingCollectionValue as SettingInstanceValue[] | undefined;
+    const simple = inst.simpleSettingValue as SettingInstanceValue | undefined;
+    const simpleColl = inst.simpleSettingCollectionValue as SettingInstanceValue[] | undefined;
+    const group = inst.groupSettingValue as SettingInstanceValue | undefined;
+    const groupColl = inst.groupSettingCollectionValue as SettingInstanceValue[] | undefined;
+
+    if (choice) {
+      row.isChoice = true;
+      row.values.push(valueString(choice));
+      children.push(...(choice.children ?? []));
+    }
+    if (choiceColl) {
+      row.isChoice = true;
+      for (const v of choiceColl) {
+        row.values.push(valueString(v));
+        children.push(...(v.children ?? []));
+      }
+    }
+    if (simple) row.values.push(valueString(simple));
+    if (simpleColl) row.values.push(...simpleColl.map(valueString));
+    if (group) children.push(...(group.children ?? []));
+    if (groupColl) {
+      for (const v of groupColl) children.push(...(v.children ?? []));
+    }
+
+    rows.push(...flattenInstances(children.filter(isSettingInstance), depth + 1, inst.settingDefinitionId));
+  }
+
+  return rows;
+}
+
+// ─── Resolution ───
+
+/** Resolve flattened rows against catalog definitions */
+export function resolvePolicySettings(
+  rows: PolicySettingValue[],
+  defs: Map<string, SettingDefinition>,
+): ResolvedSettingValue[] {
+  return rows.map((row) => {
+    const definition = defs.get(row.definitionId);
+    const unknownOptionIds: string[] = [];
+    const displayValues = row.values.map((v) => {
+      if (!row.isChoice || !definition) return v;
+      const option = definition.options?.find((o) => o.itemId === v);
+      if (!option) {
+        unknownOptionIds.push(v);
+        return v;
+      }
+      return option.displayName;
+    });
+    return { ...row, definition, displayValues, unknownOptionIds };
+  });
+}
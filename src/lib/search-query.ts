@@ -0,0 +1,241 @@
+/**
+ * Structured search query parsing.
+ *
+ * Extends the plain comma-separated search syntax with:
+ *   - field qualifiers:  platform:macOS  scope:user  type:choice
+ *                        csp:./Device/Vendor/MSFT/Policy/Config/Defender
+ *                        category:"Microsoft Edge"  usage:compliance
+ *   - quoted phrases:    "block ads"  (must appear verbatim)
+ *   - negation:          -edge  -scope:user  -"internet explorer"
+ *
+ * Qualifiers filter on SearchIndexEntry fields; whatever free text remains is
+ * handed to FlexSearch. Commas still separate independent search terms.
+ */
+
+import type { SearchIndexEntry } from './types';
+
+export type QueryField = 'platform' | 'scope' | 'type' | 'csp' | 'category' | 'usage';
+
+export interface QueryFilter {
+  field: QueryField;
+  value: string;
+  negated: boolean;
+}
+
+export interface QueryParseError {
+  message: string;
+  /** The raw token that caused the error */
+  token: string;
+}
+
+export interface ParsedQuery {
+  /** Free-text terms for FlexSearch (one per comma-separated segment) */
+  terms: string[];
+  /** Quoted phrases that must appear verbatim in the name, description or keywords */
+  phrases: string[];
+  /** Negated free-text words / phrases — matching entries are excluded */
+  excluded: string[];
+  filters: QueryFilter[];
+  errors: QueryParseError[];
+}
+
+const QUERY_FIELDS: QueryField[] = ['platform', 'scope', 'type', 'csp', 'category', 'usage'];
+
+/**
+ * Platform qualifier values → raw platform strings in the index.
+ * Mirrors the platform filter aliases (Android covers Enterprise + AOSP).
+ */
+const PLATFORM_VALUES: Record<string, string[]> = {
+  windows: ['windows10'],
+  windows10: ['windows10'],
+  win: ['windows10'],
+  macos: ['macOS'],
+  mac: ['macOS'],
+  ios: ['iOS'],
+  ipados: ['iOS'],
+  android: ['android', 'androidEnterprise', 'aosp'],
+  androidenterprise: ['androidEnterprise'],
+  aosp: ['aosp'],
+  linux: ['linux'],
+};
+
+const SCOPE_VALUES = ['device', 'user'];
+const TYPE_VALUES = ['choice', 'simple', 'group', 'redirect'];
+const USAGE_VALUES = ['configuration', 'compliance', 'inventory'];
+
+/** Split on commas that are not inside double quotes */
+function splitSegments(query: string): string[] {
+  const segments: string[] = [];
+  let current = '';
+  let inQuote = false;
+  for (const ch of query) {
+    if (ch === '"') inQuote = !inQuote;
+    if (ch === ',' && !inQuote) {
+      segments.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  segments.push(current);
+  return segments;
+}
+
+/** Split a segment into whitespace-separated tokens, keeping quoted runs intact */
+function tokenize(segment: string): Array<{ raw: string; unterminated: boolean }> {
+  const tokens: Array<{ raw: string; unterminated: boolean }> = [];
+  let i = 0;
+  while (i < segment.length) {
+    while (i < segment.length && /\s/.test(segment[i])) i++;
+    if (i >= segment.length) break;
+    let raw = '';
+    let unterminated = false;
+    while (i < segment.length && !/\s/.test(segment[i])) {
+      if (segment[i] === '"') {
+        const close = segment.indexOf('"', i + 1);
+        if (close < 0) {
+          raw += segment.slice(i);
+          i = segment.length;
+          unterminated = true;
+          break;
+        }
+        raw += segment.slice(i, close + 1);
+        i = close + 1;
+      } else {
+        raw += segment[i++];
+      }
+    }
+    tokens.push({ raw, unterminated });
+  }
+  return tokens;
+}
+
+function unquote(s: string): string {
+  return s.replace(/^"/, '').replace(/"$/, '');
+}
+
+/** Validate a qualifier value, returning an error message if it is not allowed */
+function validateFilter(field: QueryField, value: string): string | null {
+  if (!value) return `Missing value for "${field}:"`;
+  const lower = value.toLowerCase();
+  switch (field) {
+    case 'platform':
+      return PLATFORM_VALUES[lower]
+        ? null
+        : `Unknown platform "${value}" (try windows, macOS, iOS, android or linux)`;
+    case 'scope':
+      return SCOPE_VALUES.includes(lower) ? null : `Unknown scope "${value}" (use device or user)`;
+    case 'type':
+      return TYPE_VALUES.includes(lower)
+        ? null
+        : `Unknown type "${value}" (use ${TYPE_VALUES.join(', ')})`;
+    case 'usage':
+      return USAGE_VALUES.includes(lower)
+        ? null
+        : `Unknown usage "${value}" (use ${USAGE_VALUES.join(', ')})`;
+    default:
+      return null;
+  }
+}
+
+/** Parse a raw search box query into free text, qualifiers and negations */
+export function parseQuery(query: string): ParsedQuery {
+  const parsed: ParsedQuery = { terms: [], phrases: [], excluded: [], filters: [], errors: [] };
+
+  for (const segment of splitSegments(query)) {
+    const words: string[] = [];
+    for (const { raw, unterminated } of tokenize(segment)) {
+      if (unterminated) {
+        parsed.errors.push({ message: 'Unterminated quote', token: raw });
+        continue;
+      }
+      const negated = raw.length > 1 && raw.startsWith('-');
+      const body = negated ? raw.slice(1) : raw;
+
+      const qualifier = body.match(/^([A-Za-z]+):([\s\S]*)$/);
+      if (qualifier) {
+        const field = qualifier[1].toLowerCase() as QueryField;
+        const value = unquote(qualifier[2]).trim();
+        if (!QUERY_FIELDS.includes(field)) {
+          parsed.errors.push({
+            message: `Unknown field "${qualifier[1]}" (use ${QUERY_FIELDS.map((f) => f + ':').join(' ')})`,
+            token: raw,
+          });
+          continue;
+        }
+        const error = validateFilter(field, value);
+        if (error) {
+          parsed.errors.push({ message: error, token: raw });
+          continue;
+        }
+        parsed.filters.push({ field, value, negated });
+        continue;
+      }
+
+      const isPhrase = body.startsWith('"') && body.endsWith('"') && body.length > 1;
+      const text = unquote(body).trim();
+      if (!text) continue;
+      if (negated) {
+        parsed.excluded.push(text);
+      } else {
+        if (isPhrase) parsed.phrases.push(text);
+        words.push(text);
+      }
+    }
+    const term = words.join(' ').trim();
+    if (term) parsed.terms.push(term);
+  }
+
+  return parsed;
+}
+
+/** True when the query contains anything other than plain free text */
+export function hasStructuredConstraints(parsed: ParsedQuery): boolean {
+  return parsed.filters.length > 0 || parsed.phrases.length > 0 || parsed.excluded.length > 0;
+}
+
+/**
+ * The free-text part of a query in the legacy comma-separated form, for
+ * highlighting and match-source detection (qualifiers are not highlighted).
+ */
+export function getHighlightQuery(query: string): string {
+  return parseQuery(query).terms.join(', ');
+}
+
+function matchesFilter(entry: SearchIndexEntry, filter: QueryFilter): boolean {
+  const value = filter.value.toLowerCase();
+  switch (filter.field) {
+    case 'platform': {
+      const wanted = PLATFORM_VALUES[value] || [filter.value];
+      return entry.platform.split(',').some((p) => wanted.includes(p.trim()));
+    }
+    case 'scope':
+      return entry.scope === value;
+    case 'type':
+      return entry.settingType === value;
+    case 'csp':
+      return (entry.cspPath || '').toLowerCase().includes(value);
+    case 'category':
+      return entry.categoryName.toLowerCase().includes(value);
+    case 'usage':
+      return (entry.usage || 'configuration').split(',').includes(value);
+  }
+}
+
+/** Check a search index entry against the qualifiers, phrases and negations of a parsed query */
+export function matchesParsedQuery(entry: SearchIndexEntry, parsed: ParsedQuery): boolean {
+  for (const filter of parsed.filters) {
+    if (matchesFilter(entry, filter) === filter.negated) return false;
+  }
+
+  if (parsed.phrases.length === 0 && parsed.excluded.length === 0) return true;
+
+  const haystack = `${entry.displayName}\n${entry.description}\n${entry.keywords}`.toLowerCase();
+  for (const phrase of parsed.phrases) {
+    if (!haystack.includes(phrase.toLowerCase())) return false;
+  }
+  for (const word of parsed.excluded) {
+    if (haystack.includes(word.toLowerCase())) return false;
+  }
+  return true;
+}
@@ -7,6 +7,8 @@
  */
 
 import type { SearchIndexEntry } from './types';
+import { parseQuery, hasStructuredConstraints, matchesParsedQuery } from './search-query';
+import { basePath } from './base-path';
 
 // Flexsearch types are minimal; we use `any` for the Document index.
 let index: any = null;
@@ -25,8 +27,7 @@ export async function ensureIndex(): Promise<void> {
       const FlexSearch = FlexSearchModule.default ?? FlexSearchModule;
 
       // Load the search index JSON
-      const basePath = process.env.__NEXT_ROUTER_BASEPATH || '';
-      const res = await fetch(`${basePath}/search-index.json`);
+      const res = await fetch(`${basePath()}/search-index.json`);
       if (!res.ok) throw new Error(`Failed to load search index: ${res.status}`);
       documents = (await res.json()) as SearchIndexEntry[];
 
@@ -96,7 +97,10 @@ export function preloadIndex(): void {
   });
 }
 
-/** Search the index. Returns matching SearchIndexEntry items. */
+/**
+ * Search the index. Returns matching SearchIndexEntry items.
+ * Supports the structured query syntax from `search-query.ts`.
+ */
 export async function search(
   query: string,
   limit: number = 50
@@ -104,8 +108,24 @@ export async function search(
   await ensureIndex();
   if (!query.trim()) return [];
 
-  // Support comma-separated multi-term search (like Intune's UI)
-  const terms = query.split(',').map((t) => t.trim()).filter(Boolean);
+  // Qualifiers (platform:, scope:, …), quoted phrases and -negations are
+  // parsed out; the remaining comma-separated free text goes to FlexSearch.
+  const parsed = parseQuery(query);
+  const terms = parsed.terms;
+  const constrained = hasStructuredConstraints(parsed);
+
+  // No free text: the qualifiers alone select from the full document set
+  if (terms.length === 0) {
+    if (!constrained) return [];
+    return documents
+      .filter((d) => matchesParsedQuery(d, parsed))
+      .sort((a, b) => a.displayName.localeCompare(b.displayName))
+      .slice(0, limit);
+  }
+
+  // When post-filtering, ask FlexSearch for every hit so the filters don't
+  // starve the result list.
+  const searchLimit = constrained ? documents.length : limit;
 
   // Track the best field score for each matched document id.
   // Higher score = more prominent field (displayName beats keywords beats description beats categoryName).
@@ -119,7 +139,7 @@ export async function search(
 
   for (const term of terms) {
     // Search across all indexed fields
-    const results = index.search(term, { limit, enrich: false });
+    const results = index.search(term, { limit: searchLimit, enrich: false });
 
     // Flexsearch Document returns an array of { field, result[] } objects
     for (const fieldResult of results) {
@@ -136,7 +156,7 @@ export async function search(
   const matched: SearchIndexEntry[] = [];
   for (const [id] of fieldScores) {
     const doc = docMap.get(id);
-    if (doc) matched.push(doc);
+    if (doc && (!constrained || matchesParsedQuery(doc, parsed))) matched.push(doc);
   }
 
   // Score how well a displayName matches the search terms.
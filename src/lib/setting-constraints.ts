@@ -0,0 +1,159 @@
+/**
+ * Human-readable value constraints, defaults and occurrence rules for a
+ * setting definition — what you need to know to author a policy value.
+ * Used by SettingDetail on the setting page and in the inline panel.
+ */
+
+import type { SettingDefinition } from './types';
+import { getSettingKind } from './policy-builder';
+
+export interface ConstraintFact {
+  label: string;
+  value: string;
+}
+
+/** Graph string formats, as documented for deviceManagementConfigurationStringSettingValueDefinition */
+const STRING_FORMATS: Record<string, string> = {
+  email: 'email address',
+  guid: 'GUID',
+  ip: 'IP address',
+  base64: 'Base64',
+  url: 'URL',
+  version: 'version number',
+  xml: 'XML',
+  date: 'date',
+  time: 'time',
+  binary: 'binary',
+  regEx: 'regular expression',
+  json: 'JSON',
+  dateTime: 'date and time',
+  surfaceHub: 'Surface Hub',
+  bashScript: 'Bash script',
+};
+
+const ACCESS_TYPES = ['add', 'copy', 'delete', 'get', 'replace', 'execute'];
+
+/** Values at the Int32 limits are "no bound" in practice */
+const INT32_MAX = 2147483647;
+const INT32_MIN = -2147483648;
+
+const SINGULAR: Record<string, string> = { characters: 'character', entries: 'entry', times: 'time' };
+
+function formatRange(min: number | undefined, max: number | undefined, unit = ''): string | null {
+  // The unit follows the last number: "1–5 entries", "at least 1 entry"
+  const suffix = (n: number) => (unit ? ` ${n === 1 ? SINGULAR[unit] ?? unit : unit}` : '');
+  const hasMin = min !== undefined && min !== INT32_MIN;
+  const hasMax = max !== undefined && max !== INT32_MAX;
+  if (hasMin && hasMax) return min === max ? `exactly ${min}${suffix(min!)}` : `${min}–${max}${suffix(max!)}`;
+  if (hasMax) return `up to ${max}${suffix(max!)}`;
+  if (hasMin) return `at least ${min}${suffix(min!)}`;
+  return null;
+}
+
+function valueKind(setting: SettingDefinition): 'integer' | 'string' | null {
+  const type = setting.valueDefinition?.['@odata.type'] ?? '';
+  if (type.includes('Integer')) return 'integer';
+  if (type.includes('String')) return 'string';
+  return null;
+}
+
+/** "Integer 0–3600", "String, up to 2048 characters (URL)", "One of 3 options", … or null when there is nothing to say */
+export function describeValueType(setting: SettingDefinition): string | null {
+  const settingKind = getSettingKind(setting['@odata.type']);
+  const optionCount = setting.options?.length ?? 0;
+  if (settingKind === 'choice' && optionCount > 0) return `One of ${optionCount} options`;
+  if (settingKind === 'choiceCollection' && optionCount > 0) return `Any of ${optionCount} options`;
+
+  const vd = setting.valueDefinition;
+  const kind = valueKind(setting);
+  if (!vd || !kind) return null;
+
+  let text: string;
+  if (kind === 'integer') {
+    const range = formatRange(vd.minimumValue, vd.maximumValue);
+    text = range ? `Integer ${range}` : 'Integer';
+  } else {
+    // A minimum length of 0 says nothing beyond "optional"
+    const length = formatRange(vd.minimumLength || undefined, vd.maximumLength, 'characters');
+    text = length ? `String, ${length}` : 'String';
+    const format = vd.format && vd.format !== 'none' ? STRING_FORMATS[vd.format] ?? vd.format : null;
+    if (format) text += ` (${format})`;
+  }
+  if (vd.isSecret) text += ', secret';
+  return text;
+}
+
+/** Default value or default option name, or null when the catalog has none */
+export function formatDefaultValue(setting: SettingDefinition): string | null {
+  if (setting.defaultOptionId) {
+    const option = setting.options?.find((o) => o.itemId === setting.defaultOptionId);
+    return option?.displayName || setting.defaultOptionId;
+  }
+  // Graph wraps simple defaults in a setting value object; older snapshots hold the bare value
+  const dv = setting.defaultValue as { value?: unknown } | string | number | boolean | null | undefined;
+  const value = dv !== null && typeof dv === 'object' ? dv.value : dv;
+  if (value === undefined || value === null) return null;
+  if (value === '') return '(empty)';
+  return String(value);
+}
+
+/** Entry count for collections: "1–100 entries"; a maximum of 0 means unlimited */
+function describeCount(setting: SettingDefinition): string | null {
+  const kind = getSettingKind(setting['@odata.type']);
+  if (kind !== 'choiceCollection' && kind !== 'simpleCollection' && kind !== 'groupCollection') return null;
+  const max = setting.maximumCount ? setting.maximumCount : undefined;
+  return formatRange(setting.minimumCount || undefined, max, 'entries') ?? 'any number of entries';
+}
+
+/** minDeviceOccurrence / maxDeviceOccurrence: how often the setting may be set on a device */
+function describeOccurrence(setting: SettingDefinition): string | null {
+  const occ = setting.occurrence;
+  if (!occ) return null;
+  const { minDeviceOccurrence: min, maxDeviceOccurrence: max } = occ;
+  const presence = min > 0 ? 'Required' : 'Optional';
+  if (max === 1 && min <= 1) return `${presence}, once per device`;
+  const range = formatRange(min || undefined, max || undefined, 'times');
+  return range ? `${presence}, ${range} per device` : presence;
+}
+
+/** "add, delete, get, replace" → "Add, Delete, Get, Replace"; get alone reads as read-only */
+function describeAccessTypes(setting: SettingDefinition): string | null {
+  const types = (setting.accessTypes ?? '')
+    .split(',')
+    .map((t) => t.trim())
+    .filter((t) => t && t !== 'none');
+  if (types.length === 0) return null;
+  types.sort((a, b) => ACCESS_TYPES.indexOf(a) - ACCESS_TYPES.indexOf(b));
+  const label = types.map((t) => t.charAt(0).toUpperCase() + t.slice(1)).join(', ');
+  return types.length === 1 && types[0] === 'get' ? `Read-only (${label})` : label;
+}
+
+/** Every decoded fact, in the order the "Constraints & defaults" section lists them */
+export function getConstraintFacts(setting: SettingDefinition): ConstraintFact[] {
+  const facts: ConstraintFact[] = [];
+  const push = (label: string, value: string | null) => {
+    if (value) facts.push({ label, value });
+  };
+  push('Value', describeValueType(setting));
+  push('Default', formatDefaultValue(setting));
+  if (setting.valueDefinition?.isRequired !== undefined) {
+    push('Value required', setting.valueDefinition.isRequired ? 'Yes' : 'No');
+  }
+  push('Entries', describeCount(setting));
+  push('Occurrence', describeOccurrence(setting));
+  push('Access', describeAccessTypes(setting));
+  return facts;
+}
+
+/** One-line summary such as "Integer 0–3600, default 900, required" */
+export function summarizeConstraints(setting: SettingDefinition): string | null {
+  const parts: string[] = [];
+  const type = describeValueType(setting);
+  if (type) parts.push(type);
+  const count = describeCount(setting);
+  if (count) parts.push(count);
+  const dv = formatDefaultValue(setting);
+  if (dv) parts.push(`default ${dv}`);
+  if (setting.valueDefinition?.isRequired) parts.push('required');
+  return parts.length > 0 ? parts.join(', ') : null;
+}
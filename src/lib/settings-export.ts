@@ -0,0 +1,113 @@
+/**
+ * Export of the settings currently on screen — a category list or the
+ * search results — as CSV, XLSX or JSON. Rows follow the list layout:
+ * each visible root setting from groupSettings, followed by its children.
+ */
+
+import type { SettingDefinition } from './types';
+import { getPlatformLabel, getSettingScope, getSettingTypeLabel } from './types';
+import { buildBreadcrumb } from './category-path';
+import { getCspPath, groupSettings } from './settings-grouping';
+import { formatDefaultValue } from './setting-constraints';
+import { downloadFile, safeFilename, toCsv } from './download';
+import { toXlsx } from './xlsx';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+export interface ExportCategoryMaps {
+  categoryMap: Record<string, string>;
+  categoryParentMap: Record<string, string>;
+}
+
+export interface SettingExportRow {
+  displayName: string;
+  id: string;
+  /** Set on child settings listed under their parent */
+  parentId: string;
+  category: string;
+  scope: string;
+  type: string;
+  platform: string;
+  cspPath: string;
+  default: string;
+  options: string;
+  description: string;
+}
+
+/** Column order and headers; widths are in spreadsheet characters */
+const COLUMNS: Array<{ key: keyof SettingExportRow; label: string; width: number }> = [
+  { key: 'displayName', label: 'Display name', width: 45 },
+  { key: 'id', label: 'ID', width: 45 },
+  { key: 'parentId', label: 'Parent ID', width: 30 },
+  { key: 'category', label: 'Category', width: 40 },
+  { key: 'scope', label: 'Scope', width: 10 },
+  { key: 'type', label: 'Type', width: 14 },
+  { key: 'platform', label: 'Platform', width: 16 },
+  { key: 'cspPath', label: 'CSP path', width: 60 },
+  { key: 'default', label: 'Default', width: 20 },
+  { key: 'options', label: 'Options', width: 40 },
+  { key: 'description', label: 'Description', width: 80 },
+];
+
+function toRow(s: SettingDefinition, maps: ExportCategoryMaps, parentId = ''): SettingExportRow {
+  const scope = getSettingScope(s.baseUri);
+  const category = [...buildBreadcrumb(s.categoryId, maps.categoryMap, maps.categoryParentMap), maps.categoryMap[s.categoryId]]
+    .filter(Boolean)
+    .join(' > ');
+  return {
+    displayName: s.displayName || s.name || '',
+    id: s.id,
+    parentId,
+    category,
+    scope: scope === 'unknown' ? '' : scope === 'device' ? 'Device' : 'User',
+    type: getSettingTypeLabel(s['@odata.type'] || ''),
+    platform: (s.applicability?.platform ?? '')
+      .split(',')
+      .map((p) => p.trim())
+      .filter((p) => p && p !== 'none')
+      .map(getPlatformLabel)
+      .join(', '),
+    cspPath: getCspPath(s),
+    default: formatDefaultValue(s) ?? '',
+    options: (s.options ?? []).map((o) => o.displayName || o.itemId).join('; '),
+    description: s.description ?? '',
+  };
+}
+
+/**
+ * Rows for one or more lists of settings. Each list is grouped on its own,
+ * as the search view groups per category.
+ */
+export function buildExportRows(lists: SettingDefinition[][], maps: ExportCategoryMaps): SettingExportRow[] {
+  const rows: SettingExportRow[] = [];
+  for (const settings of lists) {
+    const { rootSettings, childMap } = groupSettings(settings);
+    for (const root of rootSettings) {
+      rows.push(toRow(root, maps));
+      for (const child of childMap.get(root.id) ?? []) rows.push(toRow(child, maps, root.id));
+    }
+  }
+  return rows;
+}
+
+/** Download the rows as `<baseName>.csv|xlsx|json` */
+export function downloadSettingsExport(rows: SettingExportRow[], format: ExportFormat, baseName: string) {
+  const filename = safeFilename(baseName);
+  const table = [COLUMNS.map((c) => c.label), ...rows.map((r) => COLUMNS.map((c) => r[c.key]))];
+  switch (format) {
+    case 'csv':
+      // BOM so Excel opens the UTF-8 file with the right encoding
+      downloadFile(`${filename}.csv`, '\uFEFF' + toCsv(table), 'text/csv;charset=utf-8');
+      break;
+    case 'xlsx':
+      downloadFile(
+        `${filename}.xlsx`,
+        toXlsx('Settings', table, COLUMNS.map((c) => c.width)),
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      );
+      break;
+    case 'json':
+      downloadFile(`${filename}.json`, JSON.stringify(rows, null, 2), 'application/json');
+      break;
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * Reverse-delta snapshot archive for "as of date" browsing.
+ *
+ * Every refresh that changes the catalog leaves one delta in
+ * data/archive/<date>.json.gz holding what that refresh replaced: the browse
+ * entries (toBrowseSetting) and categories as they were before it, and the
+ * IDs it added. Applying deltas newest first to today's settings-browse.json
+ * rebuilds the catalog as of any archived date, entirely in the browser.
+ *
+ * generate-changelog writes the deltas; build-search-index publishes them
+ * under public/archive/ with index.json and today's categories.
+ */
+
+import type { SettingDefinition, SettingCategory, CategoryTreeNode } from './types';
+import { buildCategoryTree, countSettingsByCategory } from './category-tree';
+import { fetchBrowseSettings } from './browse-data';
+import { basePath } from './base-path';
+
+/** The category fields the tree needs */
+export type ArchiveCategory = Pick<
+  SettingCategory,
+  'id' | 'name' | 'displayName' | 'parentCategoryId' | 'rootCategoryId' | 'platforms' | 'technologies' | 'settingUsage'
+>;
+
+/** How to undo one refresh for one collection */
+export interface ArchiveChanges<T> {
+  /** Items as they were before the refresh (changed or removed by it) */
+  restore: T[];
+  /** IDs the refresh added */
+  drop: string[];
+}
+
+export interface ArchiveDelta {
+  /** Date of the refresh this delta undoes (YYYY-MM-DD) */
+  date: string;
+  settings: ArchiveChanges<SettingDefinition>;
+  categories: ArchiveChanges<ArchiveCategory>;
+}
+
+/** public/archive/index.json */
+export interface ArchiveIndex {
+  /** Dates that have a delta, newest first */
+  dates: string[];
+}
+
+export function toArchiveCategory(c: SettingCategory): ArchiveCategory {
+  const slim: ArchiveCategory = {
+    id: c.id,
+    name: c.name,
+    displayName: c.displayName,
+    parentCategoryId: c.parentCategoryId,
+    rootCategoryId: c.rootCategoryId || undefined,
+    platforms: c.platforms || undefined,
+    technologies: c.technologies || undefined,
+    settingUsage: c.settingUsage || undefined,
+  };
+  return JSON.parse(JSON.stringify(slim));
+}
+
+/** What to restore and drop to turn `current` back into `previous` */
+export function diffForArchive<T extends { id: string }>(current: T[], previous: T[]): ArchiveChanges<T> {
+  const currentById = new Map(current.map((i) => [i.id, JSON.stringify(i)]));
+  const previousIds = new Set(previous.map((i) => i.id));
+  return {
+    restore: previous.filter((i) => currentById.get(i.id) !== JSON.stringify(i)),
+    drop: current.filter((i) => !previousIds.has(i.id)).map((i) => i.id),
+  };
+}
+
+/** Undo one refresh in place */
+export function applyArchiveChanges<T extends { id: string }>(items: Map<string, T>, changes: ArchiveChanges<T>) {
+  for (const id of changes.drop) items.delete(id);
+  for (const item of changes.restore) items.set(item.id, item);
+}
+
+/** Deltas to apply, newest first, to see the catalog as of the end of `date` */
+export function deltasAfter(index: ArchiveIndex, date: string): string[] {
+  return index.dates.filter((d) => d > date);
+}
+
+/** Earliest viewable date — the day before the oldest delta — or null without deltas */
+export function earliestArchiveDate(index: ArchiveIndex): string | null {
+  const oldest = index.dates[index.dates.length - 1];
+  if (!oldest) return null;
+  const day = new Date(`${oldest}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() - 1);
+  return day.toISOString().split('T')[0];
+}
+
+// ─── Client-side loading ───
+
+/** Fetch a .json.gz file and decompress it in the browser */
+async function fetchGzipJson<T>(url: string): Promise<T> {
+  const res = await fetch(url);
+  if (!res.ok || !res.body) throw new Error(`Failed to load ${url}: ${res.status}`);
+  return (await new Response(res.body.pipeThrough(new DecompressionStream('gzip'))).json()) as T;
+}
+
+let indexPromise: Promise<ArchiveIndex> | null = null;
+
+/** The archive index; empty when no archive has been published */
+export function fetchArchiveIndex(): Promise<ArchiveIndex> {
+  if (indexPromise) return indexPromise;
+  indexPromise = fetch(`${basePath()}/archive/index.json`)
+    .then((res) => (res.ok ? (res.json() as Promise<ArchiveIndex>) : { dates: [] }))
+    .catch((err) => {
+      indexPromise = null;
+      throw err;
+    });
+  return indexPromise;
+}
+
+/** Everything the browser shows, as of an archived date */
+export interface ArchivedCatalog {
+  date: string;
+  settings: SettingDefinition[];
+  categoryTree: CategoryTreeNode[];
+  categoryMap: Record<string, string>;
+  categoryParentMap: Record<string, string>;
+}
+
+/**
+ * Rebuild settings-browse.json and the category tree as of the end of `date`
+ * by undoing every later refresh.
+ */
+export async function loadCatalogAsOf(date: string): Promise<ArchivedCatalog> {
+  const base = basePath();
+  const [index, browse, categories] = await Promise.all([
+    fetchArchiveIndex(),
+    fetchBrowseSettings(),
+    fetchGzipJson<ArchiveCategory[]>(`${base}/archive/categories.json.gz`),
+  ]);
+  const deltas = await Promise.all(
+    deltasAfter(index, date).map((d) => fetchGzipJson<ArchiveDelta>(`${base}/archive/${d}.json.gz`))
+  );
+
+  // Deltas hold Graph category IDs, so undo today's category merge first
+  const settingById = new Map<string, SettingDefinition>();
+  for (const { sourceCategoryId, ...s } of browse) {
+    settingById.set(s.id, sourceCategoryId ? { ...s, categoryId: sourceCategoryId } : s);
+  }
+  const categoryById = new Map(categories.map((c) => [c.id, c]));
+  for (const delta of deltas) {
+    applyArchiveChanges(settingById, delta.settings);
+    applyArchiveChanges(categoryById, delta.categories);
+  }
+
+  const settings = [...settingById.values()];
+  const archivedCategories = [...categoryById.values()];
+  const { roots, mergeMap } = buildCategoryTree(archivedCategories, countSettingsByCategory(settings));
+
+  const categoryMap: Record<string, string> = {};
+  const categoryParentMap: Record<string, string> = {};
+  for (const c of archivedCategories) {
+    categoryMap[c.id] = c.displayName;
+    categoryParentMap[c.id] = c.parentCategoryId;
+  }
+
+  return {
+    date,
+    settings: settings.map((s) => (mergeMap[s.categoryId] ? { ...s, categoryId: mergeMap[s.categoryId] } : s)),
+    categoryTree: roots,
+    categoryMap,
+    categoryParentMap,
+  };
+}
@@ -82,11 +82,45 @@ export interface CategoryTreeNode extends SettingCategory {
 
 // ─── Applicability ───
 
+/** Windows editions (Graph `windowsSku`) a setting applies to */
+export type WindowsSku =
+  | 'unknown'
+  | 'windowsHome'
+  | 'windowsProfessional'
+  | 'windowsEnterprise'
+  | 'windowsEducation'
+  | 'windowsMobile'
+  | 'windowsMobileEnterprise'
+  | 'windowsTeamSurface'
+  | 'iot'
+  | 'iotEnterprise'
+  | 'holoLens'
+  | 'holoLensEnterprise'
+  | 'holographicForBusiness'
+  | 'windowsMultiSession'
+  | 'surfaceHub';
+
+/**
+ * Base applicability plus the subtype fields Graph adds: the Windows subtype
+ * (deviceManagementConfigurationWindowsSettingApplicability) carries the
+ * supported build range, editions and Entra ID requirements; Apple and
+ * Android settings may carry a minimum OS version.
+ */
 export interface SettingApplicability {
+  '@odata.type'?: string;
   description?: string;
   platform?: Platform;
   deviceMode?: string;
   technologies?: string;
+  /** e.g. "10.0.17763" on Windows, "14.0" on macOS */
+  minimumSupportedVersion?: string;
+  /** "10.0.99999.9999" on Windows means no upper bound */
+  maximumSupportedVersion?: string;
+  /** Windows only: editions the CSP is supported on */
+  windowsSkus?: WindowsSku[];
+  configurationServiceProviderVersion?: string;
+  requiresAzureAd?: boolean;
+  requiredAzureAdTrustType?: string;
 }
 
 // ─── Setting Definition (base) ───
@@ -100,6 +134,8 @@ export interface SettingDefinition {
   helpText?: string;
   version?: string;
   categoryId: string;
+  /** settings-browse.json only: the Graph categoryId, when categoryId was merged into a duplicate category */
+  sourceCategoryId?: string;
   rootDefinitionId?: string;
   baseUri?: string;
   offsetUri?: string;
@@ -166,6 +202,64 @@ export interface ValueDefinition {
   minimumLength?: number;
   maximumLength?: number;
   format?: string;
+  isSecret?: boolean;
+}
+
+// ─── Configuration Policy (Graph payload) ───
+
+/** A setting instance inside a deviceManagementConfigurationPolicy. The value
+ *  property depends on the @odata.type (choiceSettingValue, simpleSettingValue,
+ *  groupSettingCollectionValue, …), so it is kept open-ended. */
+export interface SettingInstance {
+  '@odata.type': string;
+  settingDefinitionId: string;
+  settingInstanceTemplateReference?: unknown;
+  [valueProperty: string]: unknown;
+}
+
+/** Value object used by choice / simple / group instances */
+export interface SettingInstanceValue {
+  '@odata.type'?: string;
+  value?: unknown;
+  children?: SettingInstance[];
+  [key: string]: unknown;
+}
+
+export interface ConfigurationPolicySetting {
+  '@odata.type'?: string;
+  id?: string;
+  settingInstance: SettingInstance;
+}
+
+export interface ConfigurationPolicy {
+  '@odata.type'?: string;
+  id?: string;
+  name: string;
+  description?: string;
+  platforms?: string;
+  technologies?: string;
+  roleScopeTagIds?: string[];
+  templateReference?: unknown;
+  settings: ConfigurationPolicySetting[];
+}
+
+// ─── Policy Templates ───
+
+/** A configurationPolicyTemplate, with the setting definitions its
+ *  settingTemplates reference flattened into one list (data/templates.json) */
+export interface PolicyTemplate {
+  id: string;
+  baseId: string;
+  version: number;
+  displayName: string;
+  description?: string;
+  displayVersion?: string;
+  lifecycleState?: string;
+  platforms?: string;
+  technologies?: string;
+  /** e.g. endpointSecurityAntivirus, endpointSecurityFirewall, baseline */
+  templateFamily?: string;
+  settingDefinitionIds: string[];
 }
 
 // ─── Scope (derived from baseUri) ───
@@ -179,6 +273,8 @@ export interface ChangelogEntry {
   added: ChangelogSettingRef[];
   removed: ChangelogSettingRef[];
   changed: ChangelogChange[];
+  /** Removed + added pairs matched as the same setting under a new ID */
+  renamed?: ChangelogRename[];
   categoriesAdded?: ChangelogCategoryRef[];
   categoriesRemoved?: ChangelogCategoryRef[];
   categoriesChanged?: ChangelogCategoryChange[];
@@ -198,11 +294,54 @@ export interface ChangelogChange {
   categoryId: string;
   categoryName?: string;
   platform?: string;
-  fields: Array<{
-    field: string;
-    oldValue: string;
-    newValue: string;
-  }>;
+  fields: ChangelogFieldChange[];
+}
+
+/** One field-level change. Changes to `options` also carry an itemId-keyed sub-diff. */
+export interface ChangelogFieldChange {
+  field: string;
+  oldValue: string;
+  newValue: string;
+  /** One-line readable summary, e.g. "maximumValue 100 → 50" or "now depends on X" */
+  summary?: string;
+  optionChanges?: ChangelogOptionChange[];
+}
+
+export interface ChangelogOptionChange {
+  itemId: string;
+  kind: 'added' | 'removed' | 'changed';
+  displayName: string;
+  /** Property changes of a changed option (displayName, description, …) */
+  fields?: Array<{ field: string; oldValue: string; newValue: string }>;
+}
+
+export interface ChangelogRename {
+  /** ID in the previous snapshot */
+  oldId: string;
+  /** ID in the current snapshot */
+  id: string;
+  oldDisplayName: string;
+  displayName: string;
+  categoryId: string;
+  categoryName?: string;
+  platform?: string;
+  /** renamed = same normalised ID (e.g. a version token bump); superseded = matched on CSP path / name only */
+  kind: 'renamed' | 'superseded';
+  /** Match confidence, 0–1 */
+  confidence: number;
+  /** Signals the pairing was based on */
+  matchedOn: Array<'id' | 'cspPath' | 'displayName'>;
+  /** Other field changes between the old and the new definition */
+  fields: ChangelogFieldChange[];
+}
+
+/** One changelog event for a single setting, newest first on the setting page */
+export interface SettingHistoryEvent {
+  date: string; // ISO date
+  kind: 'added' | 'removed' | 'changed' | 'renamed';
+  fields?: ChangelogFieldChange[];
+  /** For renames: the setting's previous ID */
+  fromId?: string;
 }
 
 export interface ChangelogCategoryRef {
@@ -214,11 +353,7 @@ export interface ChangelogCategoryRef {
 export interface ChangelogCategoryChange {
   id: string;
   displayName: string;
-  fields: Array<{
-    field: string;
-    oldValue: string;
-    newValue: string;
-  }>;
+  fields: ChangelogFieldChange[];
 }
 
 // ─── Search Index Entry ───
@@ -233,6 +368,10 @@ export interface SearchIndexEntry {
   scope: SettingScope;
   platform: string;
   settingType: string;
+  /** Full CSP path (baseUri/offsetUri) — filtered by `csp:` queries, not full-text indexed */
+  cspPath?: string;
+  /** Catalogs the setting comes from, comma-separated (configuration, compliance, inventory) */
+  usage: string;
 }
 
 // ─── Match Source (where a search query matched) ───
@@ -317,6 +456,46 @@ export function getScopeBadgeClass(scope: SettingScope): string {
   }
 }
 
+/** Get a human-friendly label for a policy template family */
+export function getTemplateFamilyLabel(family?: string): string {
+  const map: Record<string, string> = {
+    endpointSecurityAntivirus: 'Antivirus',
+    endpointSecurityDiskEncryption: 'Disk encryption',
+    endpointSecurityFirewall: 'Firewall',
+    endpointSecurityEndpointDetectionAndResponse: 'Endpoint detection and response',
+    endpointSecurityAttackSurfaceReduction: 'Attack surface reduction',
+    endpointSecurityAccountProtection: 'Account protection',
+    endpointSecurityApplicationControl: 'Application control',
+    endpointSecurityEndpointPrivilegeManagement: 'Endpoint Privilege Management',
+    baseline: 'Security baseline',
+    enrollmentConfiguration: 'Enrollment',
+    deviceConfigurationPolicies: 'Device configuration',
+  };
+  if (!family || family === 'none') return 'Other';
+  // Unknown families: "someNewFamily" → "Some New Family"
+  return map[family] || family.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/^./, (c) => c.toUpperCase());
+}
+
+/** Catalogs a setting belongs to. `settingUsage` is a comma-separated flags
+ *  value; settings without one come from the configuration catalog. */
+export function getSettingUsages(settingUsage?: string): SettingUsage[] {
+  const usages = (settingUsage || '')
+    .split(',')
+    .map((u) => u.trim())
+    .filter((u): u is SettingUsage => u === 'configuration' || u === 'compliance' || u === 'inventory');
+  return usages.length > 0 ? usages : ['configuration'];
+}
+
+/** Get setting usage display label */
+export function getSettingUsageLabel(usage: string): string {
+  const map: Record<string, string> = {
+    configuration: 'Configuration',
+    compliance: 'Compliance',
+    inventory: 'Inventory',
+  };
+  return map[usage] || usage;
+}
+
 /** Get platform display label */
 export function getPlatformLabel(platform?: string): string {
   const map: Record<string, string> = {